@@ -0,0 +1,16 @@
+// Unit tests under tests/. The renderer is compiled as ESNext for the bundler,
+// so ts-jest compiles it to CommonJS with tests/tsconfig.json, which also
+// type-checks the tests. tests/app.test.js is the mocha end-to-end suite, run
+// by test:e2e.
+module.exports = {
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/tests/**/*.test.ts'],
+  transform: {
+    '^.+\\.tsx?$': [
+      'ts-jest',
+      {
+        tsconfig: '<rootDir>/tests/tsconfig.json',
+      },
+    ],
+  },
+};
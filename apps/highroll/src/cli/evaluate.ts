@@ -0,0 +1,141 @@
+// Offline evaluation of the recommendation engine: replays recorded game
+// timelines through the analyzer and reports how highly it ranked the comps
+// the players ended up playing.
+//
+//   bun run evaluate --fixtures tests/fixtures/evaluation/timelines.json
+//   bun run evaluate:history --comps comps.json [--limit 50]
+//
+// --history reads the match history through better-sqlite3, a native addon
+// Bun cannot load, so evaluate:history bundles the CLI and runs it under Node.
+// --k sets the cutoff for hit rate and NDCG (EVALUATION.TOP_K by default).
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TeamComp } from '../shared/types';
+import { EVALUATION } from '../shared/constants';
+import { evaluate, fromMatchDetails, parseEvaluationFixture, parseTeamComps } from '../renderer/services/evaluation';
+import type { EvaluationMatch, EvaluationMetrics, EvaluationReport } from '../renderer/services/evaluation';
+
+interface CliOptions {
+  fixtures?: string;
+  history: boolean;
+  comps?: string;
+  limit: number;
+  k: number;
+}
+
+const USAGE = `Usage:
+  evaluate --fixtures <timelines.json> [--comps <comps.json>] [--k <n>]
+  evaluate --history --comps <comps.json> [--limit <n>] [--k <n>]`;
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = { history: false, limit: 100, k: EVALUATION.TOP_K };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    const value = () => {
+      const next = argv[++index];
+      if (next === undefined) throw new Error(`Missing value for ${arg}`);
+      return next;
+    };
+
+    if (arg === '--fixtures') options.fixtures = value();
+    else if (arg === '--history') options.history = true;
+    else if (arg === '--comps') options.comps = value();
+    else if (arg === '--limit') options.limit = parseInt(value(), 10);
+    else if (arg === '--k') options.k = parseInt(value(), 10);
+    else throw new Error(`Unknown option ${arg}`);
+  }
+
+  if (!options.fixtures && !options.history) throw new Error('Pass --fixtures or --history');
+  if (options.history && !options.comps) throw new Error('--history needs --comps');
+  if (!(options.k > 0) || !(options.limit > 0)) throw new Error('--k and --limit must be positive');
+  return options;
+};
+
+const readJson = (file: string): unknown => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+// Recorded matches from the local match history database
+const loadHistory = (limit: number): EvaluationMatch[] => {
+  if (process.versions.bun) {
+    throw new Error('--history needs Node to load better-sqlite3, run it with `bun run evaluate:history`');
+  }
+  const matchHistory = require('../main/match-history');
+  const dataService = require('../main/data-service');
+  try {
+    return matchHistory
+      .queryMatches({ limit })
+      .map((record: { id: number }) => fromMatchDetails(matchHistory.getMatch(record.id)));
+  } finally {
+    dataService.closeDatabase();
+  }
+};
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const formatRow = (metrics: EvaluationMetrics) =>
+  [
+    metrics.key.padEnd(14),
+    String(metrics.snapshots).padStart(6),
+    formatRate(metrics.hitRate).padStart(7),
+    formatRate(metrics.hitRateAtK).padStart(7),
+    metrics.meanRank.toFixed(2).padStart(10),
+    metrics.ndcg.toFixed(3).padStart(8),
+  ].join('');
+
+export const formatReport = (report: EvaluationReport, matchCount: number): string => {
+  const header = [
+    ''.padEnd(14),
+    'Rounds'.padStart(6),
+    'Hit@1'.padStart(7),
+    `Hit@${report.k}`.padStart(7),
+    'Mean rank'.padStart(10),
+    `NDCG@${report.k}`.padStart(8),
+  ].join('');
+
+  const lines = [
+    `Evaluated ${report.overall.snapshots} rounds from ${matchCount - report.skipped.length} matches`,
+    '',
+    header,
+    formatRow(report.overall),
+    '',
+    ...report.byStage.map(formatRow),
+    '',
+    ...report.byPlacement.map(formatRow),
+  ];
+
+  if (report.skipped.length > 0) {
+    lines.push('', `Skipped, eventual comp unknown: ${report.skipped.join(', ')}`);
+  }
+  return lines.join('\n');
+};
+
+const main = async () => {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const fixture = options.fixtures ? parseEvaluationFixture(readJson(options.fixtures)) : null;
+  const teamComps: TeamComp[] = options.comps ? parseTeamComps(readJson(options.comps)) : fixture?.teamComps || [];
+  const matches = fixture ? fixture.matches : loadHistory(options.limit);
+
+  if (teamComps.length === 0 || matches.length === 0) {
+    console.error('Nothing to evaluate: no comps or no matches found');
+    process.exit(1);
+  }
+
+  const report = await evaluate(matches, teamComps, { k: options.k });
+  console.log(formatReport(report, matches.length));
+};
+
+// Run when started as a script, by Bun or as the Node bundle of
+// evaluate:history, rather than imported
+if (path.basename(process.argv[1] ?? '').startsWith('evaluate.')) {
+  main().catch(error => {
+    console.error('Evaluation failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,108 @@
+const { desktopCapturer, screen } = require('electron');
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+
+// Title of the game client window TFT runs in
+const TFT_WINDOW_TITLE = 'League of Legends (TM) Client';
+
+// Frames kept for debugging, see setDebugCapture
+const DEBUG_CAPTURE_DIR = path.join(os.tmpdir(), 'tft-overlay', 'captures');
+const DEBUG_FRAME_PATTERN = /^capture-(\d+)\.png$/;
+
+let debugCapture = { enabled: false, maxFrames: 20 };
+
+// Keep the last maxFrames captures on disk while enabled
+function setDebugCapture(options) {
+  debugCapture = { enabled: options.enabled, maxFrames: Math.max(1, Math.floor(options.maxFrames)) };
+  return debugCapture;
+}
+
+// The source to capture: the TFT window, or the primary screen when the game
+// is not running (e.g. in windowless fullscreen)
+function findCaptureSource(sources, primaryDisplayId) {
+  return (
+    sources.find(source => source.name === TFT_WINDOW_TITLE) ||
+    sources.find(source => source.display_id === String(primaryDisplayId)) ||
+    sources.find(source => source.name === 'Entire Screen' || source.name.includes('Screen 1')) ||
+    null
+  );
+}
+
+// The display's size in physical pixels. The renderer's capture stream is
+// capped at this size, so the window is captured without downscaling.
+function getNativeSize(display) {
+  return {
+    width: Math.round(display.size.width * display.scaleFactor),
+    height: Math.round(display.size.height * display.scaleFactor),
+  };
+}
+
+// Find the source to capture. Only its id is needed, so no thumbnails are
+// rendered; the renderer then streams that one source at native resolution
+// (src/renderer/services/screen-capture.ts).
+async function locateCaptureSource() {
+  const display = screen.getPrimaryDisplay();
+  const sources = await desktopCapturer.getSources({
+    types: ['window', 'screen'],
+    thumbnailSize: { width: 0, height: 0 },
+  });
+
+  const source = findCaptureSource(sources, display.id);
+  if (!source) {
+    throw new Error('Could not find the TFT window or the primary display');
+  }
+
+  return { id: source.id, name: source.name, gameWindow: source.name === TFT_WINDOW_TITLE, ...getNativeSize(display) };
+}
+
+// Keep a frame the renderer captured, while debug capture is on
+function keepDebugFrame(png, capturedAt) {
+  if (debugCapture.enabled) {
+    saveDebugFrame(Buffer.from(png), capturedAt);
+  }
+}
+
+// Write a frame to the debug directory, then delete the oldest frames beyond
+// the retention cap
+function saveDebugFrame(png, timestamp, dir = DEBUG_CAPTURE_DIR, maxFrames = debugCapture.maxFrames) {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(path.join(dir, `capture-${timestamp}.png`), png);
+  pruneDebugFrames(dir, maxFrames);
+}
+
+function pruneDebugFrames(dir, maxFrames) {
+  const frames = fs
+    .readdirSync(dir)
+    .filter(file => DEBUG_FRAME_PATTERN.test(file))
+    .sort((a, b) => Number(a.match(DEBUG_FRAME_PATTERN)[1]) - Number(b.match(DEBUG_FRAME_PATTERN)[1]));
+
+  frames.slice(0, Math.max(0, frames.length - maxFrames)).forEach(file => {
+    fs.unlinkSync(path.join(dir, file));
+  });
+}
+
+// Earlier versions wrote every capture to the temp directory and never
+// deleted it
+function removeLegacyCaptures(dir = path.join(os.tmpdir(), 'tft-overlay')) {
+  if (!fs.existsSync(dir)) return;
+
+  fs.readdirSync(dir)
+    .filter(file => /^screen-\d+\.png$/.test(file))
+    .forEach(file => fs.unlinkSync(path.join(dir, file)));
+}
+
+module.exports = {
+  TFT_WINDOW_TITLE,
+  DEBUG_CAPTURE_DIR,
+  setDebugCapture,
+  findCaptureSource,
+  locateCaptureSource,
+  keepDebugFrame,
+  saveDebugFrame,
+  pruneDebugFrames,
+  removeLegacyCaptures,
+};
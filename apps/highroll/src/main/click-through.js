@@ -0,0 +1,22 @@
+// Whether the overlay lets clicks through to the game while it is not focused
+let clickThrough = true;
+
+// Ignore mouse input on the overlay while it is not focused, unless
+// click-through is turned off
+function applyClickThrough(overlayWindow) {
+  if (clickThrough && !overlayWindow.isFocused()) {
+    overlayWindow.setIgnoreMouseEvents(true, { forward: true });
+  } else {
+    overlayWindow.setIgnoreMouseEvents(false);
+  }
+}
+
+// Turn click-through on or off, returning the new state. While off the
+// overlay takes mouse input even when the game is focused.
+function toggleClickThrough(overlayWindow) {
+  clickThrough = !clickThrough;
+  applyClickThrough(overlayWindow);
+  return clickThrough;
+}
+
+module.exports = { applyClickThrough, toggleClickThrough };
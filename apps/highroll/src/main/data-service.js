@@ -0,0 +1,225 @@
+const Database = require('better-sqlite3');
+const path = require('path');
+const fs = require('fs');
+const os = require('os');
+
+// The one connection to the local database, shared by the meta data cache and
+// the match history (match-history.js)
+const dbPath = path.join(os.homedir(), '.tft-overlay', 'data.db');
+let db = null;
+
+// Hosts of the data sources the renderer may fetch from (API_ENDPOINTS in
+// src/shared/constants.ts)
+const DATA_SOURCE_HOSTS = ['api.metatft.com', 'api.tactics.tools'];
+
+// Icon atlases in public/atlas (ICON_ATLASES in src/shared/constants.ts)
+const ICON_ATLASES = ['champions', 'items', 'augments'];
+
+// Base URL of the local TFT composition scraper
+const SCRAPER_API_URL = process.env.TFT_SCRAPER_API_URL || 'http://localhost:3000/api';
+
+// Cached datasets and the column each keeps besides id and name
+const DATASET_TABLES = {
+  team_comps: 'tier',
+  items: 'type',
+  augments: 'tier',
+};
+
+// Open the database and create its tables on first use
+function initDatabase() {
+  if (!db) {
+    if (!fs.existsSync(path.dirname(dbPath))) {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    db = new Database(dbPath);
+    db.pragma('foreign_keys = ON');
+
+    // Create tables if they don't exist
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS team_comps (
+        id TEXT PRIMARY KEY,
+        name TEXT,
+        tier TEXT,
+        data TEXT,
+        updated_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS items (
+        id TEXT PRIMARY KEY,
+        name TEXT,
+        type TEXT,
+        data TEXT,
+        updated_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS augments (
+        id TEXT PRIMARY KEY,
+        name TEXT,
+        tier TEXT,
+        data TEXT,
+        updated_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS meta_data (
+        key TEXT PRIMARY KEY,
+        value TEXT,
+        updated_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS matches (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        started_at INTEGER NOT NULL,
+        ended_at INTEGER,
+        placement INTEGER,
+        final_stage TEXT,
+        comp_id TEXT,
+        comp_name TEXT,
+        opener TEXT,
+        augments TEXT NOT NULL DEFAULT '[]',
+        items TEXT NOT NULL DEFAULT '[]'
+      );
+
+      CREATE TABLE IF NOT EXISTS round_snapshots (
+        match_id INTEGER NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+        stage TEXT NOT NULL,
+        captured_at INTEGER NOT NULL,
+        game_state TEXT NOT NULL,
+        PRIMARY KEY (match_id, stage)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_matches_started_at ON matches (started_at);
+    `);
+  }
+
+  return db;
+}
+
+// Table names cannot be bound as parameters, so only known datasets are accepted
+function getDatasetColumn(dataset) {
+  if (!Object.prototype.hasOwnProperty.call(DATASET_TABLES, dataset)) {
+    throw new Error(`Unknown dataset: ${dataset}`);
+  }
+  return DATASET_TABLES[dataset];
+}
+
+// Cached rows of a dataset, or null when nothing is cached
+function readDataset(dataset) {
+  getDatasetColumn(dataset);
+  const rows = initDatabase().prepare(`SELECT data FROM ${dataset}`).all();
+  return rows.length > 0 ? rows.map(row => JSON.parse(row.data)) : null;
+}
+
+// Cache the rows of a dataset, replacing rows with the same id
+function writeDataset(dataset, rows) {
+  const column = getDatasetColumn(dataset);
+  const database = initDatabase();
+  const stmt = database.prepare(
+    `INSERT OR REPLACE INTO ${dataset} (id, name, ${column}, data, updated_at) VALUES (?, ?, ?, ?, ?)`
+  );
+  const now = Date.now();
+
+  database.transaction(entries => {
+    for (const entry of entries) {
+      stmt.run(entry.id, entry.name, entry[column], JSON.stringify(entry), now);
+    }
+  })(rows);
+}
+
+// A meta_data entry with the time it was written, or null
+function getMeta(key) {
+  const row = initDatabase().prepare('SELECT value, updated_at FROM meta_data WHERE key = ?').get(key);
+  return row ? { value: row.value, updatedAt: row.updated_at } : null;
+}
+
+function setMeta(key, value, updatedAt = Date.now()) {
+  initDatabase()
+    .prepare('INSERT OR REPLACE INTO meta_data (key, value, updated_at) VALUES (?, ?, ?)')
+    .run(key, value, updatedAt);
+}
+
+// Remove the meta_data entries whose key starts with a prefix
+function clearMeta(prefix) {
+  initDatabase()
+    .prepare("DELETE FROM meta_data WHERE key LIKE ? ESCAPE '\\'")
+    .run(`${prefix.replace(/[\\%_]/g, '\\$&')}%`);
+}
+
+// Fetch a JSON document from a data source. Other URLs are refused, so the
+// renderer cannot use the main process to reach arbitrary hosts.
+async function fetchJson(url, method = 'GET') {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    throw new Error(`Not a URL: ${url}`);
+  }
+  if (parsed.protocol !== 'https:' || !DATA_SOURCE_HOSTS.includes(parsed.hostname)) {
+    throw new Error(`Not a data source URL: ${url}`);
+  }
+
+  return requestJson(url, method);
+}
+
+// Fetch a JSON document over HTTP
+async function requestJson(url, method) {
+  const response = await fetch(url, { method });
+  if (!response.ok) {
+    throw new Error(`API request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+// Call an endpoint of the local scraper, e.g. /status
+function fetchScraper(endpoint, method = 'GET') {
+  return requestJson(`${SCRAPER_API_URL}${endpoint}`, method);
+}
+
+// Directory of an icon atlas shipped with the app. Electron is only loaded
+// here, so the evaluation CLI can use the database without it.
+function getAtlasDir(atlas) {
+  const { app } = require('electron');
+  return path.join(app.getAppPath(), 'public', 'atlas', atlas);
+}
+
+// PNG icons of an atlas by id, for the ids that have one
+function readAtlasIcons(atlas, ids) {
+  if (!ICON_ATLASES.includes(atlas)) {
+    throw new Error(`Not an icon atlas: ${atlas}`);
+  }
+
+  const atlasDir = getAtlasDir(atlas);
+  if (!fs.existsSync(atlasDir)) {
+    throw new Error(`Icon atlas not found at ${atlasDir}`);
+  }
+
+  const icons = {};
+
+  for (const id of ids) {
+    const file = path.join(atlasDir, `${path.basename(id)}.png`);
+    if (fs.existsSync(file)) {
+      icons[id] = fs.readFileSync(file);
+    }
+  }
+  return icons;
+}
+
+function closeDatabase() {
+  if (db) {
+    db.close();
+    db = null;
+  }
+}
+
+module.exports = {
+  initDatabase,
+  readDataset,
+  writeDataset,
+  getMeta,
+  setMeta,
+  clearMeta,
+  fetchJson,
+  fetchScraper,
+  readAtlasIcons,
+  closeDatabase,
+};
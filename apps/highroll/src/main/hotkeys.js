@@ -0,0 +1,110 @@
+const { globalShortcut } = require('electron');
+const { HOTKEY_ACTIONS, DEFAULT_HOTKEYS, findHotkeyConflicts } = require('../shared/hotkeys');
+const { toggleClickThrough } = require('./click-through');
+const dataService = require('./data-service');
+
+// meta_data key of the bindings saved from Settings
+const HOTKEYS_META_KEY = 'hotkeys';
+
+// Accelerators registered by the last call to registerHotkeys
+let registered = [];
+
+// Bindings of the last call to registerHotkeys and the actions they could not
+// bind, for a renderer loading after the startup registration
+let current = { hotkeys: DEFAULT_HOTKEYS, errors: {} };
+
+// What each action does. Actions on the overlay window run here; the others
+// are passed to the main window's renderer.
+function createHotkeyActions(mainWindow, overlayWindow) {
+  const sendToRenderer = action => () => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('hotkey-pressed', action);
+    }
+  };
+
+  return {
+    toggleOverlay: () => {
+      if (overlayWindow.isVisible()) {
+        overlayWindow.hide();
+      } else {
+        overlayWindow.show();
+      }
+    },
+    toggleClickThrough: () => toggleClickThrough(overlayWindow),
+    captureScreen: sendToRenderer('captureScreen'),
+    cycleTabs: sendToRenderer('cycleTabs'),
+    markScoutingTarget: sendToRenderer('markScoutingTarget'),
+  };
+}
+
+// Replace the registered hotkeys with the given bindings. Returns an error
+// message per action that could not be bound, e.g. because another
+// application already uses the shortcut.
+function registerHotkeys(hotkeys, actions) {
+  unregisterHotkeys();
+
+  const errors = findHotkeyConflicts(hotkeys);
+  Object.keys(HOTKEY_ACTIONS).forEach(action => {
+    const accelerator = (hotkeys[action] || '').trim();
+    if (!accelerator || errors[action]) return;
+
+    try {
+      if (globalShortcut.register(accelerator, actions[action])) {
+        registered.push(accelerator);
+      } else {
+        errors[action] = `${accelerator} is already in use by another application`;
+      }
+    } catch (error) {
+      errors[action] = `${accelerator} is not a valid shortcut`;
+    }
+  });
+
+  current = { hotkeys: { ...DEFAULT_HOTKEYS, ...hotkeys }, errors };
+  return { errors };
+}
+
+// The bindings saved from Settings, or the defaults before the first save
+function loadSavedHotkeys() {
+  try {
+    const saved = dataService.getMeta(HOTKEYS_META_KEY);
+    return saved ? { ...DEFAULT_HOTKEYS, ...JSON.parse(saved.value) } : DEFAULT_HOTKEYS;
+  } catch (error) {
+    console.error('Error loading saved hotkeys:', error);
+    return DEFAULT_HOTKEYS;
+  }
+}
+
+// Register the saved bindings, at startup
+function registerSavedHotkeys(actions) {
+  return registerHotkeys(loadSavedHotkeys(), actions);
+}
+
+// Register new bindings from Settings and keep them for the next start
+function updateHotkeys(hotkeys, actions) {
+  const registration = registerHotkeys(hotkeys, actions);
+  try {
+    dataService.setMeta(HOTKEYS_META_KEY, JSON.stringify(hotkeys));
+  } catch (error) {
+    console.error('Error saving hotkeys:', error);
+  }
+  return registration;
+}
+
+// The registered bindings and the errors they gave
+function getHotkeys() {
+  return current;
+}
+
+function unregisterHotkeys() {
+  registered.forEach(accelerator => globalShortcut.unregister(accelerator));
+  registered = [];
+}
+
+module.exports = {
+  createHotkeyActions,
+  registerHotkeys,
+  registerSavedHotkeys,
+  updateHotkeys,
+  getHotkeys,
+  unregisterHotkeys,
+};
@@ -1,11 +1,13 @@
-const { ipcMain, desktopCapturer, screen } = require('electron');
-const path = require('path');
-const fs = require('fs');
-const os = require('os');
+const { ipcMain } = require('electron');
+const capture = require('./capture');
+const hotkeys = require('./hotkeys');
+const matchHistory = require('./match-history');
+const dataService = require('./data-service');
+const { validatePayload } = require('../shared/ipc-channels');
 
 function setupIpcHandlers(mainWindow, overlayWindow) {
   // Toggle overlay visibility
-  ipcMain.handle('toggle-overlay', (_, visible) => {
+  handle('toggle-overlay', (_, visible) => {
     if (visible) {
       overlayWindow.show();
     } else {
@@ -15,70 +17,141 @@ function setupIpcHandlers(mainWindow, overlayWindow) {
   });
 
   // Set overlay opacity
-  ipcMain.handle('set-overlay-opacity', (_, opacity) => {
+  handle('set-overlay-opacity', (_, opacity) => {
     overlayWindow.setOpacity(opacity);
     return opacity;
   });
 
   // Resize overlay window
-  ipcMain.handle('resize-overlay', (_, { width, height }) => {
+  handle('resize-overlay', (_, { width, height }) => {
     const [currentWidth, currentHeight] = overlayWindow.getSize();
     overlayWindow.setSize(width || currentWidth, height || currentHeight);
     return { width, height };
   });
 
   // Reposition overlay window
-  ipcMain.handle('reposition-overlay', (_, { x, y }) => {
+  handle('reposition-overlay', (_, { x, y }) => {
     overlayWindow.setPosition(x, y);
     return { x, y };
   });
 
-  // Capture screen for game state analysis
-  ipcMain.handle('capture-screen', async () => {
+  // Find the TFT window for the renderer to capture
+  handle('find-capture-source', async () => {
     try {
-      const sources = await desktopCapturer.getSources({
-        types: ['window', 'screen'],
-        thumbnailSize: { width: 1920, height: 1080 },
-      });
-
-      // Find the primary display source
-      const primaryDisplay = screen.getPrimaryDisplay();
-      const source = sources.find(s => 
-        s.display_id === primaryDisplay.id.toString() || 
-        s.name === 'Entire Screen' || 
-        s.name.includes('Screen 1')
-      );
-
-      if (!source) {
-        throw new Error('Could not find primary display source');
-      }
-
-      // Save the thumbnail to a temporary file
-      const tempDir = path.join(os.tmpdir(), 'tft-overlay');
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true });
-      }
-
-      const timestamp = Date.now();
-      const imagePath = path.join(tempDir, `screen-${timestamp}.png`);
-      
-      // Convert NativeImage to buffer and save to file
-      const imageBuffer = source.thumbnail.toPNG();
-      fs.writeFileSync(imagePath, imageBuffer);
-
-      return { success: true, imagePath };
+      return { success: true, data: await capture.locateCaptureSource() };
     } catch (error) {
-      console.error('Error capturing screen:', error);
+      console.error('Error finding the capture source:', error);
       return { success: false, error: error.message };
     }
   });
 
+  // Register the saved global hotkeys at startup. Settings replaces them
+  // through set-hotkeys; the renderer reads the registered ones on load.
+  const hotkeyActions = hotkeys.createHotkeyActions(mainWindow, overlayWindow);
+  hotkeys.registerSavedHotkeys(hotkeyActions);
+  handle('get-hotkeys', () => hotkeys.getHotkeys());
+  handle('set-hotkeys', (_, bindings) => hotkeys.updateHotkeys(bindings, hotkeyActions));
+
+  // Keep the last frames on disk for debugging
+  handle('set-debug-capture', (_, options) => capture.setDebugCapture(options));
+  handle('save-debug-frame', (_, { png, capturedAt }) => capture.keepDebugFrame(png, capturedAt));
+
+  // Icon atlases, read for the renderer
+  handle('read-atlas-icons', (_, { atlas, ids }) =>
+    handleDataService(() => dataService.readAtlasIcons(atlas, ids)));
+
+  // Match history
+  handle('start-match', (_, startedAt) =>
+    handleMatchHistory(() => matchHistory.startMatch(startedAt)));
+
+  handle('record-round-snapshot', (_, { matchId, stage, gameState, capturedAt }) =>
+    handleMatchHistory(() => matchHistory.recordRoundSnapshot(matchId, stage, gameState, capturedAt)));
+
+  handle('finish-match', (_, { matchId, result }) =>
+    handleMatchHistory(() => matchHistory.finishMatch(matchId, result)));
+
+  handle('set-match-placement', (_, { matchId, placement }) =>
+    handleMatchHistory(() => matchHistory.setMatchPlacement(matchId, placement)));
+
+  handle('query-matches', (_, query) =>
+    handleMatchHistory(() => matchHistory.queryMatches(query)));
+
+  handle('get-match', (_, matchId) =>
+    handleMatchHistory(() => matchHistory.getMatch(matchId)));
+
+  // Meta data cache
+  handle('read-dataset', (_, dataset) =>
+    handleDataService(() => dataService.readDataset(dataset)));
+
+  handle('write-dataset', (_, { dataset, rows }) =>
+    handleDataService(() => dataService.writeDataset(dataset, rows)));
+
+  handle('get-meta', (_, key) =>
+    handleDataService(() => dataService.getMeta(key)));
+
+  handle('set-meta', (_, { key, value, updatedAt }) =>
+    handleDataService(() => dataService.setMeta(key, value, updatedAt)));
+
+  handle('clear-meta', (_, prefix) =>
+    handleDataService(() => dataService.clearMeta(prefix)));
+
+  // Network requests, made here so the renderer needs no network access of its own
+  handle('fetch-json', (_, { url, method }) =>
+    handleDataService(() => dataService.fetchJson(url, method)));
+
+  handle('fetch-scraper', (_, { endpoint, method }) =>
+    handleDataService(() => dataService.fetchScraper(endpoint, method)));
+
   // Send game state to overlay
-  ipcMain.on('update-game-state', (_, gameState) => {
+  listen('update-game-state', (_, gameState) => {
     if (overlayWindow && !overlayWindow.isDestroyed()) {
       overlayWindow.webContents.send('game-state-updated', gameState);
     }
   });
 }
 
+// Register the handler of an invoke channel. Payloads that do not match the
+// channel's schema in src/shared/ipc-channels.js are rejected before reaching it.
+function handle(channel, handler) {
+  ipcMain.handle(channel, (event, payload) => {
+    const error = validatePayload(channel, payload);
+    if (error) {
+      throw new Error(`Invalid ${channel} request: ${error}`);
+    }
+    return handler(event, payload);
+  });
+}
+
+// Register the listener of a one-way channel, dropping invalid payloads
+function listen(channel, listener) {
+  ipcMain.on(channel, (event, payload) => {
+    const error = validatePayload(channel, payload);
+    if (error) {
+      console.error(`Invalid ${channel} message: ${error}`);
+      return;
+    }
+    listener(event, payload);
+  });
+}
+
+// Run a match history operation, reporting failures to the renderer instead of throwing
+function handleMatchHistory(operation) {
+  try {
+    return { success: true, data: operation() };
+  } catch (error) {
+    console.error('Error accessing match history:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+// Run a data service operation, reporting failures to the renderer instead of throwing
+async function handleDataService(operation) {
+  try {
+    return { success: true, data: await operation() };
+  } catch (error) {
+    console.error('Error accessing data service:', error);
+    return { success: false, error: error.message };
+  }
+}
+
 module.exports = { setupIpcHandlers };
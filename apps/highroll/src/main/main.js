@@ -3,6 +3,9 @@ const path = require('path');
 const isDev = require('electron-is-dev');
 const { setupIpcHandlers } = require('./ipc-handlers');
 const { createOverlayWindow } = require('./overlay');
+const dataService = require('./data-service');
+const { removeLegacyCaptures } = require('./capture');
+const { unregisterHotkeys } = require('./hotkeys');
 
 // Keep a global reference of the window objects to prevent garbage collection
 let mainWindow = null;
@@ -14,8 +17,10 @@ function createMainWindow() {
     width: 900,
     height: 680,
     webPreferences: {
-      nodeIntegration: true,
-      contextIsolation: false,
+      preload: path.join(__dirname, 'preload.js'),
+      contextIsolation: true,
+      nodeIntegration: false,
+      sandbox: false, // Lets the preload load the shared channel list
     },
   });
 
@@ -45,6 +50,7 @@ function createMainWindow() {
 
 // Create window when Electron is ready
 app.whenReady().then(() => {
+  removeLegacyCaptures();
   createMainWindow();
 
   app.on('activate', () => {
@@ -54,6 +60,12 @@ app.whenReady().then(() => {
   });
 });
 
+// Release the global hotkeys and close the database before exiting
+app.on('will-quit', () => {
+  unregisterHotkeys();
+  dataService.closeDatabase();
+});
+
 // Quit when all windows are closed, except on macOS
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
@@ -0,0 +1,139 @@
+// Match history lives in the same database as the cached meta data, which the
+// data service opens and sets up
+const { initDatabase } = require('./data-service');
+
+// Start recording a match, returning its id
+function startMatch(startedAt) {
+  const result = initDatabase()
+    .prepare('INSERT INTO matches (started_at) VALUES (?)')
+    .run(startedAt);
+  return Number(result.lastInsertRowid);
+}
+
+// Store the game state at the end of a round, replacing an earlier snapshot of the same round
+function recordRoundSnapshot(matchId, stage, gameState, capturedAt) {
+  initDatabase()
+    .prepare(
+      'INSERT OR REPLACE INTO round_snapshots (match_id, stage, captured_at, game_state) VALUES (?, ?, ?, ?)'
+    )
+    .run(matchId, stage, capturedAt, JSON.stringify(gameState));
+}
+
+// Record how a match ended
+function finishMatch(matchId, result) {
+  initDatabase()
+    .prepare(
+      `UPDATE matches
+       SET ended_at = ?, placement = ?, final_stage = ?, comp_id = ?, comp_name = ?, opener = ?, augments = ?, items = ?
+       WHERE id = ?`
+    )
+    .run(
+      result.endedAt,
+      result.placement ?? null,
+      result.finalStage ?? null,
+      result.compId ?? null,
+      result.compName ?? null,
+      result.opener ?? null,
+      JSON.stringify(result.augments || []),
+      JSON.stringify(result.items || []),
+      matchId
+    );
+}
+
+// Set the placement of a match after the fact, e.g. when entered by the player
+function setMatchPlacement(matchId, placement) {
+  initDatabase().prepare('UPDATE matches SET placement = ? WHERE id = ?').run(placement, matchId);
+}
+
+// Build the WHERE clause for a match query. Every filter is optional.
+function buildMatchQuery(query = {}) {
+  const conditions = [];
+  const params = [];
+
+  if (query.from !== undefined) {
+    conditions.push('started_at >= ?');
+    params.push(query.from);
+  }
+  if (query.to !== undefined) {
+    conditions.push('started_at < ?');
+    params.push(query.to);
+  }
+  if (query.comp) {
+    conditions.push('(comp_id = ? OR comp_name = ?)');
+    params.push(query.comp, query.comp);
+  }
+  if (query.augment) {
+    conditions.push('EXISTS (SELECT 1 FROM json_each(matches.augments) WHERE json_each.value = ?)');
+    params.push(query.augment);
+  }
+  if (query.opener) {
+    conditions.push('opener = ?');
+    params.push(query.opener);
+  }
+  if (query.minPlacement !== undefined) {
+    conditions.push('placement >= ?');
+    params.push(query.minPlacement);
+  }
+  if (query.maxPlacement !== undefined) {
+    conditions.push('placement <= ?');
+    params.push(query.maxPlacement);
+  }
+
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+  const sql = `SELECT * FROM matches${where} ORDER BY started_at DESC LIMIT ? OFFSET ?`;
+  params.push(query.limit || 50, query.offset || 0);
+
+  return { sql, params };
+}
+
+// Convert a matches row to the shape used by the renderer
+function toMatchRecord(row) {
+  return {
+    id: row.id,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    placement: row.placement,
+    finalStage: row.final_stage,
+    compId: row.comp_id,
+    compName: row.comp_name,
+    opener: row.opener,
+    augments: JSON.parse(row.augments),
+    items: JSON.parse(row.items),
+  };
+}
+
+// Find matches, most recent first
+function queryMatches(query) {
+  const { sql, params } = buildMatchQuery(query);
+  return initDatabase().prepare(sql).all(...params).map(toMatchRecord);
+}
+
+// Get a match with its round snapshots in the order they were played
+function getMatch(matchId) {
+  const database = initDatabase();
+  const row = database.prepare('SELECT * FROM matches WHERE id = ?').get(matchId);
+  if (!row) {
+    return null;
+  }
+
+  const snapshots = database
+    .prepare('SELECT stage, captured_at, game_state FROM round_snapshots WHERE match_id = ? ORDER BY captured_at')
+    .all(matchId)
+    .map(snapshot => ({
+      stage: snapshot.stage,
+      capturedAt: snapshot.captured_at,
+      gameState: JSON.parse(snapshot.game_state),
+    }));
+
+  return { ...toMatchRecord(row), snapshots };
+}
+
+module.exports = {
+  startMatch,
+  recordRoundSnapshot,
+  finishMatch,
+  setMatchPlacement,
+  buildMatchQuery,
+  queryMatches,
+  getMatch,
+};
@@ -1,6 +1,7 @@
 const { BrowserWindow, screen } = require('electron');
 const path = require('path');
 const isDev = require('electron-is-dev');
+const { applyClickThrough } = require('./click-through');
 
 function createOverlayWindow() {
   // Get primary display dimensions
@@ -16,26 +17,21 @@ function createOverlayWindow() {
     transparent: true, // Transparent background
     alwaysOnTop: true, // Always on top of other windows
     webPreferences: {
-      nodeIntegration: true,
-      contextIsolation: false,
+      preload: path.join(__dirname, 'preload.js'),
+      contextIsolation: true,
+      nodeIntegration: false,
+      sandbox: false, // Lets the preload load the shared channel list
     },
   });
 
   // Load the overlay HTML directly from the renderer directory
   overlayWindow.loadFile(path.join(__dirname, '../renderer/overlay.html'));
 
-  // Make the window click-through when not focused
-  overlayWindow.setIgnoreMouseEvents(true, { forward: true });
-
-  // Allow mouse events when focused
-  overlayWindow.on('focus', () => {
-    overlayWindow.setIgnoreMouseEvents(false);
-  });
-
-  // Ignore mouse events when blurred
-  overlayWindow.on('blur', () => {
-    overlayWindow.setIgnoreMouseEvents(true, { forward: true });
-  });
+  // Make the window click-through when not focused, and allow mouse events
+  // when focused
+  applyClickThrough(overlayWindow);
+  overlayWindow.on('focus', () => applyClickThrough(overlayWindow));
+  overlayWindow.on('blur', () => applyClickThrough(overlayWindow));
 
   // Hide from taskbar
   overlayWindow.setSkipTaskbar(true);
@@ -0,0 +1,33 @@
+const { contextBridge, ipcRenderer } = require('electron');
+const { getChannels } = require('../shared/ipc-channels');
+
+// Channels the renderer may use, see src/shared/ipc-channels.js
+const INVOKE_CHANNELS = getChannels('invoke');
+const SEND_CHANNELS = getChannels('send');
+const RECEIVE_CHANNELS = getChannels('receive');
+
+function checkChannel(channels, channel) {
+  if (!channels.includes(channel)) {
+    throw new Error(`Unknown IPC channel: ${channel}`);
+  }
+}
+
+// The only access the renderer has to the main process. Node and Electron
+// APIs stay out of reach since the windows run with context isolation.
+contextBridge.exposeInMainWorld('highroll', {
+  invoke: (channel, payload) => {
+    checkChannel(INVOKE_CHANNELS, channel);
+    return ipcRenderer.invoke(channel, payload);
+  },
+  send: (channel, payload) => {
+    checkChannel(SEND_CHANNELS, channel);
+    ipcRenderer.send(channel, payload);
+  },
+  // Subscribe to a channel, returning the function that unsubscribes
+  on: (channel, listener) => {
+    checkChannel(RECEIVE_CHANNELS, channel);
+    const handler = (_, payload) => listener(payload);
+    ipcRenderer.on(channel, handler);
+    return () => ipcRenderer.removeListener(channel, handler);
+  },
+});
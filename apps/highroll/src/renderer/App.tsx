@@ -1,23 +1,45 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
-import { ipcRenderer } from 'electron';
-import { RootState } from './store';
-import { setGameState } from './store/gameSlice';
-import { setSettings } from './store/settingsSlice';
+import { invoke, send, subscribe } from './services/ipc';
+import type { AppDispatch, RootState } from './store';
+import { ingestGameState } from './store/stageSlice';
+import { setHotkeyErrors, setHotkeys, setSettings } from './store/settingsSlice';
+import { markScoutingTarget } from './store/lobbySlice';
+import { fetchSetData, loadCachedSetData } from './services/tft-scraper-api';
+import { refreshPatchVersion, setDataSources, setRefreshPolicy } from './services/data-api';
 import { DEFAULT_SETTINGS } from '../shared/constants';
-import { GameState } from '../shared/types';
+import type { FrameGameState, VisionMetrics } from '../shared/types';
+import { analyzeFrame, cleanup } from './services/game-state';
+import { captureFrame, closeCaptureStream, setDebugCapture } from './services/screen-capture';
+import { createCaptureScheduler, type CaptureScheduler } from './services/capture-scheduler';
 import SettingsPanel from './components/SettingsPanel';
 import TeamCompPanel from './components/TeamCompPanel';
 import ItemBuilder from './components/ItemBuilder';
 import AugmentAdvisor from './components/AugmentAdvisor';
 import EconomyTracker from './components/EconomyTracker';
+import AnalyticsPanel from './components/AnalyticsPanel';
+import LobbyPanel from './components/LobbyPanel';
+import CarouselAdvisor from './components/CarouselAdvisor';
+
+// Tabs in the order the cycle-tabs hotkey goes through them
+const TAB_ORDER = ['teamComp', 'items', 'augments', 'economy', 'carousel', 'lobby', 'analytics'];
 
 const App: React.FC = () => {
-  const dispatch = useDispatch();
+  const dispatch = useDispatch<AppDispatch>();
   const gameState = useSelector((state: RootState) => state.game.gameState);
+  const phase = useSelector((state: RootState) => state.stage.phase);
   const settings = useSelector((state: RootState) => state.settings);
   const [activeTab, setActiveTab] = useState<string>('teamComp');
   const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const tabBeforeCarousel = useRef<string | null>(null);
+  const [visionMetrics, setVisionMetrics] = useState<VisionMetrics | null>(null);
+  const scheduler = useRef<CaptureScheduler | null>(null);
+
+  // Read by the capture scheduler before each capture
+  const phaseRef = useRef(phase);
+  const captureIntervalRef = useRef(settings.captureInterval);
+  phaseRef.current = phase;
+  captureIntervalRef.current = settings.captureInterval;
 
   // Initialize settings
   useEffect(() => {
@@ -30,34 +52,113 @@ const App: React.FC = () => {
     }
   }, [dispatch]);
 
-  // Listen for game state updates from main process
+  // Use the newest set data: the last download first, then the scraper's.
+  // A new patch from the scraper invalidates the cached meta data.
   useEffect(() => {
-    const handleGameStateUpdate = (_: any, newGameState: GameState) => {
-      dispatch(setGameState(newGameState));
-    };
+    loadCachedSetData();
+    fetchSetData();
+    refreshPatchVersion().catch(error => console.error('Error checking the patch version:', error));
+  }, []);
+
+  // Apply the data refresh settings to the data fetches
+  useEffect(() => {
+    setRefreshPolicy({
+      refreshInterval: settings.dataRefreshInterval,
+      staleWhileRevalidate: settings.staleWhileRevalidate,
+    });
+  }, [settings.dataRefreshInterval, settings.staleWhileRevalidate]);
+
+  useEffect(() => {
+    setDataSources(settings.dataSources, settings.mergeDataSources);
+  }, [settings.dataSources, settings.mergeDataSources]);
+
+  // Captures stay in memory unless debug capture is on
+  useEffect(() => {
+    setDebugCapture({ enabled: settings.debugCapture, maxFrames: settings.debugCaptureFrames }).catch(error =>
+      console.error('Error applying the debug capture setting:', error)
+    );
+  }, [settings.debugCapture, settings.debugCaptureFrames]);
 
-    ipcRenderer.on('game-state-updated', handleGameStateUpdate);
+  // Capture and analyze the game, faster while planning than in combat. Each
+  // new game state is passed on to the overlay window.
+  useEffect(() => {
+    const captureScheduler = createCaptureScheduler({
+      capture: captureFrame,
+      analyze: analyzeFrame,
+      onGameState: newGameState => {
+        dispatch(ingestGameState(newGameState));
+        send('update-game-state', newGameState);
+      },
+      getPhase: () => phaseRef.current,
+      getCaptureInterval: () => captureIntervalRef.current,
+      onMetrics: setVisionMetrics,
+    });
 
+    scheduler.current = captureScheduler;
+    captureScheduler.start();
     return () => {
-      ipcRenderer.removeListener('game-state-updated', handleGameStateUpdate);
+      captureScheduler.stop();
+      scheduler.current = null;
+      closeCaptureStream();
+      cleanup();
+    };
+  }, [dispatch]);
+
+  // Show the hotkeys the main process registered at startup. Hotkeys that
+  // could not be registered are shown in Settings, which re-registers them.
+  useEffect(() => {
+    invoke('get-hotkeys')
+      .then(({ hotkeys, errors }) => {
+        dispatch(setHotkeys(hotkeys));
+        dispatch(setHotkeyErrors(errors));
+      })
+      .catch(error => console.error('Error reading hotkeys:', error));
+  }, [dispatch]);
+
+  // Hotkey actions handled by the renderer; the main process handles the
+  // ones on the overlay window
+  useEffect(() => {
+    return subscribe('hotkey-pressed', action => {
+      if (action === 'captureScreen') {
+        scheduler.current?.captureNow().catch(error => console.error('Error analyzing capture:', error));
+      } else if (action === 'cycleTabs') {
+        setActiveTab(tab => TAB_ORDER[(TAB_ORDER.indexOf(tab) + 1) % TAB_ORDER.length]!);
+      } else if (action === 'markScoutingTarget') {
+        dispatch(markScoutingTarget());
+      }
+    });
+  }, [dispatch]);
+
+  // Listen for game state updates from main process
+  useEffect(() => {
+    const handleGameStateUpdate = (newGameState: FrameGameState) => {
+      dispatch(ingestGameState(newGameState));
     };
+
+    return subscribe('game-state-updated', handleGameStateUpdate);
   }, [dispatch]);
 
+  // Show the carousel picks while a carousel round lasts, then go back
+  useEffect(() => {
+    if (phase === 'carousel') {
+      setActiveTab(tab => {
+        if (tab !== 'carousel') tabBeforeCarousel.current = tab;
+        return 'carousel';
+      });
+    } else if (tabBeforeCarousel.current) {
+      setActiveTab(tabBeforeCarousel.current);
+      tabBeforeCarousel.current = null;
+    }
+  }, [phase]);
+
   // Toggle overlay visibility
   const toggleOverlay = () => {
-    ipcRenderer.invoke('toggle-overlay', !settings.overlayVisible);
+    invoke('toggle-overlay', !settings.overlayVisible).catch(error => console.error('Error toggling the overlay:', error));
   };
 
-  // Capture screen for analysis
-  const captureScreen = async () => {
-    const result = await ipcRenderer.invoke('capture-screen');
-    if (result.success) {
-      console.log('Screen captured:', result.imagePath);
-      // Process the captured image
-      // This would trigger the game state analysis
-    } else {
-      console.error('Screen capture failed:', result.error);
-    }
+  // Capture and analyze the game now, like the capture hotkey
+  const captureScreen = () => {
+    scheduler.current?.captureNow().catch(error => console.error('Error analyzing capture:', error));
   };
 
   return (
@@ -122,6 +223,24 @@ const App: React.FC = () => {
               >
                 Economy
               </button>
+              <button
+                className={`px-4 py-2 ${activeTab === 'carousel' ? 'bg-gray-700' : 'bg-gray-800'}`}
+                onClick={() => setActiveTab('carousel')}
+              >
+                Carousel
+              </button>
+              <button
+                className={`px-4 py-2 ${activeTab === 'lobby' ? 'bg-gray-700' : 'bg-gray-800'}`}
+                onClick={() => setActiveTab('lobby')}
+              >
+                Lobby
+              </button>
+              <button
+                className={`px-4 py-2 ${activeTab === 'analytics' ? 'bg-gray-700' : 'bg-gray-800'}`}
+                onClick={() => setActiveTab('analytics')}
+              >
+                Analytics
+              </button>
             </div>
 
             {/* Tab Content */}
@@ -130,6 +249,9 @@ const App: React.FC = () => {
               {activeTab === 'items' && <ItemBuilder />}
               {activeTab === 'augments' && <AugmentAdvisor />}
               {activeTab === 'economy' && <EconomyTracker />}
+              {activeTab === 'carousel' && <CarouselAdvisor />}
+              {activeTab === 'lobby' && <LobbyPanel />}
+              {activeTab === 'analytics' && <AnalyticsPanel />}
             </div>
           </>
         )}
@@ -139,14 +261,27 @@ const App: React.FC = () => {
       <div className="p-2 bg-gray-900 bg-opacity-80 text-xs">
         {gameState ? (
           <div className="flex justify-between">
-            <span>Stage: {gameState.stage}</span>
+            <span>Stage: {gameState.stage}{phase && ` (${phase.replace('_', ' ')})`}</span>
             <span>Level: {gameState.playerLevel}</span>
             <span>Gold: {gameState.gold}</span>
-            <span>Health: {gameState.playerHealth}</span>
+            <span>Health: {gameState.playerHealth ?? '?'}</span>
           </div>
         ) : (
           <div className="text-center">Waiting for game data...</div>
         )}
+        {visionMetrics?.average && (
+          <div className="flex justify-between text-gray-400 mt-1">
+            <span>Frame: {Math.round(visionMetrics.average.total)} ms</span>
+            <span>OCR: {Math.round(visionMetrics.average.ocr)} ms</span>
+            <span>Matching: {Math.round(visionMetrics.average.templateMatching)} ms</span>
+            <span>Skipped: {visionMetrics.framesSkipped}/{visionMetrics.framesSkipped + visionMetrics.framesAnalyzed}</span>
+          </div>
+        )}
+        {visionMetrics?.warnings.map(warning => (
+          <div key={warning} className="text-yellow-400 mt-1">
+            {warning}
+          </div>
+        ))}
       </div>
     </div>
   );
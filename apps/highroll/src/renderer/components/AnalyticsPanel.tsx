@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+import type { RootState } from '../store';
+import type { MatchRecord } from '../../shared/types';
+import { MATCH_HISTORY } from '../../shared/constants';
+import { queryMatches, setMatchPlacement } from '../services/match-history';
+import { compareWithMeta, summarizeMatches } from '../services/analytics';
+import type { PlacementStats } from '../services/analytics';
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+// Table of placement statistics for one grouping
+const StatsTable: React.FC<{ title: string; stats: PlacementStats[] }> = ({ title, stats }) => (
+  <div className="bg-gray-800 bg-opacity-70 rounded p-3">
+    <h3 className="text-lg font-bold mb-2">{title}</h3>
+    {stats.length === 0 ? (
+      <div className="text-sm text-gray-400">No games recorded yet.</div>
+    ) : (
+      <div className="space-y-1">
+        {stats.slice(0, 5).map(stat => (
+          <div key={stat.key} className="flex justify-between p-2 rounded bg-gray-700 text-sm">
+            <span className="font-medium">{stat.key}</span>
+            <span className="text-gray-300">
+              {stat.games} games · Avg {stat.averagePlacement.toFixed(1)} · Top 4 {formatRate(stat.top4Rate)}
+            </span>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const AnalyticsPanel: React.FC = () => {
+  const teamComps = useSelector((state: RootState) => state.recommendations.teamComps);
+  const [matches, setMatches] = useState<MatchRecord[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the local match history
+  const loadMatches = async () => {
+    try {
+      const response = await queryMatches({ limit: MATCH_HISTORY.ANALYTICS_MATCH_LIMIT });
+      if (response.success && response.data) {
+        setMatches(response.data);
+        setError(null);
+      } else {
+        setError(response.error || 'Failed to load match history');
+      }
+    } catch (error) {
+      console.error('Error loading match history:', error);
+      setError((error as Error).message || 'Failed to load match history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadMatches();
+  }, []);
+
+  // Placement is not always visible when a game ends, so the player can enter it
+  const handlePlacementChange = async (matchId: number, placement: number) => {
+    try {
+      const response = await setMatchPlacement(matchId, placement);
+      if (!response.success) {
+        setError(response.error || 'Failed to save the placement');
+        return;
+      }
+    } catch (error) {
+      console.error('Error saving placement:', error);
+      setError((error as Error).message || 'Failed to save the placement');
+      return;
+    }
+    await loadMatches();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-900 bg-opacity-50 p-4 rounded">
+        <h3 className="text-lg font-bold text-red-300">Error</h3>
+        <p>{error}</p>
+        <button
+          onClick={() => {
+            setLoading(true);
+            loadMatches();
+          }}
+          className="mt-2 px-3 py-1 bg-gray-700 rounded hover:bg-gray-600"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  const summary = summarizeMatches(matches);
+  const comparisons = compareWithMeta(summary.byComp, teamComps);
+  const unplaced = matches.filter(match => match.endedAt !== null && match.placement === null);
+  const recentTrend = summary.trend.slice(-20);
+
+  return (
+    <div className="space-y-4">
+      {/* Overall */}
+      <div className="bg-gray-800 bg-opacity-70 rounded p-3">
+        <h3 className="text-lg font-bold mb-2">Performance</h3>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="p-2 rounded bg-gray-700">
+            <div className="text-sm text-gray-400">Games</div>
+            <div className="text-2xl font-bold">{summary.overall.games}</div>
+          </div>
+          <div className="p-2 rounded bg-gray-700">
+            <div className="text-sm text-gray-400">Avg Placement</div>
+            <div className="text-2xl font-bold text-yellow-500">
+              {summary.overall.games > 0 ? summary.overall.averagePlacement.toFixed(2) : '-'}
+            </div>
+          </div>
+          <div className="p-2 rounded bg-gray-700">
+            <div className="text-sm text-gray-400">Top 4</div>
+            <div className="text-2xl font-bold text-blue-500">{formatRate(summary.overall.top4Rate)}</div>
+          </div>
+          <div className="p-2 rounded bg-gray-700">
+            <div className="text-sm text-gray-400">Wins</div>
+            <div className="text-2xl font-bold text-green-500">{formatRate(summary.overall.winRate)}</div>
+          </div>
+        </div>
+        {unplaced.length > 0 && (
+          <div className="text-xs text-gray-400 mt-2">
+            {unplaced.length} {unplaced.length === 1 ? 'game has' : 'games have'} no placement and {unplaced.length === 1 ? 'is' : 'are'} not
+            counted. Enter {unplaced.length === 1 ? 'it' : 'them'} under Missing Placements.
+          </div>
+        )}
+      </div>
+
+      {/* Trend */}
+      {recentTrend.length > 0 && (
+        <div className="bg-gray-800 bg-opacity-70 rounded p-3">
+          <h3 className="text-lg font-bold mb-2">Trend</h3>
+          <div className="flex items-end h-24 space-x-1">
+            {recentTrend.map(point => (
+              <div
+                key={point.matchId}
+                className={`flex-1 rounded-t ${point.placement <= MATCH_HISTORY.TOP_FOUR ? 'bg-blue-600' : 'bg-gray-600'}`}
+                style={{ height: `${((9 - point.placement) / 8) * 100}%` }}
+                title={`#${point.placement} (rolling avg ${point.rollingAverage.toFixed(1)})`}
+              ></div>
+            ))}
+          </div>
+          <div className="text-xs text-gray-400 mt-1">
+            Rolling average: {recentTrend[recentTrend.length - 1]!.rollingAverage.toFixed(2)} over the last{' '}
+            {MATCH_HISTORY.TREND_WINDOW} games
+          </div>
+        </div>
+      )}
+
+      {/* Personal vs Meta */}
+      {comparisons.length > 0 && (
+        <div className="bg-gray-800 bg-opacity-70 rounded p-3">
+          <h3 className="text-lg font-bold mb-2">You vs Meta</h3>
+          <div className="space-y-1">
+            {comparisons.map(comparison => (
+              <div key={comparison.key} className="p-2 rounded bg-gray-700 text-sm">
+                <div className="flex justify-between">
+                  <span className="font-medium">{comparison.key}</span>
+                  <span className={comparison.placementDelta <= 0 ? 'text-green-400' : 'text-red-400'}>
+                    {comparison.placementDelta > 0 ? '+' : ''}
+                    {comparison.placementDelta.toFixed(2)}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-400">
+                  You: Avg {comparison.averagePlacement.toFixed(1)}, Win {formatRate(comparison.winRate)} · Meta: Avg{' '}
+                  {comparison.metaPlacement.toFixed(1)}, Win {formatRate(comparison.metaWinRate)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <StatsTable title="Comps" stats={summary.byComp} />
+      <StatsTable title="Augments" stats={summary.byAugment} />
+      <StatsTable title="Openers" stats={summary.byOpener} />
+
+      {/* Matches without a placement */}
+      {unplaced.length > 0 && (
+        <div className="bg-gray-800 bg-opacity-70 rounded p-3">
+          <h3 className="text-lg font-bold mb-2">Missing Placements ({unplaced.length})</h3>
+          <div className="space-y-1">
+            {unplaced.slice(0, 5).map(match => (
+              <div key={match.id} className="flex justify-between items-center p-2 rounded bg-gray-700 text-sm">
+                <span>
+                  {new Date(match.startedAt).toLocaleDateString()} · {match.compName || 'Unknown comp'}
+                </span>
+                <select
+                  defaultValue=""
+                  onChange={(e) => handlePlacementChange(match.id, parseInt(e.target.value))}
+                  className="bg-gray-600 rounded p-1"
+                >
+                  <option value="" disabled>
+                    Place
+                  </option>
+                  {Array.from({ length: 8 }, (_, index) => (
+                    <option key={index + 1} value={index + 1}>
+                      #{index + 1}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
@@ -2,7 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState } from '../store';
 import { setRecommendedAugments, setLoading, setError } from '../store/recommendationsSlice';
-import { analyzeGameState } from '../services/analyzer';
+import { analyzeGameState, calculateAugmentSynergy, rankOfferedAugments } from '../services/analyzer';
 import { fetchAugments } from '../services/data-api';
 import type { Augment, RecommendedAugment } from '../../shared/types';
 
@@ -16,7 +16,7 @@ const AugmentAdvisor: React.FC = () => {
   const [allAugments, setAllAugments] = useState<Augment[]>([]);
   const [selectedAugment, setSelectedAugment] = useState<AugmentType | null>(null);
 
-  // Fetch all augments from tactics.tools
+  // Fetch all augments from the data sources
   useEffect(() => {
     const getAllAugments = async () => {
       try {
@@ -86,30 +86,10 @@ const AugmentAdvisor: React.FC = () => {
 
   // Calculate synergy with current team composition
   const calculateSynergy = (augment: Augment | RecommendedAugment) => {
-    if (!gameState || !augment.synergies || augment.synergies.length === 0) {
+    if (!gameState) {
       return 0;
     }
-
-    let synergyScore = 0;
-    const currentTraits = gameState.traits || [];
-    const currentUnits = gameState.units || [];
-
-    // Check trait synergies
-    augment.synergies.forEach((synergy: string) => {
-      const matchingTrait = currentTraits.find(trait => trait.name === synergy);
-      if (matchingTrait && matchingTrait.active) {
-        synergyScore += 2;
-      }
-    });
-
-    // Check unit synergies (if any augment specifically synergizes with a unit)
-    currentUnits.forEach(unit => {
-      if (augment.synergies && augment.synergies.includes(unit.name)) {
-        synergyScore += 1;
-      }
-    });
-
-    return Math.min(5, synergyScore); // Cap at 5
+    return calculateAugmentSynergy(gameState, augment);
   };
 
   if (loading) {
@@ -143,8 +123,46 @@ const AugmentAdvisor: React.FC = () => {
   // Current augments
   const currentAugments = gameState.augments || [];
 
+  // Augments offered on screen, best pick first
+  const offeredAugments = rankOfferedAugments(gameState, recommendedAugments);
+
   return (
     <div className="space-y-4">
+      {/* Augment Choices */}
+      {offeredAugments.length > 0 && (
+        <div className="bg-gray-800 bg-opacity-70 rounded p-3">
+          <h3 className="text-lg font-bold mb-2">Augment Choices</h3>
+          <div className="space-y-2">
+            {offeredAugments.map((augment, index) => (
+              <div
+                key={augment.id}
+                className={`p-2 rounded bg-gray-700 border-l-4 augment-${augment.tier.toLowerCase()} cursor-pointer hover:bg-gray-600 ${
+                  index === 0 ? 'ring-2 ring-yellow-500' : ''
+                }`}
+                onClick={() => handleAugmentClick(augment)}
+              >
+                <div className="flex justify-between">
+                  <div className="font-medium">
+                    #{index + 1} {augment.name}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <div className="text-xs px-2 py-0.5 bg-gray-600 rounded">
+                      Synergy: {augment.synergy}/5
+                    </div>
+                    <div className="text-xs px-2 py-0.5 bg-gray-600 rounded">
+                      Priority: {augment.priority}
+                    </div>
+                  </div>
+                </div>
+                {augment.description && (
+                  <div className="text-sm text-gray-400 mt-1">{augment.description}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Current Augments */}
       <div className="bg-gray-800 bg-opacity-70 rounded p-3">
         <h3 className="text-lg font-bold mb-2">Current Augments</h3>
@@ -0,0 +1,67 @@
+import React from 'react';
+import { useSelector } from 'react-redux';
+import type { RootState } from '../store';
+import { rankCarouselPicks } from '../services/carousel-advisor';
+
+const CarouselAdvisor: React.FC = () => {
+  const gameState = useSelector((state: RootState) => state.game.gameState);
+  const teamComps = useSelector((state: RootState) => state.recommendations.teamComps);
+
+  const picks = gameState ? rankCarouselPicks(gameState, teamComps) : [];
+
+  if (picks.length === 0) {
+    return (
+      <div className="bg-gray-800 bg-opacity-50 p-4 rounded text-center">
+        <p>No carousel detected.</p>
+        <p className="text-sm text-gray-400 mt-2">
+          Picks are ranked here automatically when a carousel round starts.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800 bg-opacity-70 rounded p-3">
+      <h3 className="text-lg font-bold mb-2">Carousel Picks</h3>
+      <div className="space-y-2">
+        {picks.map((pick, index) => (
+          <div
+            key={`${pick.unit.name}-${index}`}
+            className={`p-2 rounded ${index === 0 ? 'bg-blue-900 bg-opacity-70' : 'bg-gray-700'}`}
+          >
+            <div className="flex justify-between items-center">
+              <span className="font-medium">
+                {index + 1}. {pick.unit.name}
+                {pick.item && <span className="text-gray-300"> + {pick.item.name}</span>}
+              </span>
+              <span className="text-xs text-gray-400">Score: {pick.score.toFixed(1)}</span>
+            </div>
+
+            {pick.unlocks.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {pick.unlocks.map(unlock => (
+                  <span
+                    key={unlock.id}
+                    className={`text-xs px-2 py-1 rounded ${unlock.wantedBy ? 'bg-green-800' : 'bg-gray-800'}`}
+                  >
+                    {unlock.name} (with {unlock.component})
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {pick.reasons.length > 0 && (
+              <ul className="text-xs text-gray-400 mt-1 list-disc list-inside">
+                {pick.reasons.map(reason => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CarouselAdvisor;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import type { GameState } from '../../shared/types';
+import { ECONOMY } from '../../shared/constants';
+import { PRESET_PLANS, simulateEconomy } from '../services/economy';
+import type { PlanResult } from '../services/economy';
+
+interface EconomyPlannerProps {
+  gameState: GameState;
+}
+
+// Summary of one projected plan
+const PlanSummary: React.FC<{ result: PlanResult }> = ({ result }) => (
+  <div className="p-2 rounded bg-gray-700 text-sm">
+    <div className="font-medium mb-1">{result.plan.name}</div>
+    <div className="text-xs text-gray-400">Final level: {result.finalLevel}</div>
+    <div className="text-xs text-gray-400">Final gold: {result.finalGold}</div>
+    <div className="text-xs text-gray-400">Gold rolled: {result.totalSpentOnRolls}</div>
+  </div>
+);
+
+const EconomyPlanner: React.FC<EconomyPlannerProps> = ({ gameState }) => {
+  const [stage, setStage] = useState<string>(gameState.stage || '2-1');
+  const [xp, setXp] = useState<number>(0);
+  const [planIds, setPlanIds] = useState<[string, string]>([PRESET_PLANS[0]!.id, PRESET_PLANS[1]!.id]);
+
+  const start = {
+    stage,
+    gold: gameState.gold,
+    level: gameState.playerLevel,
+    xp,
+    streak: gameState.streak,
+  };
+
+  const results = planIds.map(id => {
+    const plan = PRESET_PLANS.find(preset => preset.id === id) || PRESET_PLANS[0]!;
+    return simulateEconomy(start, plan, ECONOMY.PLANNER_ROUNDS);
+  });
+  const [first, second] = results as [PlanResult, PlanResult];
+
+  const selectPlan = (index: number, id: string) => {
+    const next: [string, string] = [...planIds];
+    next[index] = id;
+    setPlanIds(next);
+  };
+
+  return (
+    <div className="bg-gray-800 bg-opacity-70 rounded p-3">
+      <h3 className="text-lg font-bold mb-2">Economy Planner</h3>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <div>
+          <label className="block mb-1 text-sm">Current Stage</label>
+          <input
+            type="text"
+            value={stage}
+            onChange={(e) => setStage(e.target.value.trim())}
+            className="w-full bg-gray-700 p-2 rounded"
+          />
+        </div>
+        <div>
+          <label className="block mb-1 text-sm">Current XP</label>
+          <input
+            type="number"
+            min="0"
+            value={xp}
+            onChange={(e) => setXp(parseInt(e.target.value) || 0)}
+            className="w-full bg-gray-700 p-2 rounded"
+          />
+        </div>
+        {planIds.map((id, index) => (
+          <div key={index}>
+            <label className="block mb-1 text-sm">Plan {index === 0 ? 'A' : 'B'}</label>
+            <select
+              value={id}
+              onChange={(e) => selectPlan(index, e.target.value)}
+              className="w-full bg-gray-700 p-2 rounded"
+            >
+              {PRESET_PLANS.map(plan => (
+                <option key={plan.id} value={plan.id}>
+                  {plan.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {first.rounds.length === 0 ? (
+        <div className="text-sm text-gray-400">Enter the current stage, e.g. 3-2, to project your economy.</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 mb-3">
+            <PlanSummary result={first} />
+            <PlanSummary result={second} />
+          </div>
+
+          {/* Round by round, side by side */}
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-400">
+                <th className="text-left">Stage</th>
+                <th className="text-right">A Gold</th>
+                <th className="text-right">A Lvl</th>
+                <th className="text-right">B Gold</th>
+                <th className="text-right">B Lvl</th>
+              </tr>
+            </thead>
+            <tbody>
+              {first.rounds.map((round, index) => {
+                const other = second.rounds[index];
+                return (
+                  <tr key={round.stage} className="border-t border-gray-700">
+                    <td>{round.stage}</td>
+                    <td className={`text-right ${round.spentOnRolls > 0 ? 'text-blue-400' : ''}`}>{round.gold}</td>
+                    <td className="text-right">{round.level}</td>
+                    <td className={`text-right ${other && other.spentOnRolls > 0 ? 'text-blue-400' : ''}`}>
+                      {other?.gold}
+                    </td>
+                    <td className="text-right">{other?.level}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="text-xs text-gray-400 mt-1">Gold shown after the round's actions; blue rounds include rolling.</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EconomyPlanner;
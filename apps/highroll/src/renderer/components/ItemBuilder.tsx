@@ -1,15 +1,38 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState } from '../store';
 import { setRecommendedItems, setLoading, setError } from '../store/recommendationsSlice';
 import { analyzeGameState } from '../services/analyzer';
 import { Item } from '../../shared/types';
+import { ITEM_DETECTION } from '../../shared/constants';
+import { fetchItems } from '../services/data-api';
+import { buildRecipeGrid, getRecipeComponents, rankItemAlternatives, solveItems } from '../services/item-solver';
+
+// Short label for a component in the recipe grid header
+const shortName = (name: string) => name.split(' ').map(word => word[0]).join('');
 
 const ItemBuilder: React.FC = () => {
   const dispatch = useDispatch();
   const gameState = useSelector((state: RootState) => state.game.gameState);
   const { recommendedItems, loading, error } = useSelector((state: RootState) => state.recommendations);
   const teamComps = useSelector((state: RootState) => state.recommendations.teamComps);
+  const [allItems, setAllItems] = useState<Item[]>([]);
+
+  // Fetch all items with their per-champion placements
+  useEffect(() => {
+    const getAllItems = async () => {
+      try {
+        const response = await fetchItems();
+        if (response.success && response.data) {
+          setAllItems(response.data);
+        }
+      } catch (err) {
+        console.error('Error fetching all items:', err);
+      }
+    };
+
+    getAllItems();
+  }, []);
 
   // Analyze game state when it changes
   useEffect(() => {
@@ -30,6 +53,11 @@ const ItemBuilder: React.FC = () => {
     analyzeCurrentGameState();
   }, [gameState, dispatch]);
 
+  // Best use of the components on the item bench for the recommended comps
+  const plan = useMemo(() => (gameState ? solveItems(gameState, teamComps) : null), [gameState, teamComps]);
+  const recipeGrid = useMemo(() => (gameState && plan ? buildRecipeGrid(gameState, plan) : []), [gameState, plan]);
+  const recipeComponents = getRecipeComponents();
+
   // Group items by champion
   const itemsByChampion = recommendedItems.reduce((acc: Record<string, any[]>, item) => {
     const champion = item.champion || 'General';
@@ -40,6 +68,14 @@ const ItemBuilder: React.FC = () => {
     return acc;
   }, {});
 
+  // Items each champion places best with, besides the recommended ones
+  const alternativesByChampion = Object.fromEntries(
+    Object.entries(itemsByChampion).map(([champion, items]) => [
+      champion,
+      rankItemAlternatives(champion, allItems, items.map(item => item.name)),
+    ])
+  );
+
   if (loading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -78,16 +114,20 @@ const ItemBuilder: React.FC = () => {
         <h3 className="text-lg font-bold mb-2">Current Items</h3>
         {currentItems.length > 0 ? (
           <div className="grid grid-cols-8 gap-2">
-            {currentItems.map((item: Item, index: number) => (
-              <div
-                key={`${item.id}-${index}`}
-                className="p-2 rounded bg-gray-700 text-center"
-                title={item.name}
-              >
-                <div className="w-8 h-8 mx-auto rounded-full bg-yellow-600"></div>
-                <div className="text-xs mt-1 truncate">{item.name}</div>
-              </div>
-            ))}
+            {currentItems.map((item: Item, index: number) => {
+              // Grey out items the detector is not sure about
+              const uncertain = item.confidence !== undefined && item.confidence < ITEM_DETECTION.CONFIDENT_THRESHOLD;
+              return (
+                <div
+                  key={`${item.id}-${index}`}
+                  className={`p-2 rounded bg-gray-700 text-center ${uncertain ? 'opacity-50' : ''}`}
+                  title={uncertain ? `${item.name} (${Math.round((item.confidence || 0) * 100)}% confidence)` : item.name}
+                >
+                  <div className="w-8 h-8 mx-auto rounded-full bg-yellow-600"></div>
+                  <div className="text-xs mt-1 truncate">{item.name}</div>
+                </div>
+              );
+            })}
           </div>
         ) : (
           <p className="text-sm text-gray-400">No items detected.</p>
@@ -118,6 +158,14 @@ const ItemBuilder: React.FC = () => {
                     </div>
                   ))}
                 </div>
+                {alternativesByChampion[champion]!.length > 0 && (
+                  <div className="text-xs text-gray-400 mt-1">
+                    Alternatives:{' '}
+                    {alternativesByChampion[champion]!
+                      .map(alternative => `${alternative.item.name} (avg ${alternative.avgPlacement.toFixed(2)})`)
+                      .join(', ')}
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -128,43 +176,79 @@ const ItemBuilder: React.FC = () => {
         )}
       </div>
 
-      {/* Item Combinations Guide */}
+      {/* Component Allocation */}
       <div className="bg-gray-800 bg-opacity-70 rounded p-3">
-        <h3 className="text-lg font-bold mb-2">Item Combinations</h3>
-        <div className="grid grid-cols-3 gap-2 text-xs">
-          <div className="p-2 rounded bg-gray-700">
-            <div className="flex items-center justify-center space-x-1">
-              <div className="w-4 h-4 rounded-full bg-blue-600"></div>
-              <span>+</span>
-              <div className="w-4 h-4 rounded-full bg-red-600"></div>
-              <span>=</span>
-              <div className="w-4 h-4 rounded-full bg-purple-600"></div>
-            </div>
-            <div className="text-center mt-1">Giant Slayer</div>
-          </div>
-          <div className="p-2 rounded bg-gray-700">
-            <div className="flex items-center justify-center space-x-1">
-              <div className="w-4 h-4 rounded-full bg-blue-600"></div>
-              <span>+</span>
-              <div className="w-4 h-4 rounded-full bg-green-600"></div>
-              <span>=</span>
-              <div className="w-4 h-4 rounded-full bg-teal-600"></div>
-            </div>
-            <div className="text-center mt-1">Titan's Resolve</div>
-          </div>
-          <div className="p-2 rounded bg-gray-700">
-            <div className="flex items-center justify-center space-x-1">
-              <div className="w-4 h-4 rounded-full bg-red-600"></div>
-              <span>+</span>
-              <div className="w-4 h-4 rounded-full bg-green-600"></div>
-              <span>=</span>
-              <div className="w-4 h-4 rounded-full bg-yellow-600"></div>
-            </div>
-            <div className="text-center mt-1">Zeke's Herald</div>
+        <h3 className="text-lg font-bold mb-2">Item Plan</h3>
+        {plan && plan.builds.length > 0 ? (
+          <div className="space-y-2">
+            {plan.builds.map((build, index) => (
+              <div key={`${build.item.id}-${index}`} className="p-2 rounded bg-gray-700">
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">
+                    {build.item.name} <span className="text-gray-400">on {build.holder}</span>
+                  </span>
+                  <span
+                    className={`text-xs px-2 py-1 rounded ${build.action === 'slam' ? 'bg-green-700' : 'bg-yellow-700'}`}
+                  >
+                    {build.action === 'slam' ? 'Slam now' : 'Hold'}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-400 mt-1">
+                  {build.components[0].name} + {build.components[1].name} · {build.comp}
+                </div>
+                <div className="text-xs text-gray-400">{build.reason}</div>
+              </div>
+            ))}
           </div>
+        ) : (
+          <p className="text-sm text-gray-400">No recommended item can be built from your components yet.</p>
+        )}
+        {plan && plan.spare.length > 0 && (
+          <p className="text-xs text-gray-400 mt-2">
+            Keep for later: {plan.spare.map(item => item.name).join(', ')}
+          </p>
+        )}
+      </div>
+
+      {/* Recipe Grid */}
+      <div className="bg-gray-800 bg-opacity-70 rounded p-3">
+        <h3 className="text-lg font-bold mb-2">Item Combinations</h3>
+        <div className="overflow-x-auto">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                <th></th>
+                {recipeComponents.map(component => (
+                  <th key={component.id} className="p-1 text-gray-400" title={component.name}>
+                    {shortName(component.name)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {recipeGrid.map((row, rowIndex) => (
+                <tr key={recipeComponents[rowIndex]!.id}>
+                  <th className="p-1 text-gray-400 text-left" title={recipeComponents[rowIndex]!.name}>
+                    {shortName(recipeComponents[rowIndex]!.name)}
+                  </th>
+                  {row.map((cell, colIndex) => (
+                    <td
+                      key={recipeComponents[colIndex]!.id}
+                      className={`p-1 border border-gray-700 text-center ${
+                        cell.planned ? 'bg-green-800' : cell.held ? 'bg-blue-900' : ''
+                      }`}
+                      title={cell.item?.name}
+                    >
+                      <span className="block w-16 truncate">{cell.item?.name || '-'}</span>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
         </div>
         <p className="text-xs text-gray-400 mt-2">
-          Hover over items to see their names and effects.
+          Blue cells can be built from your components; green cells are in the plan.
         </p>
       </div>
     </div>
@@ -0,0 +1,99 @@
+import React from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import type { RootState } from '../store';
+import { removeOpponent, resetLobby, setScoutingTarget } from '../store/lobbySlice';
+import { getLobbyTraits } from '../services/lobby';
+
+const LobbyPanel: React.FC = () => {
+  const dispatch = useDispatch();
+  const opponents = useSelector((state: RootState) => state.lobby.opponents);
+  const target = useSelector((state: RootState) => state.lobby.target);
+  const lobbyTraits = getLobbyTraits(opponents);
+
+  if (opponents.length === 0) {
+    return (
+      <div className="bg-gray-800 bg-opacity-50 p-4 rounded text-center">
+        <p>No boards scouted yet.</p>
+        <p className="text-sm text-gray-400 mt-2">
+          Click another player in game to view their board; it is recorded on the next capture.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Traits across the lobby */}
+      <div className="bg-gray-800 bg-opacity-70 rounded p-3">
+        <h3 className="text-lg font-bold mb-2">Lobby Traits</h3>
+        <div className="space-y-1">
+          {lobbyTraits.map(trait => (
+            <div key={trait.name} className="flex justify-between p-2 rounded bg-gray-700 text-sm">
+              <span className="font-medium">{trait.name}</span>
+              <span className="text-gray-300">{trait.opponents.join(', ')}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Scouted boards */}
+      <div className="bg-gray-800 bg-opacity-70 rounded p-3">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-lg font-bold">Opponents</h3>
+          <button
+            onClick={() => dispatch(resetLobby())}
+            className="text-xs px-2 py-1 rounded bg-gray-700 hover:bg-gray-600"
+          >
+            Clear
+          </button>
+        </div>
+        <div className="space-y-2">
+          {opponents.map(opponent => (
+            <div
+              key={opponent.name}
+              className={`p-2 rounded bg-gray-700 ${opponent.name === target ? 'ring-2 ring-yellow-400' : ''}`}
+            >
+              <div className="flex justify-between items-center">
+                <span className="font-medium">
+                  {opponent.name}
+                  {opponent.name === target && <span className="ml-2 text-xs text-yellow-400">Target</span>}
+                </span>
+                <span className="text-xs text-gray-400">
+                  Scouted at {opponent.stage || '?'}
+                  <button
+                    onClick={() => dispatch(setScoutingTarget(opponent.name === target ? null : opponent.name))}
+                    className="ml-2 hover:text-white"
+                    title={opponent.name === target ? 'Unmark target' : 'Mark as target'}
+                  >
+                    🎯
+                  </button>
+                  <button
+                    onClick={() => dispatch(removeOpponent(opponent.name))}
+                    className="ml-2 hover:text-white"
+                  >
+                    ✖️
+                  </button>
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {opponent.traits.filter(trait => trait.active).map(trait => (
+                  <span
+                    key={trait.name}
+                    className={`text-xs px-2 py-1 rounded bg-gray-800 trait-${trait.style.toLowerCase()}`}
+                  >
+                    {trait.name} {trait.count}
+                  </span>
+                ))}
+              </div>
+              <div className="text-xs text-gray-400 mt-1">
+                {opponent.units.map(unit => `${unit.name}${unit.tier > 1 ? ` ${unit.tier}★` : ''}`).join(', ')}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LobbyPanel;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { GameState } from '../../shared/types';
+import { getChampion, getChampions, getPoolSizes } from '../../shared/set-data';
+import { calculateRollOdds, countOwnedCopies } from '../services/roll-calculator';
+import type { RollOdds } from '../services/roll-calculator';
+
+interface RollCalculatorProps {
+  gameState: GameState;
+}
+
+const formatGold = (gold: number) => (Number.isFinite(gold) ? `${Math.round(gold)}g` : 'Cannot hit');
+
+// Result card for one star level
+const OddsCard: React.FC<{ stars: number; odds: RollOdds; gold: number }> = ({ stars, odds, gold }) => (
+  <div className="p-2 rounded bg-gray-700">
+    <div className="text-sm text-gray-400">
+      {stars}★ ({odds.copiesNeeded} more {odds.copiesNeeded === 1 ? 'copy' : 'copies'})
+    </div>
+    <div className="text-2xl font-bold text-yellow-500">{Math.round(odds.probability * 100)}%</div>
+    <div className="text-xs text-gray-400">within {gold} gold</div>
+    <div className="text-xs text-gray-400">Expected: {formatGold(odds.expectedGold)}</div>
+  </div>
+);
+
+const RollCalculator: React.FC<RollCalculatorProps> = ({ gameState }) => {
+  const champions = [...getChampions()].sort((a, b) => a.cost - b.cost || a.name.localeCompare(b.name));
+  const [championName, setChampionName] = useState<string>(
+    gameState.units[0]?.name || champions[0]?.name || ''
+  );
+  const [copiesOut, setCopiesOut] = useState<number>(0);
+  const [level, setLevel] = useState<number>(gameState.playerLevel);
+  const [gold, setGold] = useState<number>(gameState.gold);
+
+  const champion = getChampion(championName);
+  if (!champion) {
+    return null;
+  }
+
+  const copiesOwned = countOwnedCopies(gameState, champion.name);
+  const target = { cost: champion.cost, level, copiesOwned, copiesOut };
+  const twoStar = calculateRollOdds(target, 2, gold);
+  const threeStar = calculateRollOdds(target, 3, gold);
+
+  return (
+    <div className="bg-gray-800 bg-opacity-70 rounded p-3">
+      <h3 className="text-lg font-bold mb-2">Roll Calculator</h3>
+
+      <div className="space-y-2 mb-3">
+        <div>
+          <label className="block mb-1 text-sm">Champion</label>
+          <select
+            value={championName}
+            onChange={(e) => setChampionName(e.target.value)}
+            className="w-full bg-gray-700 p-2 rounded"
+          >
+            {champions.map(option => (
+              <option key={option.id} value={option.name}>
+                {option.name} ({option.cost}g)
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className="block mb-1 text-sm">Out of pool</label>
+            <input
+              type="number"
+              min="0"
+              max={getPoolSizes()[champion.cost]}
+              value={copiesOut}
+              onChange={(e) => setCopiesOut(parseInt(e.target.value) || 0)}
+              className="w-full bg-gray-700 p-2 rounded"
+            />
+          </div>
+          <div>
+            <label className="block mb-1 text-sm">Level</label>
+            <input
+              type="number"
+              min="1"
+              max="10"
+              value={level}
+              onChange={(e) => setLevel(parseInt(e.target.value) || 1)}
+              className="w-full bg-gray-700 p-2 rounded"
+            />
+          </div>
+          <div>
+            <label className="block mb-1 text-sm">Gold</label>
+            <input
+              type="number"
+              min="0"
+              value={gold}
+              onChange={(e) => setGold(parseInt(e.target.value) || 0)}
+              className="w-full bg-gray-700 p-2 rounded"
+            />
+          </div>
+        </div>
+
+        <div className="text-xs text-gray-400">
+          You own {copiesOwned} of {getPoolSizes()[champion.cost]} copies.
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <OddsCard stars={2} odds={twoStar} gold={gold} />
+        <OddsCard stars={3} odds={threeStar} gold={gold} />
+      </div>
+    </div>
+  );
+};
+
+export default RollCalculator;
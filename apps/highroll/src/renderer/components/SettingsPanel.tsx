@@ -1,15 +1,28 @@
 import React, { useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
-import { ipcRenderer } from 'electron';
+import { invoke } from '../services/ipc';
 import { RootState } from '../store';
 import {
   setOverlayOpacity,
   setOverlayPosition,
   setOverlaySize,
   setCaptureInterval,
+  setDebugCapture,
+  setDebugCaptureFrames,
   setDataRefreshInterval,
+  setStaleWhileRevalidate,
+  setDataSources,
+  setMergeDataSources,
+  setScoringWeights,
   setHotkeys,
+  setHotkeyErrors,
 } from '../store/settingsSlice';
+import { DEFAULT_SETTINGS, SCORING_WEIGHTS } from '../../shared/constants';
+import type { DataSourceId, HotkeyAction } from '../../shared/types';
+import type { HotkeyRegistration } from '../../shared/ipc';
+import { HOTKEY_ACTIONS, findHotkeyConflicts } from '../../shared/hotkeys.js';
+import { SCORERS } from '../services/scoring';
+import { DATA_SOURCES } from '../services/data-sources';
 
 interface SettingsPanelProps {
   onClose: () => void;
@@ -23,27 +36,44 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
   const [position, setPosition] = useState(settings.overlayPosition);
   const [size, setSize] = useState(settings.overlaySize);
   const [captureInterval, setCaptureIntervalState] = useState(settings.captureInterval);
+  const [debugCapture, setDebugCaptureState] = useState(settings.debugCapture);
+  const [debugCaptureFrames, setDebugCaptureFramesState] = useState(settings.debugCaptureFrames);
   const [dataRefreshInterval, setDataRefreshIntervalState] = useState(settings.dataRefreshInterval);
+  const [staleWhileRevalidate, setStaleWhileRevalidateState] = useState(settings.staleWhileRevalidate);
+  const [dataSources, setDataSourcesState] = useState(settings.dataSources);
+  const [mergeDataSources, setMergeDataSourcesState] = useState(settings.mergeDataSources);
+  const [scoringWeights, setScoringWeightsState] = useState(settings.scoringWeights);
   const [hotkeys, setHotkeysState] = useState(settings.hotkeys);
   
-  // Save settings
-  const saveSettings = () => {
+  // Bindings that clash with each other are caught before saving; the main
+  // process reports the ones it could not register
+  const hotkeyConflicts = findHotkeyConflicts(hotkeys) as HotkeyRegistration['errors'];
+  const hasHotkeyConflicts = Object.keys(hotkeyConflicts).length > 0;
+  
+  // Save settings, staying open when a hotkey could not be registered
+  const saveSettings = async () => {
     // Update Redux state
     dispatch(setOverlayOpacity(opacity));
     dispatch(setOverlayPosition(position));
     dispatch(setOverlaySize(size));
     dispatch(setCaptureInterval(captureInterval));
+    dispatch(setDebugCapture(debugCapture));
+    dispatch(setDebugCaptureFrames(debugCaptureFrames));
     dispatch(setDataRefreshInterval(dataRefreshInterval));
+    dispatch(setStaleWhileRevalidate(staleWhileRevalidate));
+    dispatch(setDataSources(dataSources));
+    dispatch(setMergeDataSources(mergeDataSources));
+    dispatch(setScoringWeights(scoringWeights));
     dispatch(setHotkeys(hotkeys));
     
     // Update overlay opacity via IPC
-    ipcRenderer.invoke('set-overlay-opacity', opacity);
+    invoke('set-overlay-opacity', opacity).catch(error => console.error('Error setting overlay opacity:', error));
     
     // Update overlay position via IPC
-    ipcRenderer.invoke('reposition-overlay', position);
+    invoke('reposition-overlay', position).catch(error => console.error('Error moving the overlay:', error));
     
     // Update overlay size via IPC
-    ipcRenderer.invoke('resize-overlay', size);
+    invoke('resize-overlay', size).catch(error => console.error('Error resizing the overlay:', error));
     
     // Save to localStorage
     localStorage.setItem('settings', JSON.stringify({
@@ -51,24 +81,58 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
       overlayPosition: position,
       overlaySize: size,
       captureInterval,
+      debugCapture,
+      debugCaptureFrames,
       dataRefreshInterval,
+      staleWhileRevalidate,
+      dataSources,
+      mergeDataSources,
+      scoringWeights,
       hotkeys,
     }));
     
-    onClose();
+    const { errors } = await invoke('set-hotkeys', hotkeys);
+    dispatch(setHotkeyErrors(errors));
+    if (Object.keys(errors).length === 0) {
+      onClose();
+    }
   };
   
+  // Enabled sources in priority order, then the disabled ones
+  const sourceOrder = [
+    ...dataSources,
+    ...(Object.keys(DATA_SOURCES) as DataSourceId[]).filter(id => !dataSources.includes(id)),
+  ];
+
+  const toggleDataSource = (id: DataSourceId) => {
+    setDataSourcesState(dataSources.includes(id) ? dataSources.filter(source => source !== id) : [...dataSources, id]);
+  };
+
+  // Swap an enabled source with its neighbor in the priority order
+  const moveDataSource = (id: DataSourceId, offset: number) => {
+    const index = dataSources.indexOf(id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= dataSources.length) return;
+
+    const reordered = [...dataSources];
+    [reordered[index], reordered[target]] = [reordered[target]!, reordered[index]!];
+    setDataSourcesState(reordered);
+  };
+
   // Reset settings to defaults
   const resetSettings = () => {
     setOpacity(0.8);
     setPosition({ x: 0, y: 0 });
     setSize({ width: 400, height: 600 });
     setCaptureIntervalState(5000);
+    setDebugCaptureState(DEFAULT_SETTINGS.debugCapture);
+    setDebugCaptureFramesState(DEFAULT_SETTINGS.debugCaptureFrames);
     setDataRefreshIntervalState(86400000);
-    setHotkeysState({
-      toggleOverlay: 'Alt+T',
-      captureScreen: 'Alt+C',
-    });
+    setStaleWhileRevalidateState(true);
+    setDataSourcesState(DEFAULT_SETTINGS.dataSources);
+    setMergeDataSourcesState(DEFAULT_SETTINGS.mergeDataSources);
+    setScoringWeightsState(SCORING_WEIGHTS);
+    setHotkeysState(DEFAULT_SETTINGS.hotkeys);
   };
   
   return (
@@ -148,6 +212,33 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
           />
         </div>
         
+        {/* Debug Capture */}
+        <div>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={debugCapture}
+              onChange={(e) => setDebugCaptureState(e.target.checked)}
+            />
+            <span>Keep captures for debugging</span>
+          </label>
+          {debugCapture && (
+            <div className="mt-2">
+              <label className="block mb-1 text-sm">Captures kept</label>
+              <input
+                type="number"
+                min="1"
+                value={debugCaptureFrames}
+                onChange={(e) => setDebugCaptureFramesState(Math.max(1, parseInt(e.target.value) || 1))}
+                className="w-full bg-gray-700 p-2 rounded"
+              />
+            </div>
+          )}
+          <p className="text-xs text-gray-400 mt-1">
+            The last captures are saved as PNG files in the temp directory; older ones are deleted.
+          </p>
+        </div>
+        
         {/* Data Refresh Interval */}
         <div>
           <label className="block mb-1">Data Refresh Interval (hours)</label>
@@ -159,26 +250,110 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
           />
         </div>
         
-        {/* Hotkeys */}
-        <div className="grid grid-cols-2 gap-2">
-          <div>
-            <label className="block mb-1">Toggle Overlay</label>
+        {/* Stale-While-Revalidate */}
+        <div>
+          <label className="flex items-center space-x-2">
             <input
-              type="text"
-              value={hotkeys.toggleOverlay}
-              onChange={(e) => setHotkeysState({ ...hotkeys, toggleOverlay: e.target.value })}
-              className="w-full bg-gray-700 p-2 rounded"
+              type="checkbox"
+              checked={staleWhileRevalidate}
+              onChange={(e) => setStaleWhileRevalidateState(e.target.checked)}
             />
+            <span>Use cached data while refreshing</span>
+          </label>
+          <p className="text-xs text-gray-400 mt-1">
+            Outdated data is shown at once and replaced in the background instead of waiting for the network.
+          </p>
+        </div>
+        
+        {/* Data Sources */}
+        <div>
+          <label className="block mb-1">Data Sources</label>
+          <div className="space-y-1">
+            {sourceOrder.map(id => {
+              const index = dataSources.indexOf(id);
+              return (
+                <div key={id} className="flex items-center justify-between bg-gray-700 p-2 rounded text-sm">
+                  <label className="flex items-center space-x-2">
+                    <input type="checkbox" checked={index !== -1} onChange={() => toggleDataSource(id)} />
+                    <span>{DATA_SOURCES[id].name}</span>
+                  </label>
+                  {index !== -1 && (
+                    <span className="space-x-1">
+                      <span className="text-xs text-gray-400">#{index + 1}</span>
+                      <button onClick={() => moveDataSource(id, -1)} className="px-1 hover:bg-gray-600 rounded">
+                        ↑
+                      </button>
+                      <button onClick={() => moveDataSource(id, 1)} className="px-1 hover:bg-gray-600 rounded">
+                        ↓
+                      </button>
+                    </span>
+                  )}
+                </div>
+              );
+            })}
           </div>
-          <div>
-            <label className="block mb-1">Capture Screen</label>
+          <label className="flex items-center space-x-2 mt-2">
             <input
-              type="text"
-              value={hotkeys.captureScreen}
-              onChange={(e) => setHotkeysState({ ...hotkeys, captureScreen: e.target.value })}
-              className="w-full bg-gray-700 p-2 rounded"
+              type="checkbox"
+              checked={mergeDataSources}
+              onChange={(e) => setMergeDataSourcesState(e.target.checked)}
             />
+            <span>Merge comps from all sources</span>
+          </label>
+          <p className="text-xs text-gray-400 mt-1">
+            Otherwise the first source in the list that answers is used.
+          </p>
+        </div>
+        
+        {/* Recommendation Weights */}
+        <div>
+          <label className="block mb-1">Recommendation Weights</label>
+          <div className="grid grid-cols-2 gap-2">
+            {SCORERS.map(scorer => (
+              <div key={scorer.factor}>
+                <label className="block mb-1 text-sm">{scorer.name}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={scoringWeights[scorer.factor]}
+                  onChange={(e) => setScoringWeightsState({
+                    ...scoringWeights,
+                    [scorer.factor]: parseFloat(e.target.value) || 0,
+                  })}
+                  className="w-full bg-gray-700 p-2 rounded"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+        
+        {/* Hotkeys */}
+        <div>
+          <label className="block mb-1">Hotkeys</label>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(HOTKEY_ACTIONS) as HotkeyAction[]).map(action => {
+              // Registration errors apply until the binding is edited
+              const registrationError = hotkeys[action] === settings.hotkeys[action] ? settings.hotkeyErrors[action] : undefined;
+              const error = hotkeyConflicts[action] ?? registrationError;
+              return (
+                <div key={action}>
+                  <label className="block mb-1 text-sm">{HOTKEY_ACTIONS[action]}</label>
+                  <input
+                    type="text"
+                    value={hotkeys[action]}
+                    placeholder="Unbound"
+                    onChange={(e) => setHotkeysState({ ...hotkeys, [action]: e.target.value })}
+                    className={`w-full bg-gray-700 p-2 rounded ${error ? 'border border-red-500' : ''}`}
+                  />
+                  {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+                </div>
+              );
+            })}
           </div>
+          <p className="text-xs text-gray-400 mt-1">
+            Electron accelerators such as Alt+T or CommandOrControl+Shift+C. Leave a field empty to unbind it.
+          </p>
         </div>
       </div>
       
@@ -198,7 +373,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
           </button>
           <button
             onClick={saveSettings}
-            className="px-4 py-2 bg-blue-600 rounded hover:bg-blue-700"
+            disabled={hasHotkeyConflicts}
+            className="px-4 py-2 bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
           >
             Save
           </button>
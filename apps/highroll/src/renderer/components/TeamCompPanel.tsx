@@ -3,22 +3,56 @@ import { useDispatch, useSelector } from 'react-redux';
 import { RootState } from '../store';
 import { setTeamComps, setLoading, setError } from '../store/recommendationsSlice';
 import { analyzeGameState } from '../services/analyzer';
-import { TeamComp, Unit } from '../../shared/types';
+import { sumBreakdown } from '../services/scoring';
+import { calculateTraits } from '../services/trait-engine';
+import type { GameEventType, TeamComp, TransitionStep, Unit } from '../../shared/types';
+
+// Events after which the recommendations may change
+const ANALYSIS_EVENTS: GameEventType[] = [
+  'round_started',
+  'phase_changed',
+  'unit_bought',
+  'unit_sold',
+  'item_combined',
+  'level_up',
+];
+
+// Badge color for each kind of transition step
+const STEP_COLORS: Record<TransitionStep['type'], string> = {
+  keep: 'bg-green-700',
+  sell: 'bg-red-700',
+  buy: 'bg-blue-700',
+  item: 'bg-yellow-700',
+  level: 'bg-purple-700',
+};
+
+// Score values can be fractional, e.g. shop odds
+const formatValue = (value: number) => (Number.isInteger(value) ? `${value}` : value.toFixed(2));
 
 const TeamCompPanel: React.FC = () => {
   const dispatch = useDispatch();
   const gameState = useSelector((state: RootState) => state.game.gameState);
   const { teamComps, loading, error } = useSelector((state: RootState) => state.recommendations);
   const [selectedComp, setSelectedComp] = useState<TeamComp | null>(null);
+  const lastAnalysisEvent = useSelector((state: RootState) =>
+    state.stage.events.filter(event => ANALYSIS_EVENTS.includes(event.type)).pop()?.id
+  );
+  const opponents = useSelector((state: RootState) => state.lobby.opponents);
+  const scoringWeights = useSelector((state: RootState) => state.settings.scoringWeights);
 
-  // Analyze game state when it changes
+  // Analyze game state when something relevant changes, a board is scouted or
+  // the weights are edited
   useEffect(() => {
     const analyzeCurrentGameState = async () => {
       if (!gameState) return;
 
       dispatch(setLoading(true));
       try {
-        const recommendations = await analyzeGameState(gameState);
+        const recommendations = await analyzeGameState(gameState, {
+          opponents,
+          weights: scoringWeights,
+          explain: true,
+        });
         dispatch(setTeamComps(recommendations.teamComps));
         
         // Select the first comp by default
@@ -33,7 +67,12 @@ const TeamCompPanel: React.FC = () => {
     };
 
     analyzeCurrentGameState();
-  }, [gameState, dispatch]);
+  }, [lastAnalysisEvent, opponents, scoringWeights, dispatch]);
+
+  // Traits of the planned board, falling back to the comp's listed traits
+  // when its units are not in the set data
+  const computedTraits = selectedComp ? calculateTraits(selectedComp.units).filter(trait => trait.active) : [];
+  const plannedTraits = computedTraits.length > 0 ? computedTraits : selectedComp?.traits || [];
 
   if (loading) {
     return (
@@ -92,6 +131,9 @@ const TeamCompPanel: React.FC = () => {
             <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-gray-800">
               {comp.tier}
             </span>
+            {comp.contestedUnits && comp.contestedUnits.length > 0 && (
+              <span className="ml-1 text-xs px-1.5 py-0.5 rounded bg-red-700">contested</span>
+            )}
           </button>
         ))}
       </div>
@@ -111,11 +153,23 @@ const TeamCompPanel: React.FC = () => {
             </div>
           </div>
 
+          {/* Contested core units */}
+          {selectedComp.contestedUnits && selectedComp.contestedUnits.length > 0 && (
+            <div className="mb-3 p-2 rounded bg-red-900 bg-opacity-50 text-sm">
+              <h4 className="text-sm font-semibold mb-1">Contested</h4>
+              {selectedComp.contestedUnits.map(unit => (
+                <div key={unit.name}>
+                  {unit.name}: {unit.copies} {unit.copies === 1 ? 'copy' : 'copies'} held by {unit.opponents.join(', ')}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Traits */}
           <div className="mb-3">
             <h4 className="text-sm font-semibold mb-1">Traits</h4>
             <div className="flex flex-wrap gap-1">
-              {selectedComp.traits.map((trait: any) => (
+              {plannedTraits.map((trait: any) => (
                 <span
                   key={trait.name}
                   className={`text-xs px-2 py-1 rounded bg-gray-700 trait-${trait.style.toLowerCase()}`}
@@ -152,6 +206,50 @@ const TeamCompPanel: React.FC = () => {
             </div>
           </div>
 
+          {/* Why this comp */}
+          {selectedComp.scoreBreakdown && (
+            <div className="mt-3">
+              <h4 className="text-sm font-semibold mb-1">Why This Comp</h4>
+              <div className="space-y-1">
+                {selectedComp.scoreBreakdown.map(factor => (
+                  <div key={factor.factor} className="flex justify-between text-sm p-1 rounded bg-gray-700">
+                    <span>{factor.name}</span>
+                    <span className={factor.score < 0 ? 'text-red-400' : 'text-gray-300'}>
+                      {formatValue(factor.value)} × {factor.weight} = {formatValue(factor.score)}
+                    </span>
+                  </div>
+                ))}
+                <div className="flex justify-between text-sm p-1 font-semibold">
+                  <span>Total</span>
+                  <span>{formatValue(sumBreakdown(selectedComp.scoreBreakdown))}</span>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Transition Path */}
+          {selectedComp.transition && (
+            <div className="mt-3">
+              <h4 className="text-sm font-semibold mb-1">
+                Transition Path
+                <span className="ml-2 text-xs text-gray-400">
+                  {selectedComp.transition.unitsMissing} missing · pivot at level {selectedComp.transition.pivotLevel}
+                </span>
+              </h4>
+              <ol className="space-y-1">
+                {selectedComp.transition.steps.map((step, idx) => (
+                  <li key={idx} className="flex items-center text-sm p-1 rounded bg-gray-700">
+                    <span className="w-5 text-xs text-gray-400">{idx + 1}.</span>
+                    <span className={`text-xs px-1.5 py-0.5 rounded mr-2 ${STEP_COLORS[step.type]}`}>
+                      {step.type}
+                    </span>
+                    <span>{step.description}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
           {/* Positioning (simplified) */}
           <div className="mt-3">
             <h4 className="text-sm font-semibold mb-1">Positioning</h4>
@@ -0,0 +1,120 @@
+import type { MatchRecord, TeamComp } from '../../shared/types';
+import { MATCH_HISTORY } from '../../shared/constants';
+
+// Placement statistics over a group of matches
+export interface PlacementStats {
+  key: string;
+  games: number;
+  averagePlacement: number;
+  top4Rate: number; // 0-1
+  winRate: number; // 0-1, share of 1st places
+}
+
+// A point on the placement trend, oldest match first
+export interface TrendPoint {
+  matchId: number;
+  startedAt: number;
+  placement: number;
+  rollingAverage: number; // Over the last MATCH_HISTORY.TREND_WINDOW matches
+}
+
+// Personal results with a comp next to its meta statistics
+export interface CompComparison extends PlacementStats {
+  metaPlacement: number;
+  metaWinRate: number;
+  placementDelta: number; // Personal minus meta; negative is better than the meta
+}
+
+export interface PerformanceSummary {
+  overall: PlacementStats;
+  byComp: PlacementStats[];
+  byAugment: PlacementStats[];
+  byOpener: PlacementStats[];
+  trend: TrendPoint[];
+}
+
+// Matches with a known placement, the only ones that count towards statistics
+type PlacedMatch = MatchRecord & { placement: number };
+
+const isPlaced = (match: MatchRecord): match is PlacedMatch => match.placement !== null;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Placement statistics for a group of matches
+export const calculatePlacementStats = (key: string, matches: PlacedMatch[]): PlacementStats => {
+  const games = matches.length;
+  if (games === 0) {
+    return { key, games, averagePlacement: 0, top4Rate: 0, winRate: 0 };
+  }
+
+  const total = matches.reduce((sum, match) => sum + match.placement, 0);
+  const top4 = matches.filter(match => match.placement <= MATCH_HISTORY.TOP_FOUR).length;
+  const wins = matches.filter(match => match.placement === 1).length;
+
+  return {
+    key,
+    games,
+    averagePlacement: round(total / games),
+    top4Rate: round(top4 / games),
+    winRate: round(wins / games),
+  };
+};
+
+// Group matches by one or more keys each and compute statistics per group,
+// most played first
+const groupStats = (matches: PlacedMatch[], getKeys: (match: PlacedMatch) => string[]): PlacementStats[] => {
+  const groups = new Map<string, PlacedMatch[]>();
+  matches.forEach(match => {
+    new Set(getKeys(match)).forEach(key => {
+      groups.set(key, [...(groups.get(key) || []), match]);
+    });
+  });
+
+  return [...groups]
+    .map(([key, group]) => calculatePlacementStats(key, group))
+    .sort((a, b) => b.games - a.games || a.averagePlacement - b.averagePlacement);
+};
+
+// Rolling average placement over time
+export const calculateTrend = (matches: MatchRecord[]): TrendPoint[] => {
+  const placed = matches.filter(isPlaced).sort((a, b) => a.startedAt - b.startedAt);
+
+  return placed.map((match, index) => {
+    const window = placed.slice(Math.max(0, index + 1 - MATCH_HISTORY.TREND_WINDOW), index + 1);
+    return {
+      matchId: match.id,
+      startedAt: match.startedAt,
+      placement: match.placement,
+      rollingAverage: round(window.reduce((sum, m) => sum + m.placement, 0) / window.length),
+    };
+  });
+};
+
+// Summarize the local match history
+export const summarizeMatches = (matches: MatchRecord[]): PerformanceSummary => {
+  const placed = matches.filter(isPlaced);
+
+  return {
+    overall: calculatePlacementStats('All', placed),
+    byComp: groupStats(placed, match => (match.compName ? [match.compName] : [])),
+    byAugment: groupStats(placed, match => match.augments),
+    byOpener: groupStats(placed, match => (match.opener ? [match.opener] : [])),
+    trend: calculateTrend(placed),
+  };
+};
+
+// Compare personal results per comp with the comp's meta statistics
+export const compareWithMeta = (byComp: PlacementStats[], teamComps: TeamComp[]): CompComparison[] =>
+  byComp.flatMap(stats => {
+    const comp = teamComps.find(teamComp => teamComp.name === stats.key || teamComp.id === stats.key);
+    if (!comp) return [];
+
+    return [
+      {
+        ...stats,
+        metaPlacement: comp.placement,
+        metaWinRate: comp.winRate,
+        placementDelta: round(stats.averagePlacement - comp.placement),
+      },
+    ];
+  });
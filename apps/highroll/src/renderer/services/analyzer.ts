@@ -1,27 +1,46 @@
 import { GameState, TeamComp, RecommendedItem, RecommendedAugment, Unit, Item, Augment } from '../../shared/types';
+import type { OpponentBoard, ScoringWeights } from '../../shared/types';
+import { SCORING_WEIGHTS } from '../../shared/constants';
 import { fetchTeamComps, fetchItems, fetchAugments } from './data-api';
+import { planTransition } from './transition-planner';
+import { getContestedUnits } from './lobby';
+import { explainScore, sumBreakdown } from './scoring';
+
+// How the analyzer scores comps
+export interface AnalysisOptions {
+  opponents?: OpponentBoard[]; // Scouted boards, to steer away from contested comps
+  weights?: ScoringWeights;
+  explain?: boolean; // Attach the per-factor score breakdown to each comp
+  teamComps?: TeamComp[]; // Comps to rank instead of fetching the meta data, e.g. for offline evaluation
+  limit?: number; // Comps to return, 3 by default
+}
 
 // Analyze the current game state and recommend team compositions
-export const analyzeGameState = async (gameState: GameState): Promise<{
+export const analyzeGameState = async (gameState: GameState, options: AnalysisOptions = {}): Promise<{
   teamComps: TeamComp[];
   items: RecommendedItem[];
   augments: RecommendedAugment[];
 }> => {
   try {
-    // Fetch team compositions data
-    const teamCompsResponse = await fetchTeamComps();
-    
-    if (!teamCompsResponse.success || !teamCompsResponse.data) {
-      throw new Error('Failed to fetch team compositions data');
+    // Fetch team compositions data, unless given
+    let teamComps = options.teamComps;
+    if (!teamComps) {
+      const teamCompsResponse = await fetchTeamComps();
+      
+      if (!teamCompsResponse.success || !teamCompsResponse.data) {
+        throw new Error('Failed to fetch team compositions data');
+      }
+      
+      teamComps = teamCompsResponse.data;
     }
     
-    const teamComps = teamCompsResponse.data;
-    
     // Calculate similarity scores for each team composition
-    const scoredComps = calculateSimilarityScores(gameState, teamComps);
+    const scoredComps = calculateSimilarityScores(gameState, teamComps, options);
     
-    // Get top recommended team compositions
-    const recommendedComps = scoredComps.slice(0, 3);
+    // Get top recommended team compositions, with the path to reach each
+    const recommendedComps = scoredComps
+      .slice(0, options.limit ?? 3)
+      .map(comp => ({ ...comp, transition: planTransition(gameState, comp) }));
     
     // Get recommended items based on current units and recommended comps
     const recommendedItems = recommendItems(gameState, recommendedComps);
@@ -45,33 +64,21 @@ export const analyzeGameState = async (gameState: GameState): Promise<{
 };
 
 // Calculate similarity scores between current game state and potential team compositions
-const calculateSimilarityScores = (gameState: GameState, teamComps: TeamComp[]): TeamComp[] => {
-  // This function calculates how similar the current board is to each potential team comp
-  // Factors to consider:
-  // 1. Units already on board
-  // 2. Traits already activated
-  // 3. Items already built
-  // 4. Player level and gold (for feasibility)
+const calculateSimilarityScores = (gameState: GameState, teamComps: TeamComp[], options: AnalysisOptions): TeamComp[] => {
+  // This function calculates how similar the current board is to each potential team comp,
+  // as the weighted sum of the factors in SCORERS
+  const opponents = options.opponents || [];
+  const weights = options.weights || SCORING_WEIGHTS;
   
   const scoredComps = teamComps.map(comp => {
-    let score = 0;
-    
-    // Score based on units already on board
-    score += calculateUnitScore(gameState.units, comp.units);
-    
-    // Score based on traits already activated
-    score += calculateTraitScore(gameState.traits, comp.traits);
-    
-    // Score based on items already built
-    score += calculateItemScore(gameState.units, comp.units);
-    
-    // Score based on feasibility (player level, gold)
-    score += calculateFeasibilityScore(gameState, comp);
+    const breakdown = explainScore({ gameState, opponents }, comp, weights);
     
     // Return the comp with its score
     return {
       ...comp,
-      similarityScore: score,
+      similarityScore: sumBreakdown(breakdown),
+      contestedUnits: getContestedUnits(comp, opponents),
+      ...(options.explain ? { scoreBreakdown: breakdown } : {}),
     };
   });
   
@@ -80,75 +87,6 @@ const calculateSimilarityScores = (gameState: GameState, teamComps: TeamComp[]):
     .sort((a, b) => (b.similarityScore || 0) - (a.similarityScore || 0));
 };
 
-// Calculate score based on units already on board
-const calculateUnitScore = (currentUnits: Unit[], compUnits: any[]): number => {
-  let score = 0;
-  
-  // For each unit in the comp, check if it's already on the board
-  compUnits.forEach(compUnit => {
-    const matchingUnit = currentUnits.find(unit => unit.name === compUnit.name);
-    if (matchingUnit) {
-      // Base score for having the unit
-      score += 10;
-      
-      // Bonus for star level
-      score += (matchingUnit.tier - 1) * 5;
-    }
-  });
-  
-  return score;
-};
-
-// Calculate score based on traits already activated
-const calculateTraitScore = (currentTraits: any[], compTraits: any[]): number => {
-  let score = 0;
-  
-  // For each trait in the comp, check if it's already activated
-  compTraits.forEach(compTrait => {
-    const matchingTrait = currentTraits.find(trait => trait.name === compTrait.name);
-    if (matchingTrait && matchingTrait.active) {
-      // Score based on trait level
-      score += 5 * matchingTrait.count;
-    }
-  });
-  
-  return score;
-};
-
-// Calculate score based on items already built
-const calculateItemScore = (currentUnits: Unit[], compUnits: any[]): number => {
-  let score = 0;
-  
-  // For each unit in the comp, check if it already has recommended items
-  compUnits.forEach(compUnit => {
-    const matchingUnit = currentUnits.find(unit => unit.name === compUnit.name);
-    if (matchingUnit) {
-      // Check if the unit has any of the recommended items
-      matchingUnit.items.forEach(item => {
-        const isRecommended = compUnit.items?.some((recItem: any) => recItem.name === item.name);
-        if (isRecommended) {
-          score += 5;
-        }
-      });
-    }
-  });
-  
-  return score;
-};
-
-// Calculate score based on feasibility (player level, gold)
-const calculateFeasibilityScore = (gameState: GameState, comp: TeamComp): number => {
-  let score = 0;
-  
-  // Higher level means more units can be fielded
-  score += gameState.playerLevel * 2;
-  
-  // More gold means more rolling potential
-  score += Math.min(gameState.gold, 50) / 5;
-  
-  return score;
-};
-
 // Recommend items based on current units and recommended comps
 const recommendItems = (gameState: GameState, recommendedComps: TeamComp[]): RecommendedItem[] => {
   const recommendedItems: RecommendedItem[] = [];
@@ -222,3 +160,60 @@ const recommendAugments = (gameState: GameState, recommendedComps: TeamComp[]):
   
   return recommendedAugments;
 };
+
+// Score how well an augment fits the current board: 2 per active trait it
+// synergizes with and 1 per fielded unit it names, capped at 5
+export const calculateAugmentSynergy = (gameState: GameState, augment: { synergies?: string[] }): number => {
+  if (!augment.synergies || augment.synergies.length === 0) {
+    return 0;
+  }
+
+  let synergyScore = 0;
+
+  augment.synergies.forEach(synergy => {
+    const matchingTrait = gameState.traits.find(trait => trait.name === synergy);
+    if (matchingTrait && matchingTrait.active) {
+      synergyScore += 2;
+    }
+  });
+
+  gameState.units.forEach(unit => {
+    if (augment.synergies?.includes(unit.name)) {
+      synergyScore += 1;
+    }
+  });
+
+  return Math.min(5, synergyScore);
+};
+
+// An augment offered on screen, scored for the current game
+export interface RankedAugment extends RecommendedAugment {
+  synergy: number;
+  score: number;
+}
+
+// Rank the augments offered during augment selection, combining how often the
+// recommended comps take them with their synergy with the current board
+export const rankOfferedAugments = (
+  gameState: GameState,
+  recommendedAugments: RecommendedAugment[]
+): RankedAugment[] => {
+  return (gameState.offeredAugments || [])
+    .map(augment => {
+      const recommended = recommendedAugments.find(a => a.id === augment.id || a.name === augment.name);
+      const priority = recommended?.priority || 0;
+      const synergy = calculateAugmentSynergy(gameState, augment);
+
+      return {
+        id: augment.id,
+        name: augment.name,
+        tier: augment.tier,
+        description: augment.description,
+        synergies: augment.synergies,
+        priority,
+        synergy,
+        score: priority * 2 + synergy,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
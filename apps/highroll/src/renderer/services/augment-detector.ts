@@ -0,0 +1,71 @@
+import type { Augment } from '../../shared/types';
+import { AUGMENT_DETECTION, CAPTURE_REGIONS, ICON_ATLASES } from '../../shared/constants';
+import { toPixelRect, type ImageFrame, type PixelRect, type RelativeRegion } from './image-processing';
+import { loadIconAtlas, matchIcon, type IconAtlas, type IconMatch } from './icon-atlas';
+import { findBestMatch } from './fuzzy-match';
+import { parseStage } from './stage-tracker';
+
+// Whether the round opens with an augment choice. An unreadable stage is not
+// an augment round, so failed stage reads don't trigger title OCR.
+export const isAugmentRound = (stage: string): boolean => {
+  const round = parseStage(stage);
+  return round !== null && AUGMENT_DETECTION.ROUNDS.includes(`${round.stage}-${round.round}`);
+};
+
+// Title regions of the augment cards, left to right
+export const getAugmentTitleRegions = (): RelativeRegion[] => {
+  const band = CAPTURE_REGIONS.AUGMENTS;
+  const cardWidth = band.width / AUGMENT_DETECTION.CARD_COUNT;
+
+  return Array.from({ length: AUGMENT_DETECTION.CARD_COUNT }, (_, index) => ({
+    x: band.x + index * cardWidth,
+    y: band.y,
+    width: cardWidth,
+    height: band.height,
+  }));
+};
+
+// Match OCR'd card titles against the known augments. Titles that match
+// nothing (no cards on screen, or unreadable text) are dropped.
+export const matchAugmentTitles = (titles: string[], augments: Augment[]): Augment[] =>
+  titles
+    .map(title => findBestMatch(title, augments, augment => augment.name, AUGMENT_DETECTION.MIN_TITLE_SIMILARITY))
+    .filter((result): result is { match: Augment; score: number } => result !== null)
+    .map(result => result.match);
+
+// Augments named after the OCR'd card titles, for when no augment list is
+// available to match them against. Titles with too few letters to be a name
+// are dropped; the tier and description stay unknown.
+export const augmentsFromTitles = (titles: string[]): Augment[] =>
+  titles
+    .map(title => title.replace(/[^A-Za-z0-9' ]/g, ' ').replace(/\s+/g, ' ').trim())
+    .filter(title => title.replace(/[^A-Za-z]/g, '').length >= AUGMENT_DETECTION.MIN_TITLE_LETTERS)
+    .map(title => ({ id: title.toLowerCase().replace(/[^a-z0-9]/g, '_'), name: title, description: '', tier: '' }));
+
+// Load the icons of the given augments, to recognize the ones taken
+export const loadAugmentAtlas = (augments: Augment[]): Promise<IconAtlas> =>
+  loadIconAtlas(ICON_ATLASES.AUGMENTS, augments.map(augment => augment.id));
+
+// Icon rectangles of the augments taken, left to right
+export const getChosenAugmentSlots = (frame: { width: number; height: number }): PixelRect[] => {
+  const row = toPixelRect(frame, CAPTURE_REGIONS.CHOSEN_AUGMENTS);
+  const slotWidth = row.width / AUGMENT_DETECTION.MAX_CHOSEN;
+  const size = Math.max(1, Math.round(AUGMENT_DETECTION.ICON_SIZE * frame.height));
+
+  return Array.from({ length: AUGMENT_DETECTION.MAX_CHOSEN }, (_, index) => ({
+    left: Math.round(row.left + (index + 0.5) * slotWidth - size / 2),
+    top: Math.round(row.top + row.height / 2 - size / 2),
+    width: size,
+    height: size,
+  }));
+};
+
+// Ids of the augments taken so far, skipping empty slots
+export const detectChosenAugments = (frame: ImageFrame, atlas: IconAtlas): string[] => {
+  if (atlas.size === 0) return [];
+
+  return getChosenAugmentSlots(frame)
+    .map(rect => matchIcon(frame, rect, atlas, AUGMENT_DETECTION.ICON_MATCH_THRESHOLD))
+    .filter((match): match is IconMatch => match !== null)
+    .map(match => match.id);
+};
@@ -0,0 +1,180 @@
+import type { FrameGameState, GamePhase, VisionMetrics, VisionTimings } from '../../shared/types';
+import { CAPTURE_REGIONS, VISION_PIPELINE, type CaptureRegionName } from '../../shared/constants';
+import {
+  changedPixelRatio,
+  cropRegion,
+  meanAbsoluteDifference,
+  resize,
+  toGrayscale,
+  type ImageFrame,
+} from './image-processing';
+import type { FrameAnalysis } from './game-state';
+
+export interface CaptureSchedulerOptions {
+  capture: () => Promise<ImageFrame | null>; // null when capturing failed
+  analyze: (frame: ImageFrame) => Promise<FrameAnalysis>;
+  onGameState: (gameState: FrameGameState) => void;
+  getPhase: () => GamePhase | null;
+  getCaptureInterval: () => number; // settings.captureInterval
+  onMetrics?: (metrics: VisionMetrics) => void; // Called after every capture
+}
+
+export interface CaptureScheduler {
+  start: () => void;
+  stop: () => void;
+  captureNow: () => Promise<void>; // A manual capture, analyzed even if the frame is unchanged
+  getMetrics: () => VisionMetrics;
+}
+
+const TIMING_STEPS: Array<keyof VisionTimings> = ['capture', 'diff', 'ocr', 'templateMatching', 'total'];
+
+// Wait between captures: shorter while there are decisions to make (planning,
+// augment selection), the full capture interval during combat. Never longer
+// than the capture interval.
+export const getCaptureDelay = (phase: GamePhase | null, captureInterval: number): number => {
+  const factor = phase ? VISION_PIPELINE.PHASE_INTERVAL_FACTORS[phase] : 1;
+  return Math.min(captureInterval, Math.max(VISION_PIPELINE.MIN_CAPTURE_INTERVAL, Math.round(captureInterval * factor)));
+};
+
+// What is kept of a frame to compare it with the next capture: a small
+// grayscale copy of the whole frame, and the HUD regions at full resolution
+export interface FrameSample {
+  frame: ImageFrame;
+  hud: Partial<Record<CaptureRegionName, ImageFrame>>;
+}
+
+export const sampleFrame = (frame: ImageFrame): FrameSample => {
+  const hud: FrameSample['hud'] = {};
+  VISION_PIPELINE.HUD_DIFF_REGIONS.forEach(region => {
+    hud[region] = toGrayscale(cropRegion(frame, CAPTURE_REGIONS[region]));
+  });
+
+  return {
+    frame: toGrayscale(resize(frame, VISION_PIPELINE.DIFF_SAMPLE_WIDTH, VISION_PIPELINE.DIFF_SAMPLE_HEIGHT)),
+    hud,
+  };
+};
+
+// Whether a frame differs from the last analyzed one: anywhere on screen, or
+// in one of the HUD regions even if the rest is unchanged. Captures of another
+// size always count as changed.
+export const hasFrameChanged = (previous: FrameSample, next: FrameSample): boolean => {
+  if (meanAbsoluteDifference(previous.frame, next.frame) >= VISION_PIPELINE.DIFF_THRESHOLD) {
+    return true;
+  }
+
+  return VISION_PIPELINE.HUD_DIFF_REGIONS.some(region => {
+    const before = previous.hud[region]!;
+    const after = next.hud[region]!;
+    if (before.width !== after.width || before.height !== after.height) return true;
+    return changedPixelRatio(before, after, VISION_PIPELINE.HUD_DIFF_PIXEL_DELTA) >= VISION_PIPELINE.HUD_DIFF_THRESHOLD;
+  });
+};
+
+const averageTimings = (timings: VisionTimings[]): VisionTimings | null => {
+  if (timings.length === 0) return null;
+
+  const average = {} as VisionTimings;
+  TIMING_STEPS.forEach(step => {
+    average[step] = timings.reduce((sum, frame) => sum + frame[step], 0) / timings.length;
+  });
+  return average;
+};
+
+// Capture the game repeatedly, analyzing only frames that changed since the
+// last analyzed one. The next capture is scheduled once the previous one has
+// been analyzed, and manual captures wait for the one in flight, so analyses
+// never overlap.
+export const createCaptureScheduler = (options: CaptureSchedulerOptions): CaptureScheduler => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let inFlight: Promise<void> = Promise.resolve();
+  let previousSample: FrameSample | null = null;
+  let framesAnalyzed = 0;
+  let framesSkipped = 0;
+  let captureDelay = 0;
+  let warnings: string[] = [];
+  const recentTimings: VisionTimings[] = [];
+
+  const getMetrics = (): VisionMetrics => ({
+    framesAnalyzed,
+    framesSkipped,
+    captureDelay,
+    last: recentTimings[recentTimings.length - 1] ?? null,
+    average: averageTimings(recentTimings),
+    warnings,
+  });
+
+  const captureOnce = async (force: boolean) => {
+    const start = performance.now();
+    const frame = await options.capture();
+    const captured = performance.now();
+    if (!frame) return;
+
+    const sample = sampleFrame(frame);
+    const changed = force || !previousSample || hasFrameChanged(previousSample, sample);
+    const diffed = performance.now();
+    if (!changed) {
+      framesSkipped++;
+      return;
+    }
+
+    previousSample = sample;
+    const analysis = await options.analyze(frame);
+    framesAnalyzed++;
+    warnings = analysis.warnings;
+
+    recentTimings.push({
+      capture: captured - start,
+      diff: diffed - captured,
+      ...analysis.timings,
+      total: performance.now() - start,
+    });
+    if (recentTimings.length > VISION_PIPELINE.TIMING_WINDOW) {
+      recentTimings.shift();
+    }
+
+    options.onGameState(analysis.gameState);
+  };
+
+  // Run a capture once the one in flight has finished, reporting the metrics
+  // after it whether or not it failed
+  const queueCapture = (force: boolean): Promise<void> => {
+    const capture = inFlight.then(() => captureOnce(force));
+    const reportMetrics = () => options.onMetrics?.(getMetrics());
+    inFlight = capture.then(reportMetrics, reportMetrics);
+    return capture;
+  };
+
+  const scheduleNext = () => {
+    captureDelay = getCaptureDelay(options.getPhase(), options.getCaptureInterval());
+    timer = setTimeout(async () => {
+      try {
+        await queueCapture(false);
+      } catch (error) {
+        console.error('Error analyzing capture:', error);
+      }
+
+      if (running) {
+        scheduleNext();
+      }
+    }, captureDelay);
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      scheduleNext();
+    },
+    stop: () => {
+      running = false;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+    captureNow: () => queueCapture(true),
+    getMetrics,
+  };
+};
@@ -0,0 +1,122 @@
+import type { GameState, Item, RecommendedItem, TeamComp, Unit } from '../../shared/types';
+import { ANALYSIS, CAROUSEL_ADVISOR, ITEM_TYPES } from '../../shared/constants';
+import { getItem, getItemFromComponents } from '../../shared/set-data';
+import { countOwnedCopies } from './roll-calculator';
+
+// A completed item that a carousel component builds with a component the
+// player already holds
+export interface UnlockedItem {
+  id: string;
+  name: string;
+  component: string; // Name of the held component
+  wantedBy?: string; // Champion and comp recommending the item
+}
+
+// A carousel champion ranked for the current game
+export interface CarouselPick {
+  unit: Unit;
+  item: Item | null;
+  score: number;
+  unlocks: UnlockedItem[];
+  reasons: string[];
+}
+
+// Which of the recommended comps, best first, wants an item and on whom
+const findItemDemand = (itemId: string, comps: TeamComp[]): { value: number; wantedBy: string } | null => {
+  const wants = (recommended: RecommendedItem) =>
+    recommended.id === itemId || getItem(recommended.name)?.id === itemId;
+
+  for (let index = 0; index < comps.length; index++) {
+    const comp = comps[index]!;
+    const holder = comp.units.find(unit => unit.items?.some(wants));
+    if (holder || comp.items?.some(wants)) {
+      return {
+        value: CAROUSEL_ADVISOR.COMP_WEIGHTS[index] ?? 0,
+        wantedBy: holder ? `${holder.name} (${comp.name})` : comp.name,
+      };
+    }
+  }
+
+  return null;
+};
+
+// Value of the champion itself: a unit of a recommended comp, more so in its
+// core, or more copies of a champion the player holds
+const scoreChampion = (unit: Unit, gameState: GameState, comps: TeamComp[], reasons: string[]): number => {
+  let score = 0;
+
+  const index = comps.findIndex(comp => comp.units.some(compUnit => compUnit.name === unit.name));
+  if (index !== -1) {
+    const comp = comps[index]!;
+    const core = comp.units.find(compUnit => compUnit.name === unit.name)!.priority <= ANALYSIS.CORE_PRIORITY;
+    score += (CAROUSEL_ADVISOR.COMP_WEIGHTS[index] ?? 0) * (core ? 1 : CAROUSEL_ADVISOR.NON_CORE_UNIT);
+    reasons.push(`${unit.name} is a ${core ? 'core' : 'support'} unit of ${comp.name}`);
+  }
+
+  const owned = countOwnedCopies(gameState, unit.name);
+  if (owned > 0) {
+    score += CAROUSEL_ADVISOR.OWNED_COPY_BONUS;
+    reasons.push(`You hold ${owned} ${owned === 1 ? 'copy' : 'copies'} of ${unit.name}`);
+  }
+
+  return score;
+};
+
+// Completed items a component builds with the components on the item bench
+export const getUnlockedItems = (component: Item, gameState: GameState, comps: TeamComp[]): UnlockedItem[] => {
+  const held = gameState.items.filter(item => item.type === ITEM_TYPES.BASIC);
+  const unlocks: UnlockedItem[] = [];
+
+  held
+    .filter((item, index) => held.findIndex(other => other.id === item.id) === index)
+    .forEach(item => {
+      const completed = getItemFromComponents(component.id, item.id);
+      if (!completed) return;
+
+      unlocks.push({
+        id: completed.id,
+        name: completed.name,
+        component: item.name,
+        wantedBy: findItemDemand(completed.id, comps)?.wantedBy,
+      });
+    });
+
+  return unlocks;
+};
+
+// Value of the item the champion holds: components by the best recommended
+// item they complete, completed items by whether a comp wants them
+const scoreItem = (item: Item, unlocks: UnlockedItem[], comps: TeamComp[], reasons: string[]): number => {
+  if (item.type !== ITEM_TYPES.BASIC) {
+    const demand = findItemDemand(item.id, comps);
+    if (!demand) return 0;
+
+    reasons.push(`${item.name} is built for ${demand.wantedBy}`);
+    return demand.value;
+  }
+
+  let best = 0;
+  unlocks.forEach(unlock => {
+    if (!unlock.wantedBy) return;
+    best = Math.max(best, findItemDemand(unlock.id, comps)!.value);
+    reasons.push(`${item.name} completes ${unlock.name} with your ${unlock.component}, for ${unlock.wantedBy}`);
+  });
+
+  if (best > 0) return best;
+  reasons.push(`${item.name} completes nothing recommended yet and stays flexible`);
+  return CAROUSEL_ADVISOR.SPARE_COMPONENT;
+};
+
+// Rank the champions on the carousel by what their item and the champion
+// itself add for the recommended comps, best first
+export const rankCarouselPicks = (gameState: GameState, comps: TeamComp[]): CarouselPick[] =>
+  (gameState.carouselUnits || [])
+    .map(unit => {
+      const item = unit.items[0] || null;
+      const unlocks = item && item.type === ITEM_TYPES.BASIC ? getUnlockedItems(item, gameState, comps) : [];
+      const reasons: string[] = [];
+      const score = (item ? scoreItem(item, unlocks, comps, reasons) : 0) + scoreChampion(unit, gameState, comps, reasons);
+
+      return { unit, item, score, unlocks, reasons };
+    })
+    .sort((a, b) => b.score - a.score);
@@ -0,0 +1,65 @@
+import type { Unit } from '../../shared/types';
+import { CAPTURE_REGIONS, CAROUSEL_DETECTION, UNIT_DETECTION } from '../../shared/constants';
+import { getChampion } from '../../shared/set-data';
+import { toPixelRect, type ImageFrame } from './image-processing';
+import { matchIcon, type IconAtlas, type IconMatch } from './icon-atlas';
+import { detectUnitItems } from './item-detector';
+import { getPortraitRect, type CellLocation } from './unit-detector';
+
+// Angle between two neighboring carousel slots
+const SLOT_ANGLE = (2 * Math.PI) / CAROUSEL_DETECTION.SLOTS;
+
+// Portrait centers around the carousel ring, with the first slot at the given
+// angle (radians, clockwise from the bottom of the ring)
+export const getCarouselSlots = (frame: { width: number; height: number }, rotation = 0): CellLocation[] => {
+  const ring = toPixelRect(frame, CAPTURE_REGIONS.CAROUSEL);
+  const centerX = ring.left + ring.width / 2;
+  const centerY = ring.top + ring.height / 2;
+
+  return Array.from({ length: CAROUSEL_DETECTION.SLOTS }, (_, col) => {
+    const angle = rotation + col * SLOT_ANGLE;
+    return {
+      row: 0,
+      col,
+      x: Math.round(centerX - Math.sin(angle) * (ring.width / 2)),
+      y: Math.round(centerY + Math.cos(angle) * (ring.height / 2)),
+    };
+  });
+};
+
+// Detect the champions on the carousel and the item each one holds. The ring
+// turns between captures, so it is matched at several angles and the angle
+// with the most confident matches wins.
+export const detectCarouselInFrame = (frame: ImageFrame, atlas: IconAtlas, itemAtlas?: IconAtlas): Unit[] => {
+  if (atlas.size === 0) return [];
+
+  let best: { slots: CellLocation[]; matches: (IconMatch | null)[]; total: number } | null = null;
+  for (let step = 0; step < CAROUSEL_DETECTION.ROTATION_STEPS; step++) {
+    const slots = getCarouselSlots(frame, (step * SLOT_ANGLE) / CAROUSEL_DETECTION.ROTATION_STEPS);
+    const matches = slots.map(slot =>
+      matchIcon(frame, getPortraitRect(frame, slot), atlas, UNIT_DETECTION.MATCH_THRESHOLD)
+    );
+    const total = matches.reduce((sum, match) => sum + (match?.score || 0), 0);
+    if (!best || total > best.total) {
+      best = { slots, matches, total };
+    }
+  }
+
+  const units: Unit[] = [];
+  best!.slots.forEach((slot, index) => {
+    const match = best!.matches[index];
+    const champion = match && getChampion(match.id);
+    if (!champion) return;
+
+    units.push({
+      id: champion.id,
+      name: champion.name,
+      cost: champion.cost,
+      tier: 1,
+      items: itemAtlas ? detectUnitItems(frame, getPortraitRect(frame, slot), itemAtlas).slice(0, 1) : [],
+      traits: [...champion.traits],
+    });
+  });
+
+  return units;
+};
@@ -0,0 +1,157 @@
+import type { Item, ItemPerformance, RecommendedAugment, RecommendedItem, RecommendedTrait, RecommendedUnit, TeamComp } from '../../shared/types';
+import { getAugment, getChampion, getItem, getTrait } from '../../shared/set-data';
+import { calculateTraits } from './trait-engine';
+
+// Whether a response value is a JSON object
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The list a response carries, either as the response itself or under `key`
+// (e.g. { comps: [...] }). Fails when there is none.
+export const readList = (data: unknown, key: string): unknown[] => {
+  if (Array.isArray(data)) return data;
+
+  const list = isRecord(data) ? data[key] : undefined;
+  if (!Array.isArray(list)) {
+    throw new Error(`Response has no ${key}`);
+  }
+  return list;
+};
+
+// Numeric difficulty (1-5) of the labels some sources use
+const DIFFICULTY_LABELS: Record<string, number> = { easy: 2, medium: 3, hard: 4 };
+
+// Id for entries the set data does not know
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '_');
+
+// Rates come as fractions from some sources and percentages from others
+const toFraction = (rate: unknown): number => {
+  const value = Number(rate) || 0;
+  return value > 1 ? value / 100 : value;
+};
+
+const toDifficulty = (difficulty: unknown): number => {
+  if (typeof difficulty === 'string') {
+    return DIFFICULTY_LABELS[difficulty.toLowerCase()] ?? (parseInt(difficulty, 10) || 3);
+  }
+  return typeof difficulty === 'number' ? Math.min(5, Math.max(1, Math.round(difficulty))) : 3;
+};
+
+const normalizeItems = (items: any[] | undefined): RecommendedItem[] =>
+  (items || [])
+    .filter(item => item && (item.name || item.id))
+    .map((item, index) => {
+      const known = (item.id && getItem(item.id)) || getItem(item.name);
+      return {
+        id: known?.id || item.id || slugify(item.name),
+        name: known?.name || item.name,
+        priority: item.priority || index + 1,
+      };
+    });
+
+// Sources without unit priorities rank item holders as carries, then 3★
+// targets, then the rest
+const inferPriority = (unit: any): number => {
+  if (unit.priority) return unit.priority;
+  if (unit.items?.length > 0) return 1;
+  return (unit.starLevel || unit.stars || 1) >= 3 ? 2 : 3;
+};
+
+const normalizeUnit = (unit: any): RecommendedUnit => {
+  const name = unit.name || unit.id || '';
+  const champion = getChampion(unit.id || name) || getChampion(name);
+  return {
+    id: champion?.id || unit.id || slugify(name),
+    name: champion?.name || name,
+    priority: inferPriority(unit),
+    items: normalizeItems(unit.items),
+    ...(unit.position ? { position: unit.position } : {}),
+  };
+};
+
+// Traits of the comp's units from the set data; the source's own trait list
+// is only used when its units are unknown
+const normalizeTraits = (units: RecommendedUnit[], traits: any[] | undefined): RecommendedTrait[] => {
+  const calculated = calculateTraits(units).filter(trait => trait.active);
+  if (calculated.length > 0) {
+    return calculated.map(({ id, name, count, style }) => ({ id, name, count, style }));
+  }
+
+  return (traits || []).map(trait => {
+    // Some sources give the breakpoint reached instead of the unit count
+    const breakpoint = trait.activeLevel ? getTrait(trait.name)?.breakpoints[trait.activeLevel - 1] : undefined;
+    return {
+      id: trait.id || getTrait(trait.name)?.id || trait.name,
+      name: trait.name,
+      count: trait.count ?? breakpoint?.minUnits ?? 0,
+      style: trait.style || breakpoint?.style || 'bronze',
+    };
+  });
+};
+
+const normalizeAugments = (augments: any[] | undefined): RecommendedAugment[] =>
+  (augments || [])
+    .filter(augment => augment && (augment.name || augment.id))
+    .map((augment, index) => {
+      const known = (augment.id && getAugment(augment.id)) || getAugment(augment.name);
+      return {
+        id: known?.id || augment.id || slugify(augment.name),
+        name: known?.name || augment.name,
+        tier: augment.tier || known?.tier || 'silver',
+        priority: augment.priority || index + 1,
+        ...(known?.description ? { description: known.description } : {}),
+        ...(known?.synergies ? { synergies: known.synergies } : {}),
+      };
+    });
+
+// Convert a comp from any data source to the canonical TeamComp, resolving
+// champions, items and augments through the set data
+export const normalizeTeamComp = (comp: any): TeamComp => {
+  const units = (comp.units || []).map(normalizeUnit);
+  const stats = comp.stats || {};
+
+  return {
+    id: String(comp.id || slugify(comp.name || 'comp')),
+    name: comp.name || 'Unnamed comp',
+    tier: comp.tier || 'B',
+    units,
+    traits: normalizeTraits(units, comp.traits),
+    augments: normalizeAugments(comp.augments),
+    items: normalizeItems(comp.items),
+    placement: Number(comp.placement ?? comp.avgPlacement ?? stats.averagePlacement) || 4.5,
+    winRate: toFraction(comp.winRate ?? stats.winPercentage),
+    playRate: toFraction(comp.playRate ?? stats.playRate),
+    difficulty: toDifficulty(comp.difficulty ?? comp.playstyle?.difficulty),
+  };
+};
+
+// Per-champion placements of an item, resolving the champions through the set
+// data. Sources name the list performance or champions.
+const normalizePerformance = (entries: any[] | undefined): ItemPerformance[] =>
+  (entries || [])
+    .filter(entry => entry && (entry.champion || entry.name || entry.id))
+    .map(entry => {
+      const name = entry.champion || entry.name || entry.id;
+      return {
+        champion: getChampion(name)?.id || name,
+        avgPlacement: Number(entry.avgPlacement ?? entry.placement) || 4.5,
+        games: Number(entry.games ?? entry.count) || 0,
+      };
+    });
+
+// Convert an item from any data source to the canonical Item, taking the
+// type and recipe from the set data when the source leaves them out
+export const normalizeItem = (item: any): Item => {
+  const known = (item.id && getItem(item.id)) || getItem(item.name);
+  const components: string[] | undefined = item.components
+    ? item.components.map((component: string) => getItem(component)?.id || component)
+    : known?.components;
+  return {
+    id: known?.id || item.id || slugify(item.name),
+    name: known?.name || item.name,
+    type: item.type || known?.type || (components ? 'combined' : 'basic'),
+    ...(components ? { components } : {}),
+    ...(item.stats ? { stats: item.stats } : {}),
+    performance: normalizePerformance(item.performance || item.champions),
+  };
+};
@@ -1,318 +1,188 @@
-import { API_ENDPOINTS, STORAGE_KEYS } from '../../shared/constants';
-import { TeamComp, ApiResponse, Item, Augment, Unit } from '../../shared/types';
-import Database from 'better-sqlite3';
-import * as path from 'path';
-import * as fs from 'fs';
-import * as os from 'os';
-
-// Initialize database
-const dbPath = path.join(os.homedir(), '.tft-overlay', 'data.db');
-let db: Database.Database | null = null;
-
-// Ensure the directory exists
-if (!fs.existsSync(path.dirname(dbPath))) {
-  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
-}
-
-// Initialize the database
-const initDatabase = () => {
-  if (!db) {
-    db = new Database(dbPath);
-
-    // Create tables if they don't exist
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS team_comps (
-        id TEXT PRIMARY KEY,
-        name TEXT,
-        tier TEXT,
-        data TEXT,
-        updated_at INTEGER
-      );
-
-      CREATE TABLE IF NOT EXISTS items (
-        id TEXT PRIMARY KEY,
-        name TEXT,
-        type TEXT,
-        data TEXT,
-        updated_at INTEGER
-      );
-
-      CREATE TABLE IF NOT EXISTS augments (
-        id TEXT PRIMARY KEY,
-        name TEXT,
-        tier TEXT,
-        data TEXT,
-        updated_at INTEGER
-      );
-
-      CREATE TABLE IF NOT EXISTS meta_data (
-        key TEXT PRIMARY KEY,
-        value TEXT,
-        updated_at INTEGER
-      );
-    `);
-  }
+import { DEFAULT_SETTINGS } from '../../shared/constants';
+import { TeamComp, ApiResponse, Item, Augment } from '../../shared/types';
+import type { DataSourceId } from '../../shared/types';
+import { getAugments, getItems } from '../../shared/set-data';
+import { loadDataset } from './data-freshness';
+import type { DatasetFreshness, DatasetSource, FreshnessStore, RefreshPolicy } from './data-freshness';
+import { getScraperStatus } from './tft-scraper-api';
+import { fetchAugmentsFromSources, fetchItemsFromSources, fetchTeamCompsFromSources } from './data-sources';
+import { normalizeItem } from './comp-normalizer';
+import { request } from './ipc';
+import type { CachedDataset } from '../../shared/ipc';
+
+// The cache tables live in the main process, see src/main/data-service.js
+
+// Cache lifetime from the settings, see setRefreshPolicy
+let refreshPolicy: RefreshPolicy = {
+  refreshInterval: DEFAULT_SETTINGS.dataRefreshInterval,
+  staleWhileRevalidate: DEFAULT_SETTINGS.staleWhileRevalidate,
+};
 
-  return db;
+// Apply the data refresh settings to later fetches
+export const setRefreshPolicy = (policy: RefreshPolicy) => {
+  refreshPolicy = policy;
 };
 
-// Fetch team compositions from API
-export const fetchTeamComps = async (): Promise<ApiResponse<TeamComp[]>> => {
-  try {
-    // Check if we need to refresh the data
-    const lastUpdate = localStorage.getItem(STORAGE_KEYS.LAST_UPDATE);
-    const now = Date.now();
+// Providers the datasets are fetched from, see setDataSources
+let dataSources: { ids: DataSourceId[]; merge: boolean } = {
+  ids: DEFAULT_SETTINGS.dataSources,
+  merge: DEFAULT_SETTINGS.mergeDataSources,
+};
 
-    // If data is fresh (less than 24 hours old), use cached data
-    if (lastUpdate && now - parseInt(lastUpdate, 10) < 24 * 60 * 60 * 1000) {
-      const cachedData = await getTeamCompsFromCache();
-      if (cachedData && cachedData.length > 0) {
-        return { success: true, data: cachedData };
-      }
+// Per-dataset freshness and the current patch, kept in the meta_data table
+const PATCH_VERSION_KEY = 'patch_version';
+const DATA_SOURCES_KEY = 'data_sources';
+const FRESHNESS_PREFIX = 'freshness:';
+const freshnessKey = (dataset: string) => `${FRESHNESS_PREFIX}${dataset}`;
+
+const freshnessStore: FreshnessStore = {
+  getFreshness: async (dataset: string): Promise<DatasetFreshness | null> => {
+    try {
+      const entry = await request('get-meta', freshnessKey(dataset));
+      return entry ? { dataset, patch: entry.value || null, fetchedAt: entry.updatedAt } : null;
+    } catch (error) {
+      console.error(`Error getting freshness of ${dataset}:`, error);
+      return null;
     }
-
-    // Fetch fresh data from API
-    const response = await fetch(`${API_ENDPOINTS.META_TFT}/comps`);
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}`);
+  },
+  setFreshness: async (freshness: DatasetFreshness) => {
+    try {
+      await request('set-meta', {
+        key: freshnessKey(freshness.dataset),
+        value: freshness.patch || '',
+        updatedAt: freshness.fetchedAt,
+      });
+    } catch (error) {
+      console.error(`Error recording freshness of ${freshness.dataset}:`, error);
     }
+  },
+  getPatch: async (): Promise<string | null> => {
+    try {
+      const entry = await request('get-meta', PATCH_VERSION_KEY);
+      return entry?.value || null;
+    } catch (error) {
+      console.error('Error getting patch version:', error);
+      return null;
+    }
+  },
+};
 
-    const data = await response.json();
-
-    // Transform API data to our format
-    const teamComps: TeamComp[] = data.map((comp: any) => ({
-      id: comp.id,
-      name: comp.name,
-      tier: comp.tier,
-      units: comp.units,
-      traits: comp.traits,
-      augments: comp.augments,
-      items: comp.items,
-      placement: comp.avgPlacement,
-      winRate: comp.winRate,
-      playRate: comp.playRate,
-      difficulty: comp.difficulty,
-    }));
-
-    // Cache the data
-    await cacheTeamComps(teamComps);
+// Choose the providers the datasets are fetched from, highest priority first.
+// Data cached from other providers is refreshed on its next load.
+export const setDataSources = async (ids: DataSourceId[], merge: boolean): Promise<void> => {
+  dataSources = { ids, merge };
 
-    // Update last update timestamp
-    localStorage.setItem(STORAGE_KEYS.LAST_UPDATE, now.toString());
+  try {
+    const value = JSON.stringify(dataSources);
+    const entry = await request('get-meta', DATA_SOURCES_KEY);
+    if (entry?.value === value) return;
 
-    return { success: true, data: teamComps };
+    await request('clear-meta', FRESHNESS_PREFIX);
+    await request('set-meta', { key: DATA_SOURCES_KEY, value });
   } catch (error) {
-    console.error('Error fetching team comps:', error);
-
-    // Try to get data from cache as fallback
-    const cachedData = await getTeamCompsFromCache();
-    if (cachedData && cachedData.length > 0) {
-      return { success: true, data: cachedData };
-    }
+    console.error('Error recording data sources:', error);
+  }
+};
 
-    return {
-      success: false,
-      error: `Failed to fetch team compositions: ${(error as Error).message}`
-    };
+// Record the patch the scraper reports. Datasets fetched for an earlier patch
+// are then refreshed on their next load.
+export const recordPatchVersion = (patch: string): Promise<void> =>
+  request('set-meta', { key: PATCH_VERSION_KEY, value: patch });
+
+// Ask the scraper for the current patch, keeping the recorded one when it is
+// unreachable
+export const refreshPatchVersion = async (): Promise<string | null> => {
+  const status = await getScraperStatus();
+  if (status.success && status.data?.patchVersion) {
+    await recordPatchVersion(status.data.patchVersion);
+    return status.data.patchVersion;
   }
+  return freshnessStore.getPatch();
 };
 
-// Get team compositions from cache
-const getTeamCompsFromCache = async (): Promise<TeamComp[] | null> => {
+// Rows of a cached dataset, or null when nothing is cached or the database
+// cannot be read
+const readCache = async <T>(dataset: CachedDataset): Promise<T[] | null> => {
   try {
-    const database = initDatabase();
-    const stmt = database.prepare('SELECT data FROM team_comps');
-    const rows = stmt.all();
-
-    if (rows.length === 0) {
-      return null;
-    }
-
-    return rows.map((row: any) => JSON.parse(row.data));
+    return (await request('read-dataset', dataset)) as T[] | null;
   } catch (error) {
-    console.error('Error getting team comps from cache:', error);
+    console.error(`Error getting ${dataset} from cache:`, error);
     return null;
   }
 };
 
-// Cache team compositions
-const cacheTeamComps = async (teamComps: TeamComp[]): Promise<void> => {
+const writeCache = async <T>(dataset: CachedDataset, rows: T[]): Promise<void> => {
   try {
-    const database = initDatabase();
-    const stmt = database.prepare(
-      'INSERT OR REPLACE INTO team_comps (id, name, tier, data, updated_at) VALUES (?, ?, ?, ?, ?)'
-    );
-
-    const now = Date.now();
-
-    // Begin transaction
-    const transaction = database.transaction((comps: TeamComp[]) => {
-      for (const comp of comps) {
-        stmt.run(comp.id, comp.name, comp.tier, JSON.stringify(comp), now);
-      }
-    });
-
-    transaction(teamComps);
+    await request('write-dataset', { dataset, rows });
   } catch (error) {
-    console.error('Error caching team comps:', error);
+    console.error(`Error caching ${dataset}:`, error);
   }
 };
 
-// Similar functions for items, augments, etc.
-export const fetchItems = async (): Promise<ApiResponse<Item[]>> => {
-  // Implementation similar to fetchTeamComps
-  return { success: true, data: [] };
+const teamCompsDataset: DatasetSource<TeamComp[]> = {
+  name: 'team_comps',
+  readCache: () => readCache<TeamComp>('team_comps'),
+  writeCache: teamComps => writeCache('team_comps', teamComps),
+  fetchFresh: () => fetchTeamCompsFromSources(dataSources.ids, dataSources.merge),
 };
 
-export const fetchAugments = async (): Promise<ApiResponse<Augment[]>> => {
+// Fetch team compositions, from the cache while it is fresh
+export const fetchTeamComps = async (): Promise<ApiResponse<TeamComp[]>> => {
   try {
-    // Check if we need to refresh the data
-    const lastUpdate = localStorage.getItem(STORAGE_KEYS.LAST_UPDATE);
-    const now = Date.now();
-
-    // If data is fresh (less than 24 hours old), use cached data
-    if (lastUpdate && now - parseInt(lastUpdate, 10) < 24 * 60 * 60 * 1000) {
-      const cachedData = await getAugmentsFromCache();
-      if (cachedData && cachedData.length > 0) {
-        return { success: true, data: cachedData };
-      }
-    }
-
-    // Fetch fresh data from tactics.tools API
-    // Note: This is a mock endpoint, replace with actual tactics.tools API when available
-    const response = await fetch(`${API_ENDPOINTS.TACTICS_TOOLS}/augments`);
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    // Transform API data to our format
-    const augments: Augment[] = data.augments.map((augment: any) => ({
-      id: augment.id || augment.name.replace(/\s+/g, '_').toLowerCase(),
-      name: augment.name,
-      description: augment.description || '',
-      tier: augment.tier || 'silver', // silver, gold, prismatic
-      synergies: augment.synergies || [],
-    }));
-
-    // Cache the data
-    await cacheAugments(augments);
-
-    // Update last update timestamp
-    localStorage.setItem(STORAGE_KEYS.LAST_UPDATE, now.toString());
-
-    return { success: true, data: augments };
+    const data = await loadDataset(teamCompsDataset, freshnessStore, refreshPolicy);
+    return { success: true, data };
   } catch (error) {
-    console.error('Error fetching augments:', error);
-
-    // Try to get data from cache as fallback
-    const cachedData = await getAugmentsFromCache();
-    if (cachedData && cachedData.length > 0) {
-      return { success: true, data: cachedData };
-    }
+    console.error('Error fetching team comps:', error);
 
-    // If API fails and no cache, return mock data for development
     return {
-      success: true,
-      data: getMockAugments()
+      success: false,
+      error: `Failed to fetch team compositions: ${(error as Error).message}`
     };
   }
 };
 
-// Get augments from cache
-const getAugmentsFromCache = async (): Promise<Augment[] | null> => {
-  try {
-    const database = initDatabase();
-    const stmt = database.prepare('SELECT data FROM augments');
-    const rows = stmt.all();
-
-    if (rows.length === 0) {
-      return null;
-    }
-
-    return rows.map((row: any) => JSON.parse(row.data));
-  } catch (error) {
-    console.error('Error getting augments from cache:', error);
-    return null;
+// The set data stands in for a dataset no source answered with and nothing
+// cached, marked as a fallback. Fails when the set data has none either.
+const setDataFallback = <T>(dataset: string, data: T[], error: unknown): ApiResponse<T[]> => {
+  const reason = `Failed to fetch ${dataset}: ${(error as Error).message}`;
+  if (data.length === 0) {
+    return { success: false, error: reason };
   }
+  return { success: true, data, fallback: true, error: reason };
 };
 
-// Cache augments
-const cacheAugments = async (augments: Augment[]): Promise<void> => {
-  try {
-    const database = initDatabase();
-    const stmt = database.prepare(
-      'INSERT OR REPLACE INTO augments (id, name, tier, data, updated_at) VALUES (?, ?, ?, ?, ?)'
-    );
-
-    const now = Date.now();
-
-    // Begin transaction
-    const transaction = database.transaction((items: Augment[]) => {
-      for (const item of items) {
-        stmt.run(item.id, item.name, item.tier, JSON.stringify(item), now);
-      }
-    });
+const itemsDataset: DatasetSource<Item[]> = {
+  name: 'items',
+  readCache: () => readCache<Item>('items'),
+  writeCache: items => writeCache('items', items),
+  fetchFresh: () => fetchItemsFromSources(dataSources.ids),
+};
 
-    transaction(augments);
+// Fetch items with their per-champion placements, from the cache while it is fresh
+export const fetchItems = async (): Promise<ApiResponse<Item[]>> => {
+  try {
+    const data = await loadDataset(itemsDataset, freshnessStore, refreshPolicy);
+    return { success: true, data };
   } catch (error) {
-    console.error('Error caching augments:', error);
+    console.error('Error fetching items:', error);
+    return setDataFallback('items', getItems().map(normalizeItem), error);
   }
 };
 
-// Mock augments for development
-const getMockAugments = (): Augment[] => {
-  return [
-    {
-      id: 'spirit_heart',
-      name: 'Spirit Heart',
-      description: 'Your team counts as having 1 additional Spirit.',
-      tier: 'silver',
-      synergies: ['Spirit'],
-    },
-    {
-      id: 'spell_sword',
-      name: 'Spell Sword',
-      description: 'Your units gain 20% Attack Speed and 20 Ability Power.',
-      tier: 'gold',
-      synergies: ['Sorcerer', 'Duelist'],
-    },
-    {
-      id: 'sorcerer_soul',
-      name: 'Sorcerer Soul',
-      description: 'Your team counts as having 2 additional Sorcerers.',
-      tier: 'silver',
-      synergies: ['Sorcerer'],
-    },
-    {
-      id: 'built_different_3',
-      name: 'Built Different III',
-      description: 'Your units with no traits active gain 400 Health and 60% Attack Speed.',
-      tier: 'prismatic',
-      synergies: [],
-    },
-    {
-      id: 'celestial_blessing_2',
-      name: 'Celestial Blessing II',
-      description: 'Your units heal for 25% of the damage they deal.',
-      tier: 'gold',
-      synergies: [],
-    },
-    {
-      id: 'cybernetic_implants_1',
-      name: 'Cybernetic Implants I',
-      description: 'Units with at least 1 item gain 150 Health and 10 Attack Damage.',
-      tier: 'silver',
-      synergies: [],
-    },
-  ];
+const augmentsDataset: DatasetSource<Augment[]> = {
+  name: 'augments',
+  readCache: () => readCache<Augment>('augments'),
+  writeCache: augments => writeCache('augments', augments),
+  fetchFresh: () => fetchAugmentsFromSources(dataSources.ids),
 };
 
-// Clean up resources
-export const cleanup = () => {
-  if (db) {
-    db.close();
-    db = null;
+// Fetch augments, from the cache while it is fresh
+export const fetchAugments = async (): Promise<ApiResponse<Augment[]>> => {
+  try {
+    const data = await loadDataset(augmentsDataset, freshnessStore, refreshPolicy);
+    return { success: true, data };
+  } catch (error) {
+    console.error('Error fetching augments:', error);
+    return setDataFallback('augments', getAugments(), error);
   }
 };
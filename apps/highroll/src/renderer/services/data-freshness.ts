@@ -0,0 +1,100 @@
+// When a cached dataset was fetched, and for which patch
+export interface DatasetFreshness {
+  dataset: string;
+  patch: string | null; // Patch the scraper reported at fetch time, if known
+  fetchedAt: number;
+}
+
+// How long cached data is trusted, from the settings
+export interface RefreshPolicy {
+  refreshInterval: number; // ms
+  staleWhileRevalidate: boolean; // Serve stale data at once and refresh in the background
+}
+
+export type CacheState = 'fresh' | 'stale' | 'missing';
+
+// Where a dataset is cached and fetched from
+export interface DatasetSource<T> {
+  name: string;
+  readCache: () => Promise<T | null>;
+  writeCache: (data: T) => Promise<void>;
+  fetchFresh: () => Promise<T>;
+}
+
+// Where freshness and the current patch are kept
+export interface FreshnessStore {
+  getFreshness: (dataset: string) => Promise<DatasetFreshness | null>;
+  setFreshness: (freshness: DatasetFreshness) => Promise<void>;
+  getPatch: () => Promise<string | null>;
+}
+
+// Whether cached data can be served as is. Data fetched for another patch is
+// stale whatever its age.
+export const getCacheState = (
+  freshness: DatasetFreshness | null,
+  hasData: boolean,
+  currentPatch: string | null,
+  policy: RefreshPolicy,
+  now: number = Date.now()
+): CacheState => {
+  if (!hasData || !freshness) return 'missing';
+  if (currentPatch && freshness.patch !== currentPatch) return 'stale';
+  return now - freshness.fetchedAt < policy.refreshInterval ? 'fresh' : 'stale';
+};
+
+// Refreshes in flight by dataset, so concurrent loads share one request
+const revalidations = new Map<string, Promise<unknown>>();
+
+// Fetch a dataset, cache it and record its freshness
+export const revalidateDataset = <T>(source: DatasetSource<T>, store: FreshnessStore): Promise<T> => {
+  const pending = revalidations.get(source.name);
+  if (pending) return pending as Promise<T>;
+
+  const revalidation = (async () => {
+    try {
+      const data = await source.fetchFresh();
+      await source.writeCache(data);
+      await store.setFreshness({ dataset: source.name, patch: await store.getPatch(), fetchedAt: Date.now() });
+      return data;
+    } finally {
+      revalidations.delete(source.name);
+    }
+  })();
+
+  revalidations.set(source.name, revalidation);
+  return revalidation;
+};
+
+// Serve a dataset from the cache while it is fresh. Stale data is served at
+// once and refreshed in the background in stale-while-revalidate mode, and
+// otherwise refreshed first, falling back to the cache when the network fails.
+// Throws only when there is neither fresh data nor a cache.
+export const loadDataset = async <T>(
+  source: DatasetSource<T>,
+  store: FreshnessStore,
+  policy: RefreshPolicy,
+  now: number = Date.now()
+): Promise<T> => {
+  const cached = await source.readCache();
+  const freshness = await store.getFreshness(source.name);
+  const state = getCacheState(freshness, cached !== null, await store.getPatch(), policy, now);
+
+  if (state === 'fresh') return cached!;
+
+  if (state === 'stale' && policy.staleWhileRevalidate) {
+    revalidateDataset(source, store).catch(error => {
+      console.error(`Error refreshing ${source.name}:`, error);
+    });
+    return cached!;
+  }
+
+  try {
+    return await revalidateDataset(source, store);
+  } catch (error) {
+    if (cached !== null) {
+      console.error(`Error refreshing ${source.name}, using cached data:`, error);
+      return cached;
+    }
+    throw error;
+  }
+};
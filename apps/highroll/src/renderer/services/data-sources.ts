@@ -0,0 +1,129 @@
+import type { Augment, DataSourceId, Item, TeamComp } from '../../shared/types';
+import { API_ENDPOINTS } from '../../shared/constants';
+import { getAugments, getItems } from '../../shared/set-data';
+import { normalizeItem, normalizeTeamComp, readList } from './comp-normalizer';
+import { fetchTeamCompositions } from './tft-scraper-api';
+import { request } from './ipc';
+import offlineSnapshot from '../../shared/sets/set-9-comps.json';
+
+// A provider of meta data. Every source returns canonical TeamComps, see
+// comp-normalizer; sources without augment or item data leave
+// fetchAugments or fetchItems out.
+export interface DataSource {
+  id: DataSourceId;
+  name: string;
+  fetchTeamComps: () => Promise<TeamComp[]>;
+  fetchAugments?: () => Promise<Augment[]>;
+  fetchItems?: () => Promise<Item[]>;
+}
+
+// Requests are made by the main process, see src/main/data-service.js
+const fetchJson = (url: string): Promise<unknown> => request('fetch-json', { url });
+
+const metatftSource: DataSource = {
+  id: 'metatft',
+  name: 'MetaTFT',
+  fetchTeamComps: async () => readList(await fetchJson(`${API_ENDPOINTS.META_TFT}/comps`), 'comps').map(normalizeTeamComp),
+  // Items with their placement on each champion
+  fetchItems: async () => readList(await fetchJson(`${API_ENDPOINTS.META_TFT}/items`), 'items').map(normalizeItem),
+};
+
+const tacticsToolsSource: DataSource = {
+  id: 'tactics_tools',
+  name: 'tactics.tools',
+  fetchTeamComps: async () => readList(await fetchJson(`${API_ENDPOINTS.TACTICS_TOOLS}/comps`), 'comps').map(normalizeTeamComp),
+};
+
+const scraperSource: DataSource = {
+  id: 'scraper',
+  name: 'Local scraper',
+  fetchTeamComps: async () => {
+    const response = await fetchTeamCompositions();
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'No compositions returned');
+    }
+    return response.data;
+  },
+};
+
+// Comps, augments and items bundled with the app, for playing without a
+// connection. The set data has no item placements.
+const offlineSource: DataSource = {
+  id: 'offline',
+  name: 'Offline snapshot',
+  fetchTeamComps: async () => offlineSnapshot.teamComps.map(normalizeTeamComp),
+  fetchAugments: async () => getAugments(),
+  fetchItems: async () => getItems().map(normalizeItem),
+};
+
+export const DATA_SOURCES: Record<DataSourceId, DataSource> = {
+  metatft: metatftSource,
+  tactics_tools: tacticsToolsSource,
+  scraper: scraperSource,
+  offline: offlineSource,
+};
+
+const sameComp = (a: TeamComp, b: TeamComp) => a.id === b.id || a.name.toLowerCase() === b.name.toLowerCase();
+
+// Fetch comps from the sources in priority order. By default the first
+// source that returns comps is used; when merging, the comps of every source
+// are combined and a comp found by several keeps the higher-priority version.
+export const fetchTeamCompsFromSources = async (
+  ids: DataSourceId[],
+  merge: boolean,
+  sources: Record<DataSourceId, DataSource> = DATA_SOURCES
+): Promise<TeamComp[]> => {
+  const comps: TeamComp[] = [];
+  const errors: string[] = [];
+
+  for (const id of ids) {
+    try {
+      const found = await sources[id].fetchTeamComps();
+      comps.push(...found.filter(comp => !comps.some(existing => sameComp(existing, comp))));
+      if (!merge && comps.length > 0) break;
+    } catch (error) {
+      errors.push(`${sources[id].name}: ${(error as Error).message}`);
+    }
+  }
+
+  if (comps.length === 0) {
+    throw new Error(errors.length > 0 ? errors.join('; ') : 'No data source enabled');
+  }
+  return comps;
+};
+
+// Fetch a dataset from the first source in priority order that has it
+const fetchFromFirstSource = async <T>(
+  ids: DataSourceId[],
+  sources: Record<DataSourceId, DataSource>,
+  dataset: string,
+  fetcher: (source: DataSource) => (() => Promise<T[]>) | undefined
+): Promise<T[]> => {
+  const errors: string[] = [];
+
+  for (const id of ids) {
+    const source = sources[id];
+    const fetchData = fetcher(source);
+    if (!fetchData) continue;
+    try {
+      const data = await fetchData();
+      if (data.length > 0) return data;
+    } catch (error) {
+      errors.push(`${source.name}: ${(error as Error).message}`);
+    }
+  }
+
+  throw new Error(errors.length > 0 ? errors.join('; ') : `No enabled data source has ${dataset}`);
+};
+
+// Fetch augments from the first source in priority order that has them
+export const fetchAugmentsFromSources = (
+  ids: DataSourceId[],
+  sources: Record<DataSourceId, DataSource> = DATA_SOURCES
+): Promise<Augment[]> => fetchFromFirstSource(ids, sources, 'augments', source => source.fetchAugments);
+
+// Fetch items from the first source in priority order that has them
+export const fetchItemsFromSources = (
+  ids: DataSourceId[],
+  sources: Record<DataSourceId, DataSource> = DATA_SOURCES
+): Promise<Item[]> => fetchFromFirstSource(ids, sources, 'items', source => source.fetchItems);
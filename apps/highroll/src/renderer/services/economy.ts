@@ -0,0 +1,195 @@
+import { ECONOMY, SHOP } from '../../shared/constants';
+import { getXpToLevel } from '../../shared/set-data';
+import { compareStages, isCarouselRound, parseStage } from './stage-tracker';
+
+// Something the player plans to do at a round
+export type PlanAction =
+  | { stage: string; type: 'level'; level: number } // Buy XP until reaching the level
+  | { stage: string; type: 'roll'; keepGold: number } // Roll down to this much gold once
+  | { stage: string; type: 'slow_roll'; keepGold: number }; // Roll the gold above this every round from here on
+
+export interface EconomyPlan {
+  id: string;
+  name: string;
+  actions: PlanAction[];
+}
+
+// Where the projection starts: the current round, after its income
+export interface EconomyStart {
+  stage: string;
+  gold: number;
+  level: number;
+  xp: number; // XP towards the next level
+  streak: number; // Win or loss streak, assumed to hold over the projection
+}
+
+// State at the end of a projected round
+export interface RoundProjection {
+  stage: string;
+  income: number; // Passive income, interest and streak bonus
+  interest: number;
+  gold: number;
+  level: number;
+  xp: number;
+  spentOnXp: number;
+  spentOnRolls: number;
+}
+
+export interface PlanResult {
+  plan: EconomyPlan;
+  rounds: RoundProjection[];
+  totalSpentOnRolls: number;
+  finalGold: number;
+  finalLevel: number;
+}
+
+// Common plans to compare against each other
+export const PRESET_PLANS: EconomyPlan[] = [
+  {
+    id: 'fast-8',
+    name: 'Fast 8',
+    actions: [
+      { stage: '2-1', type: 'level', level: 4 },
+      { stage: '2-5', type: 'level', level: 5 },
+      { stage: '3-2', type: 'level', level: 6 },
+      { stage: '3-5', type: 'level', level: 7 },
+      { stage: '4-1', type: 'level', level: 8 },
+      { stage: '4-2', type: 'roll', keepGold: 10 },
+    ],
+  },
+  {
+    id: 'slow-roll-6',
+    name: 'Slow Roll (6)',
+    actions: [
+      { stage: '2-1', type: 'level', level: 4 },
+      { stage: '2-5', type: 'level', level: 5 },
+      { stage: '3-1', type: 'level', level: 6 },
+      { stage: '3-2', type: 'slow_roll', keepGold: 50 },
+    ],
+  },
+  {
+    id: 'slow-roll-7',
+    name: 'Slow Roll (7)',
+    actions: [
+      { stage: '2-1', type: 'level', level: 4 },
+      { stage: '2-5', type: 'level', level: 5 },
+      { stage: '3-2', type: 'level', level: 6 },
+      { stage: '4-1', type: 'level', level: 7 },
+      { stage: '4-1', type: 'slow_roll', keepGold: 50 },
+    ],
+  },
+];
+
+// Interest earned on the gold held at the start of a round
+export const getInterest = (gold: number): number =>
+  Math.min(ECONOMY.MAX_INTEREST, Math.floor(Math.max(0, gold) / ECONOMY.INTEREST_STEP));
+
+// Bonus gold for a win or loss streak
+export const getStreakBonus = (streak: number): number => {
+  const length = Math.abs(streak);
+  if (length <= 1) return 0;
+  if (length === 2) return 1;
+  if (length === 3) return 2;
+  if (length === 4) return 3;
+  return 4; // 5+ streak
+};
+
+// Passive gold at the start of a round
+export const getPassiveIncome = (stage: string): number => ECONOMY.EARLY_INCOME[stage] ?? ECONOMY.BASE_INCOME;
+
+// The round after a stage, or null when the stage is unreadable
+export const getNextStage = (stage: string): string | null => {
+  const parsed = parseStage(stage);
+  if (!parsed) return null;
+
+  const roundsInStage = parsed.stage === 1 ? 4 : 7;
+  return parsed.round < roundsInStage ? `${parsed.stage}-${parsed.round + 1}` : `${parsed.stage + 1}-1`;
+};
+
+// XP needed to go from a level to the next, 0 at the maximum level
+export const getXpToNextLevel = (level: number): number =>
+  level >= ECONOMY.MAX_LEVEL ? 0 : getXpToLevel()[level] || 0;
+
+// Add XP, levelling up as thresholds are crossed
+export const addXp = (level: number, xp: number, gained: number): { level: number; xp: number } => {
+  let current = { level, xp: xp + gained };
+  while (current.level < ECONOMY.MAX_LEVEL && current.xp >= getXpToNextLevel(current.level)) {
+    current = { level: current.level + 1, xp: current.xp - getXpToNextLevel(current.level) };
+  }
+  return current.level >= ECONOMY.MAX_LEVEL ? { level: ECONOMY.MAX_LEVEL, xp: 0 } : current;
+};
+
+// Gold needed to buy XP up to a level from the current XP
+export const getGoldToLevel = (level: number, xp: number, targetLevel: number): number => {
+  let needed = -xp;
+  for (let current = level; current < Math.min(targetLevel, ECONOMY.MAX_LEVEL); current++) {
+    needed += getXpToNextLevel(current);
+  }
+  return Math.max(0, Math.ceil(needed / ECONOMY.XP_PER_PURCHASE) * ECONOMY.XP_COST);
+};
+
+// Project gold, level and XP over the rounds after the start, following a plan
+export const simulateEconomy = (start: EconomyStart, plan: EconomyPlan, roundCount: number): PlanResult => {
+  const rounds: RoundProjection[] = [];
+  let { gold, level, xp } = start;
+  let slowRollGold: number | null = null;
+  let stage: string | null = start.stage;
+
+  // Slow rolling that started before the projection carries on
+  plan.actions.forEach(action => {
+    if (action.type === 'slow_roll' && (compareStages(action.stage, start.stage) ?? 1) <= 0) {
+      slowRollGold = action.keepGold;
+    }
+  });
+
+  for (let index = 0; index < roundCount; index++) {
+    stage = stage && getNextStage(stage);
+    if (!stage) break;
+
+    // Income and passive XP at the start of the round; carousels give neither
+    const carousel = isCarouselRound(stage);
+    const interest = carousel ? 0 : getInterest(gold);
+    const income = carousel ? 0 : getPassiveIncome(stage) + interest + getStreakBonus(start.streak);
+    gold += income;
+    if (!carousel) {
+      ({ level, xp } = addXp(level, xp, ECONOMY.PASSIVE_XP));
+    }
+
+    let spentOnXp = 0;
+    let spentOnRolls = 0;
+    const actions = plan.actions.filter(action => action.stage === stage);
+
+    // Level before rolling so the roll uses the new shop odds
+    actions.forEach(action => {
+      if (action.type !== 'level') return;
+      while (level < action.level && gold >= ECONOMY.XP_COST) {
+        gold -= ECONOMY.XP_COST;
+        spentOnXp += ECONOMY.XP_COST;
+        ({ level, xp } = addXp(level, xp, ECONOMY.XP_PER_PURCHASE));
+      }
+    });
+
+    let keepGold: number | null = null;
+    actions.forEach(action => {
+      if (action.type === 'roll') keepGold = action.keepGold;
+      if (action.type === 'slow_roll') slowRollGold = action.keepGold;
+    });
+    const rollTo = Math.min(keepGold ?? Infinity, slowRollGold ?? Infinity);
+
+    if (rollTo < gold) {
+      // Rolls are bought in whole shops
+      spentOnRolls = Math.floor((gold - rollTo) / SHOP.ROLL_COST) * SHOP.ROLL_COST;
+      gold -= spentOnRolls;
+    }
+
+    rounds.push({ stage, income, interest, gold, level, xp, spentOnXp, spentOnRolls });
+  }
+
+  return {
+    plan,
+    rounds,
+    totalSpentOnRolls: rounds.reduce((sum, round) => sum + round.spentOnRolls, 0),
+    finalGold: gold,
+    finalLevel: level,
+  };
+};
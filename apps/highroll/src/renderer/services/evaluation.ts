@@ -0,0 +1,237 @@
+import type { GameState, MatchDetails, ScoringWeights, TeamComp } from '../../shared/types';
+import { EVALUATION, MATCH_HISTORY } from '../../shared/constants';
+import { analyzeGameState } from './analyzer';
+import { isRecord } from './comp-normalizer';
+import { compareStages, parseStage } from './stage-tracker';
+import { calculateTraits } from './trait-engine';
+
+// A recorded game to replay: the game state at each round and how it ended
+export interface EvaluationMatch {
+  id: string;
+  placement: number | null;
+  finalCompId?: string; // The comp the player ended up playing, read from the last board when missing
+  timeline: GameState[];
+}
+
+// Where the comp the player ended up playing ranked at one round of a game
+export interface SnapshotResult {
+  matchId: string;
+  stage: string;
+  placement: number | null;
+  rank: number | null; // 1-based, null when the comp was not ranked
+}
+
+// Ranking quality over a group of snapshots
+export interface EvaluationMetrics {
+  key: string;
+  snapshots: number;
+  hitRate: number; // 0-1, eventual comp recommended first
+  hitRateAtK: number; // 0-1, eventual comp within the top K
+  meanRank: number;
+  ndcg: number; // NDCG@K with the eventual comp as the only relevant comp
+}
+
+export interface EvaluationReport {
+  k: number;
+  overall: EvaluationMetrics;
+  byStage: EvaluationMetrics[];
+  byPlacement: EvaluationMetrics[];
+  skipped: string[]; // Matches whose eventual comp could not be identified
+}
+
+// Recorded timelines and the comps to rank, as stored in fixture files
+export interface EvaluationFixture {
+  teamComps: TeamComp[];
+  matches: EvaluationMatch[];
+}
+
+const EMPTY_GAME_STATE: GameState = {
+  stage: '',
+  playerLevel: 1,
+  playerHealth: 100,
+  gold: 0,
+  streak: 0,
+  units: [],
+  bench: [],
+  items: [],
+  augments: [],
+  offeredAugments: [],
+  traits: [],
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// A list in a fixture file, empty when left out
+const readFixtureList = (data: Record<string, unknown>, key: string, owner: string): unknown[] => {
+  const list = data[key] ?? [];
+  if (!Array.isArray(list)) throw new Error(`${owner} has ${key} that is not a list`);
+  return list;
+};
+
+const parseTeamComp = (comp: unknown): TeamComp => {
+  if (!isRecord(comp) || typeof comp.id !== 'string' || typeof comp.name !== 'string') {
+    throw new Error('Fixture has a team comp without an id or name');
+  }
+  if (!Array.isArray(comp.units)) throw new Error(`Team comp ${comp.id} has no units`);
+  return comp as unknown as TeamComp;
+};
+
+// Read a list of comps, as in a fixture's teamComps
+export const parseTeamComps = (data: unknown): TeamComp[] => {
+  if (!Array.isArray(data)) throw new Error('Team comps are not a list');
+  return data.map(parseTeamComp);
+};
+
+const parseTimelineEntry = (matchId: string, gameState: unknown): GameState => {
+  if (!isRecord(gameState) || typeof gameState.stage !== 'string') {
+    throw new Error(`Match ${matchId} has a game state without a stage`);
+  }
+  const units = readFixtureList(gameState, 'units', `Match ${matchId} at ${gameState.stage}`) as GameState['units'];
+  return { ...EMPTY_GAME_STATE, ...gameState, units, traits: calculateTraits(units) };
+};
+
+const parseMatch = (match: unknown): EvaluationMatch => {
+  if (!isRecord(match) || (typeof match.id !== 'string' && typeof match.id !== 'number')) {
+    throw new Error('Fixture has a match without an id');
+  }
+  const id = String(match.id);
+  const placement = match.placement ?? null;
+  if (placement !== null && typeof placement !== 'number') throw new Error(`Match ${id} has a placement that is not a number`);
+  if (match.finalCompId !== undefined && typeof match.finalCompId !== 'string') {
+    throw new Error(`Match ${id} has a finalCompId that is not a string`);
+  }
+
+  return {
+    id,
+    placement,
+    finalCompId: match.finalCompId,
+    timeline: readFixtureList(match, 'timeline', `Match ${id}`).map(gameState => parseTimelineEntry(id, gameState)),
+  };
+};
+
+// Read a fixture file's contents, failing on entries that are not comps or
+// matches. Timeline entries may leave out anything that did not matter for
+// the round, and traits are recomputed from the board.
+export const parseEvaluationFixture = (data: unknown): EvaluationFixture => {
+  if (!isRecord(data)) throw new Error('Fixture is not an object');
+
+  return {
+    teamComps: parseTeamComps(readFixtureList(data, 'teamComps', 'Fixture')),
+    matches: readFixtureList(data, 'matches', 'Fixture').map(parseMatch),
+  };
+};
+
+// Replay a recorded match. Its comp id is not used as the answer since it is
+// the analyzer's own recommendation at the end of the game.
+export const fromMatchDetails = (match: MatchDetails): EvaluationMatch => ({
+  id: String(match.id),
+  placement: match.placement,
+  timeline: [...match.snapshots]
+    .sort((a, b) => compareStages(a.stage, b.stage) ?? a.capturedAt - b.capturedAt)
+    .map(snapshot => snapshot.gameState),
+});
+
+// The comp sharing the most units with the final board, undefined when none
+// of them share any
+export const identifyFinalComp = (gameState: GameState, teamComps: TeamComp[]): TeamComp | undefined => {
+  let best: TeamComp | undefined;
+  let bestOverlap = 0;
+
+  teamComps.forEach(comp => {
+    const overlap = comp.units.filter(unit => gameState.units.some(held => held.name === unit.name)).length;
+    if (overlap > bestOverlap) {
+      best = comp;
+      bestOverlap = overlap;
+    }
+  });
+
+  return best;
+};
+
+// NDCG@K with a single relevant comp: the ideal ranking puts it first
+export const calculateNdcg = (rank: number | null, k: number): number =>
+  rank !== null && rank <= k ? 1 / Math.log2(rank + 1) : 0;
+
+// Metrics over a group of snapshot results
+export const summarizeResults = (key: string, results: SnapshotResult[], k: number): EvaluationMetrics => {
+  const snapshots = results.length;
+  if (snapshots === 0) {
+    return { key, snapshots, hitRate: 0, hitRateAtK: 0, meanRank: 0, ndcg: 0 };
+  }
+
+  const ranked = results.filter((result): result is SnapshotResult & { rank: number } => result.rank !== null);
+  return {
+    key,
+    snapshots,
+    hitRate: round(results.filter(result => result.rank === 1).length / snapshots),
+    hitRateAtK: round(ranked.filter(result => result.rank <= k).length / snapshots),
+    meanRank: ranked.length > 0 ? round(ranked.reduce((sum, result) => sum + result.rank, 0) / ranked.length) : 0,
+    ndcg: round(results.reduce((sum, result) => sum + calculateNdcg(result.rank, k), 0) / snapshots),
+  };
+};
+
+// Rank every comp at each round of a match and record where the eventual comp placed
+export const evaluateMatch = async (
+  match: EvaluationMatch,
+  finalCompId: string,
+  teamComps: TeamComp[],
+  weights?: ScoringWeights
+): Promise<SnapshotResult[]> => {
+  const results: SnapshotResult[] = [];
+
+  for (const gameState of match.timeline) {
+    const { teamComps: ranking } = await analyzeGameState(gameState, { teamComps, weights, limit: teamComps.length });
+    const index = ranking.findIndex(comp => comp.id === finalCompId);
+    results.push({
+      matchId: match.id,
+      stage: gameState.stage,
+      placement: match.placement,
+      rank: index === -1 ? null : index + 1,
+    });
+  }
+
+  return results;
+};
+
+// Replay matches through the analyzer and measure how early and how highly it
+// recommended the comp each player ended up playing
+export const evaluate = async (
+  matches: EvaluationMatch[],
+  teamComps: TeamComp[],
+  options: { k?: number; weights?: ScoringWeights } = {}
+): Promise<EvaluationReport> => {
+  const k = options.k ?? EVALUATION.TOP_K;
+  const results: SnapshotResult[] = [];
+  const skipped: string[] = [];
+
+  for (const match of matches) {
+    const finalState = match.timeline[match.timeline.length - 1];
+    const finalCompId = match.finalCompId || (finalState && identifyFinalComp(finalState, teamComps)?.id);
+    if (!finalCompId) {
+      skipped.push(match.id);
+      continue;
+    }
+    results.push(...(await evaluateMatch(match, finalCompId, teamComps, options.weights)));
+  }
+
+  // Group by stage number, unreadable stages last
+  const stages = new Map<number, SnapshotResult[]>();
+  results.forEach(result => {
+    const stage = parseStage(result.stage)?.stage ?? 0;
+    stages.set(stage, [...(stages.get(stage) || []), result]);
+  });
+
+  const placed = results.filter(result => result.placement !== null);
+  return {
+    k,
+    overall: summarizeResults('Overall', results, k),
+    byStage: [...stages]
+      .sort(([a], [b]) => (a || Infinity) - (b || Infinity))
+      .map(([stage, group]) => summarizeResults(stage ? `Stage ${stage}` : 'Unknown stage', group, k)),
+    byPlacement: [
+      summarizeResults('Top 4', placed.filter(result => result.placement! <= MATCH_HISTORY.TOP_FOUR), k),
+      summarizeResults('Bottom 4', placed.filter(result => result.placement! > MATCH_HISTORY.TOP_FOUR), k),
+    ].filter(metrics => metrics.snapshots > 0),
+    skipped,
+  };
+};
@@ -0,0 +1,47 @@
+// Lowercase and strip everything but letters and digits, so OCR noise in
+// punctuation and spacing does not affect matching
+export const normalizeText = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Levenshtein edit distance
+export const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j]! + 1, current[j - 1]! + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+};
+
+// Similarity in [0, 1] between two strings after normalization
+export const textSimilarity = (a: string, b: string): number => {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  const length = Math.max(left.length, right.length);
+  if (length === 0) return 0;
+  return 1 - editDistance(left, right) / length;
+};
+
+// Find the candidate whose name is most similar to the text
+export const findBestMatch = <T>(
+  text: string,
+  candidates: T[],
+  getName: (candidate: T) => string,
+  minScore: number
+): { match: T; score: number } | null => {
+  let best: { match: T; score: number } | null = null;
+
+  for (const candidate of candidates) {
+    const score = textSimilarity(text, getName(candidate));
+    if (score >= minScore && (!best || score > best.score)) {
+      best = { match: candidate, score };
+    }
+  }
+
+  return best;
+};
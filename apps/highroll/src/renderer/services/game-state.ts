@@ -1,120 +1,248 @@
-import { ipcRenderer } from 'electron';
-import * as Tesseract from 'tesseract.js';
-import { GameState, Unit, Item, Augment, Trait } from '../../shared/types';
-import { CAPTURE_REGIONS, GAME_STAGES } from '../../shared/constants';
-
-// Mock data for development
-const mockUnits: Unit[] = [
-  {
-    id: 'TFT9_Ahri',
-    name: 'Ahri',
-    cost: 4,
-    tier: 2,
-    position: { row: 3, col: 4 },
-    items: [
-      { id: 'TFT_Item_Deathcap', name: 'Rabadon\'s Deathcap', type: 'combined' },
-      { id: 'TFT_Item_SpellCrit', name: 'Jeweled Gauntlet', type: 'combined' },
-    ],
-    traits: ['Spirit', 'Sorcerer'],
-  },
-  // Add more mock units as needed
-];
-
-// Initialize Tesseract worker
-let worker: Tesseract.Worker | null = null;
-
-const initTesseract = async () => {
-  if (!worker) {
-    worker = await Tesseract.createWorker('eng');
-  }
-  return worker;
+import type { FrameGameState, Unit, Augment, VisionTimings } from '../../shared/types';
+import { CAPTURE_REGIONS, OCR_SETTINGS, type CaptureRegionName } from '../../shared/constants';
+import { cropRegion, encodePbm, preprocessForOcr, type ImageFrame, type RelativeRegion } from './image-processing';
+import { captureFrame } from './screen-capture';
+import { loadChampionAtlas } from './unit-detector';
+import { loadItemAtlas } from './item-detector';
+import { calculateTraits } from './trait-engine';
+import {
+  augmentsFromTitles,
+  getAugmentTitleRegions,
+  isAugmentRound,
+  loadAugmentAtlas,
+  matchAugmentTitles,
+} from './augment-detector';
+import type { IconAtlas } from './icon-atlas';
+import { fetchAugments } from './data-api';
+import { parseScoutedPlayer } from './lobby';
+import { isCarouselRound, parsePlacement, parseRoundPhase } from './stage-tracker';
+import { createOcrPool, type OcrPool, type TextRecognizer } from './ocr-pool';
+import {
+  createLocalMatcher,
+  createWorkerMatcher,
+  type BoardMatches,
+  type IconAtlases,
+  type TemplateMatcher,
+} from './template-matcher';
+
+export type { TextRecognizer } from './ocr-pool';
+
+// Script of the vision worker, bundled next to the renderer (see the build script)
+const VISION_WORKER_URL = 'vision.worker.js';
+
+// Tesseract workers, started on first detection
+let ocrPool: OcrPool | null = null;
+
+const getOcrPool = () => {
+  if (!ocrPool) {
+    ocrPool = createOcrPool();
+  }
+  return ocrPool;
+};
+
+// Default recognizer: the Tesseract workers of the region
+const recognizeWithOcrPool: TextRecognizer = (region, image) => getOcrPool().recognize(region, image);
+
+// Champion portraits, item and augment icons, loaded on first detection
+let atlases: IconAtlases | null = null;
+
+const loadAtlases = async (): Promise<IconAtlases> => {
+  if (!atlases) {
+    atlases = {
+      championAtlas: await loadChampionAtlas(),
+      itemAtlas: await loadItemAtlas(),
+      augmentAtlas: await loadAugmentIcons(),
+    };
+  }
+  return atlases;
+};
+
+// Icons of the known augments. Without them the augments taken are not
+// detected, but units and items still are.
+const loadAugmentIcons = async (): Promise<IconAtlas> => {
+  try {
+    const response = await fetchAugments();
+    return await loadAugmentAtlas(response.data ?? []);
+  } catch (error) {
+    console.error('Error loading augment icons:', error);
+    return new Map();
+  }
 };
 
+// Template matching runs in the vision worker, or in this thread where there
+// are no Web Workers (e.g. in tests)
+let templateMatcher: Promise<TemplateMatcher> | null = null;
+
+const getTemplateMatcher = () => {
+  if (!templateMatcher) {
+    templateMatcher = loadAtlases()
+      .then(loaded =>
+        typeof Worker === 'undefined'
+          ? createLocalMatcher(loaded)
+          : createWorkerMatcher(new Worker(VISION_WORKER_URL, { type: 'module' }), loaded)
+      )
+      .catch(error => {
+        templateMatcher = null;
+        throw error;
+      });
+  }
+  return templateMatcher;
+};
+
+// A game state read from a frame, with the time OCR and template matching took.
+// The two run in parallel. Warnings say what could not be detected and why,
+// e.g. a missing icon atlas.
+export interface FrameAnalysis {
+  gameState: FrameGameState;
+  timings: Pick<VisionTimings, 'ocr' | 'templateMatching'>;
+  warnings: string[];
+}
+
 // Capture and analyze the game screen
-export const captureAndAnalyzeScreen = async (): Promise<GameState | null> => {
+export const captureAndAnalyzeScreen = async (): Promise<FrameGameState | null> => {
   try {
-    // Capture screen using Electron's desktopCapturer
-    const result = await ipcRenderer.invoke('capture-screen');
-    
-    if (!result.success) {
-      console.error('Screen capture failed:', result.error);
-      return null;
-    }
-    
-    // Process the captured image
-    const gameState = await processScreenCapture(result.imagePath);
-    return gameState;
+    const frame = await captureFrame();
+    return frame ? await extractGameState(frame) : null;
   } catch (error) {
     console.error('Error analyzing screen:', error);
     return null;
   }
 };
 
-// Process the captured screen image to extract game state
-const processScreenCapture = async (imagePath: string): Promise<GameState> => {
-  // In a real implementation, this would use computer vision to detect:
-  // - Units on board and bench
-  // - Items
-  // - Gold count
-  // - Player level
-  // - Health
-  // - Augments
-  // - Traits
-  
-  // For now, return mock data
-  return {
-    stage: GAME_STAGES.PLANNING,
-    playerLevel: 7,
-    playerHealth: 80,
-    gold: 50,
-    streak: 2,
-    units: mockUnits,
-    bench: [],
-    items: [],
-    augments: [],
-    traits: [],
-  };
+// Run a task, measuring how long it took in ms
+const timed = async <T>(task: () => Promise<T>): Promise<[T, number]> => {
+  const start = performance.now();
+  const result = await task();
+  return [result, performance.now() - start];
 };
 
-// Detect units on the board and bench
-const detectUnits = async (imagePath: string): Promise<{ board: Unit[], bench: Unit[] }> => {
-  // This would use template matching or ML-based object detection
-  // to identify champions on the board and bench
-  
-  // For now, return mock data
+// Read the game state from a decoded screenshot. Regions are cropped from
+// CAPTURE_REGIONS relative to the frame, so any capture resolution works.
+export const analyzeFrame = async (
+  frame: ImageFrame,
+  recognize: TextRecognizer = recognizeWithOcrPool,
+  matcher: Promise<TemplateMatcher> | TemplateMatcher = getTemplateMatcher()
+): Promise<FrameAnalysis> => {
+  const warnings: string[] = [];
+  const [[hud, ocr], [matches, templateMatching]] = await Promise.all([
+    timed(() => readHud(frame, recognize)),
+    timed(() => matchBoard(frame, matcher, warnings)),
+  ]);
+
+  // The carousel and offered augments are looked for once the stage is known
+  const [[carouselUnits, carouselTime], [offeredAugments, augmentsTime]] = await Promise.all([
+    timed(async () => (isCarouselRound(hud.stage) ? matchCarousel(frame, matcher, warnings) : [])),
+    timed(() => detectOfferedAugments(frame, hud.stage, recognize)),
+  ]);
+
+  const gameState: FrameGameState = {
+    ...hud,
+    units: matches.board,
+    bench: matches.bench,
+    items: matches.items,
+    augments: await toAugments(matches.augmentIds),
+    offeredAugments,
+    traits: calculateTraits(matches.board),
+    carouselUnits,
+  };
+
   return {
-    board: mockUnits,
-    bench: [],
+    gameState,
+    timings: { ocr: ocr + augmentsTime, templateMatching: templateMatching + carouselTime },
+    warnings: [...new Set(warnings)],
   };
 };
 
-// Detect items in inventory and on units
-const detectItems = async (imagePath: string): Promise<Item[]> => {
-  // This would detect items in the inventory and on units
-  
-  // For now, return mock data
-  return [];
+// Extract the game state from a decoded screenshot
+export const extractGameState = async (
+  frame: ImageFrame,
+  recognize: TextRecognizer = recognizeWithOcrPool,
+  matcher?: TemplateMatcher
+): Promise<FrameGameState> => (await analyzeFrame(frame, recognize, matcher)).gameState;
+
+// Read the numbers and labels on the HUD, each region by its own workers
+const readHud = async (frame: ImageFrame, recognize: TextRecognizer) => {
+  const [stage, playerLevel, gold, playerHealth, scoutedPlayer, roundPhase, placement] = await Promise.all([
+    detectStage(frame, recognize),
+    detectPlayerLevel(frame, recognize),
+    detectGold(frame, recognize),
+    detectPlayerHealth(frame, recognize),
+    detectScoutedPlayer(frame, recognize),
+    detectRoundPhase(frame, recognize),
+    detectPlacement(frame, recognize),
+  ]);
+  return { stage, playerLevel, gold, playerHealth, scoutedPlayer, roundPhase, placement };
+};
+
+// Crop a HUD region (or a sub-area of it), preprocess it and run it through the recognizer
+const readRegion = async (
+  frame: ImageFrame,
+  region: CaptureRegionName,
+  recognize: TextRecognizer,
+  area: RelativeRegion = CAPTURE_REGIONS[region]
+): Promise<string> => {
+  const cropped = cropRegion(frame, area);
+  const prepared = preprocessForOcr(cropped, OCR_SETTINGS.UPSCALE_FACTOR);
+  const text = await recognize(region, encodePbm(prepared));
+  return text.trim();
+};
+
+// Parse the first number in an OCR result, rejecting values outside [min, max]
+const parseHudNumber = (text: string, min: number, max: number): number | null => {
+  const match = text.match(/\d+/);
+  if (!match) return null;
+
+  const value = parseInt(match[0], 10);
+  return value >= min && value <= max ? value : null;
+};
+
+// Detect units on the board and bench, and items on the item bench
+const matchBoard = async (
+  frame: ImageFrame,
+  matcher: Promise<TemplateMatcher> | TemplateMatcher,
+  warnings: string[]
+): Promise<BoardMatches> => {
+  try {
+    return await (await matcher).matchBoard(frame);
+  } catch (error) {
+    console.error('Error detecting units:', error);
+    warnings.push(`Units and items not detected: ${(error as Error).message}`);
+    return { board: [], bench: [], items: [], augmentIds: [] };
+  }
+};
+
+// Detect the champions on the carousel and the items they hold
+const matchCarousel = async (
+  frame: ImageFrame,
+  matcher: Promise<TemplateMatcher> | TemplateMatcher,
+  warnings: string[]
+): Promise<Unit[]> => {
+  try {
+    return await (await matcher).matchCarousel(frame);
+  } catch (error) {
+    console.error('Error detecting carousel:', error);
+    warnings.push(`Units and items not detected: ${(error as Error).message}`);
+    return [];
+  }
+};
+
+// Detect the current stage, e.g. "3-2"
+const detectStage = async (frame: ImageFrame, recognize: TextRecognizer): Promise<string> => {
+  try {
+    const text = await readRegion(frame, 'STAGE', recognize);
+    const stageMatch = text.match(/([1-9])\s*-\s*([1-7])/);
+    return stageMatch ? `${stageMatch[1]}-${stageMatch[2]}` : '';
+  } catch (error) {
+    console.error('Error detecting stage:', error);
+    return '';
+  }
 };
 
 // Detect player's gold count using OCR
-const detectGold = async (imagePath: string): Promise<number> => {
+const detectGold = async (frame: ImageFrame, recognize: TextRecognizer): Promise<number> => {
   try {
-    const worker = await initTesseract();
-    // Extract the gold region from the image
-    // In a real implementation, this would crop the image to the gold counter region
-    
-    // Perform OCR on the gold region
-    const result = await worker.recognize(imagePath);
-    
-    // Parse the OCR result to extract the gold count
-    const goldText = result.data.text.trim();
-    const goldMatch = goldText.match(/\d+/);
-    
-    if (goldMatch) {
-      return parseInt(goldMatch[0], 10);
-    }
-    
-    return 0;
+    const text = await readRegion(frame, 'GOLD', recognize);
+    return parseHudNumber(text, 0, 999) ?? 0;
   } catch (error) {
     console.error('Error detecting gold:', error);
     return 0;
@@ -122,33 +250,114 @@ const detectGold = async (imagePath: string): Promise<number> => {
 };
 
 // Detect player level
-const detectPlayerLevel = async (imagePath: string): Promise<number> => {
-  // Similar to detectGold, but for player level
-  return 7; // Mock data
+const detectPlayerLevel = async (frame: ImageFrame, recognize: TextRecognizer): Promise<number> => {
+  try {
+    const text = await readRegion(frame, 'LEVEL', recognize);
+    return parseHudNumber(text, 1, 10) ?? 1;
+  } catch (error) {
+    console.error('Error detecting player level:', error);
+    return 1;
+  }
+};
+
+// Detect player health; null when it is unreadable or out of range
+const detectPlayerHealth = async (frame: ImageFrame, recognize: TextRecognizer): Promise<number | null> => {
+  try {
+    const text = await readRegion(frame, 'HEALTH', recognize);
+    return parseHudNumber(text, 0, 100);
+  } catch (error) {
+    console.error('Error detecting player health:', error);
+    return null;
+  }
+};
+
+// Detect whose board is on screen; undefined on the player's own board
+const detectScoutedPlayer = async (frame: ImageFrame, recognize: TextRecognizer): Promise<string | undefined> => {
+  try {
+    return parseScoutedPlayer(await readRegion(frame, 'SCOUTED_PLAYER', recognize));
+  } catch (error) {
+    console.error('Error detecting scouted player:', error);
+    return undefined;
+  }
+};
+
+// Detect whether the round is in planning or combat from the label next to the stage
+const detectRoundPhase = async (frame: ImageFrame, recognize: TextRecognizer): Promise<FrameGameState['roundPhase']> => {
+  try {
+    return parseRoundPhase(await readRegion(frame, 'ROUND_PHASE', recognize));
+  } catch (error) {
+    console.error('Error detecting round phase:', error);
+    return undefined;
+  }
 };
 
-// Detect player health
-const detectPlayerHealth = async (imagePath: string): Promise<number> => {
-  // Similar to detectGold, but for player health
-  return 80; // Mock data
+// Detect the placement shown on the end-of-game screen; undefined during the game
+const detectPlacement = async (frame: ImageFrame, recognize: TextRecognizer): Promise<number | undefined> => {
+  try {
+    return parsePlacement(await readRegion(frame, 'PLACEMENT', recognize));
+  } catch (error) {
+    console.error('Error detecting placement:', error);
+    return undefined;
+  }
 };
 
-// Detect active traits
-const detectTraits = async (imagePath: string, units: Unit[]): Promise<Trait[]> => {
-  // This would analyze the active traits based on the units on the board
-  return []; // Mock data
+// The augments taken, from the ids of their icons
+const toAugments = async (ids: string[]): Promise<Augment[]> => {
+  if (ids.length === 0) return [];
+
+  try {
+    const response = await fetchAugments();
+    const known = response.data ?? [];
+    return ids
+      .map(id => known.find(augment => augment.id === id))
+      .filter((augment): augment is Augment => augment !== undefined);
+  } catch (error) {
+    console.error('Error detecting augments:', error);
+    return [];
+  }
 };
 
-// Detect augments
-const detectAugments = async (imagePath: string): Promise<Augment[]> => {
-  // This would detect the player's augments
-  return []; // Mock data
+// Detect the augments offered during augment selection by reading the card
+// titles and matching them against the known augments. Without a list of
+// augments, the titles are kept as read.
+const detectOfferedAugments = async (frame: ImageFrame, stage: string, recognize: TextRecognizer): Promise<Augment[]> => {
+  if (!isAugmentRound(stage)) {
+    return [];
+  }
+
+  try {
+    const titles = await Promise.all(
+      getAugmentTitleRegions().map(area => readRegion(frame, 'AUGMENTS', recognize, area))
+    );
+
+    // No card titles on screen
+    if (titles.every(title => title === '')) {
+      return [];
+    }
+
+    const response = await fetchAugments();
+    if (!response.success || !response.data || response.data.length === 0) {
+      return augmentsFromTitles(titles);
+    }
+
+    return matchAugmentTitles(titles, response.data);
+  } catch (error) {
+    console.error('Error detecting offered augments:', error);
+    return [];
+  }
 };
 
 // Clean up resources
 export const cleanup = async () => {
-  if (worker) {
-    await worker.terminate();
-    worker = null;
+  const matcher = templateMatcher;
+  templateMatcher = null;
+  atlases = null;
+  if (matcher) {
+    (await matcher.catch(() => null))?.terminate();
+  }
+
+  if (ocrPool) {
+    await ocrPool.terminate();
+    ocrPool = null;
   }
 };
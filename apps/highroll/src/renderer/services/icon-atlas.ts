@@ -0,0 +1,71 @@
+import { UNIT_DETECTION, type IconAtlasName } from '../../shared/constants';
+import {
+  cropRect,
+  decodePng,
+  normalizedCrossCorrelation,
+  resize,
+  type ImageFrame,
+  type PixelRect,
+} from './image-processing';
+import { request } from './ipc';
+
+// Icon templates keyed by id, each resized to TEMPLATE_SIZE x TEMPLATE_SIZE
+export type IconAtlas = Map<string, ImageFrame>;
+
+// Best atlas match for a region of the frame
+export interface IconMatch {
+  id: string;
+  score: number;
+}
+
+// Load the icons of an atlas, read by the main process. Each file is named
+// after the id it represents (e.g. TFT9_Ahri.png); ids without an icon are
+// skipped. Fails when the atlas is missing or has no icon for any of the ids,
+// since nothing could be detected with it.
+export const loadIconAtlas = async (name: IconAtlasName, ids: string[]): Promise<IconAtlas> => {
+  const atlas: IconAtlas = new Map();
+
+  const icons = await request('read-atlas-icons', { atlas: name, ids });
+  if (Object.keys(icons).length === 0) {
+    throw new Error(`The ${name} icon atlas has no icons for the current set`);
+  }
+
+  for (const [id, bytes] of Object.entries(icons)) {
+    const icon = await decodePng(bytes);
+    atlas.set(id, resize(icon, UNIT_DETECTION.TEMPLATE_SIZE, UNIT_DETECTION.TEMPLATE_SIZE));
+  }
+
+  return atlas;
+};
+
+export const isInside = (frame: ImageFrame, rect: PixelRect) =>
+  rect.left >= 0 && rect.top >= 0 && rect.left + rect.width <= frame.width && rect.top + rect.height <= frame.height;
+
+// Find the atlas entry that best matches a region. The region is searched with
+// a small positional jitter to tolerate camera and UI scaling.
+export const matchIcon = (
+  frame: ImageFrame,
+  rect: PixelRect,
+  atlas: IconAtlas,
+  threshold: number
+): IconMatch | null => {
+  const jitter = Math.max(1, Math.round(rect.width * 0.1));
+  let best: IconMatch | null = null;
+
+  for (const dy of [-jitter, 0, jitter]) {
+    for (const dx of [-jitter, 0, jitter]) {
+      const shifted = { ...rect, left: rect.left + dx, top: rect.top + dy };
+      if (!isInside(frame, shifted)) continue;
+
+      const patch = resize(cropRect(frame, shifted), UNIT_DETECTION.TEMPLATE_SIZE, UNIT_DETECTION.TEMPLATE_SIZE);
+      atlas.forEach((template, id) => {
+        const score = normalizedCrossCorrelation(patch, template);
+        if (score >= threshold && (!best || score > best.score)) {
+          best = { id, score };
+        }
+      });
+    }
+  }
+
+  return best;
+};
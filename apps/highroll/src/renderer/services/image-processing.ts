@@ -0,0 +1,373 @@
+// Raw pixel buffer used throughout the vision pipeline.
+// `channels` is 4 for RGBA frames and 1 for grayscale/binary frames.
+export interface ImageFrame {
+  width: number;
+  height: number;
+  channels: 1 | 4;
+  data: Uint8ClampedArray;
+}
+
+// Region expressed as fractions of the frame size (see CAPTURE_REGIONS)
+export interface RelativeRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Region expressed in pixels
+export interface PixelRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Inflate a zlib stream. DecompressionStream is available both in the renderer
+// and in Node 18+, so the same decoder runs in the app and in tests.
+const inflate = async (compressed: Uint8Array<ArrayBuffer>): Promise<Uint8Array> => {
+  const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+};
+
+// Decode an 8-bit, non-interlaced PNG (what Electron's NativeImage.toPNG produces)
+export const decodePng = async (bytes: Uint8Array): Promise<ImageFrame> => {
+  if (!PNG_SIGNATURE.every((value, index) => bytes[index] === value)) {
+    throw new Error('Not a PNG image');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = PNG_SIGNATURE.length;
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  const idatChunks: Uint8Array[] = [];
+
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const body = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      const bitDepth = body[8];
+      colorType = body[9] ?? 0;
+      const interlace = body[12];
+      if (bitDepth !== 8 || interlace !== 0 || ![0, 2, 4, 6].includes(colorType)) {
+        throw new Error(`Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`);
+      }
+    } else if (type === 'IDAT') {
+      idatChunks.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    // length + type + body + crc
+    offset += 12 + length;
+  }
+
+  const compressed = new Uint8Array(idatChunks.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of idatChunks) {
+    compressed.set(chunk, position);
+    position += chunk.length;
+  }
+
+  const raw = await inflate(compressed);
+  const sourceChannels = { 0: 1, 2: 3, 4: 2, 6: 4 }[colorType as 0 | 2 | 4 | 6];
+  const stride = width * sourceChannels;
+  const pixels = new Uint8Array(stride * height);
+
+  // Undo the per-scanline filters
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= sourceChannels ? pixels[out + x - sourceChannels]! : 0;
+      const up = y > 0 ? pixels[out + x - stride]! : 0;
+      const upLeft = y > 0 && x >= sourceChannels ? pixels[out + x - stride - sourceChannels]! : 0;
+      const value = line[x]!;
+
+      switch (filter) {
+        case 0: pixels[out + x] = value; break;
+        case 1: pixels[out + x] = value + left; break;
+        case 2: pixels[out + x] = value + up; break;
+        case 3: pixels[out + x] = value + ((left + up) >> 1); break;
+        case 4: pixels[out + x] = value + paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+    }
+  }
+
+  // Expand to RGBA
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const source = i * sourceChannels;
+    if (sourceChannels === 1 || sourceChannels === 2) {
+      data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = pixels[source]!;
+      data[i * 4 + 3] = sourceChannels === 2 ? pixels[source + 1]! : 255;
+    } else {
+      data[i * 4] = pixels[source]!;
+      data[i * 4 + 1] = pixels[source + 1]!;
+      data[i * 4 + 2] = pixels[source + 2]!;
+      data[i * 4 + 3] = sourceChannels === 4 ? pixels[source + 3]! : 255;
+    }
+  }
+
+  return { width, height, channels: 4, data };
+};
+
+// Convert a relative region to a pixel rectangle clamped to the frame
+export const toPixelRect = (frame: { width: number; height: number }, region: RelativeRegion): PixelRect => {
+  const left = Math.max(0, Math.min(frame.width - 1, Math.round(region.x * frame.width)));
+  const top = Math.max(0, Math.min(frame.height - 1, Math.round(region.y * frame.height)));
+  const width = Math.max(1, Math.min(frame.width - left, Math.round(region.width * frame.width)));
+  const height = Math.max(1, Math.min(frame.height - top, Math.round(region.height * frame.height)));
+  return { left, top, width, height };
+};
+
+// Copy a pixel rectangle out of a frame
+export const cropRect = (frame: ImageFrame, rect: PixelRect): ImageFrame => {
+  const { channels } = frame;
+  const data = new Uint8ClampedArray(rect.width * rect.height * channels);
+
+  for (let y = 0; y < rect.height; y++) {
+    const start = ((rect.top + y) * frame.width + rect.left) * channels;
+    data.set(frame.data.subarray(start, start + rect.width * channels), y * rect.width * channels);
+  }
+
+  return { width: rect.width, height: rect.height, channels, data };
+};
+
+// Crop a relative region, scaled to the frame's actual resolution
+export const cropRegion = (frame: ImageFrame, region: RelativeRegion): ImageFrame =>
+  cropRect(frame, toPixelRect(frame, region));
+
+// Convert to a single luminance channel
+export const toGrayscale = (frame: ImageFrame): ImageFrame => {
+  if (frame.channels === 1) return frame;
+
+  const data = new Uint8ClampedArray(frame.width * frame.height);
+  for (let i = 0; i < data.length; i++) {
+    const r = frame.data[i * 4]!;
+    const g = frame.data[i * 4 + 1]!;
+    const b = frame.data[i * 4 + 2]!;
+    data[i] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+  }
+
+  return { width: frame.width, height: frame.height, channels: 1, data };
+};
+
+// Pick a binarization threshold for a grayscale frame using Otsu's method
+export const otsuThreshold = (frame: ImageFrame): number => {
+  const histogram = new Array<number>(256).fill(0);
+  frame.data.forEach(value => {
+    histogram[value] = histogram[value]! + 1;
+  });
+
+  const total = frame.data.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let backgroundSum = 0;
+  let backgroundWeight = 0;
+  let bestVariance = -1;
+  let best = 127;
+
+  for (let value = 0; value < 256; value++) {
+    backgroundWeight += histogram[value]!;
+    if (backgroundWeight === 0) continue;
+    const foregroundWeight = total - backgroundWeight;
+    if (foregroundWeight === 0) break;
+
+    backgroundSum += value * histogram[value]!;
+    const backgroundMean = backgroundSum / backgroundWeight;
+    const foregroundMean = (sum - backgroundSum) / foregroundWeight;
+    const variance = backgroundWeight * foregroundWeight * (backgroundMean - foregroundMean) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = value;
+    }
+  }
+
+  return best;
+};
+
+// Binarize a grayscale frame. HUD text is bright on a dark background, so by
+// default the result is inverted to dark text on white, which Tesseract prefers.
+export const threshold = (frame: ImageFrame, level = otsuThreshold(frame), invert = true): ImageFrame => {
+  const on = invert ? 0 : 255;
+  const off = invert ? 255 : 0;
+  const data = frame.data.map(value => (value > level ? on : off));
+  return { ...frame, data };
+};
+
+// Nearest-neighbour upscale by an integer factor
+export const upscale = (frame: ImageFrame, factor: number): ImageFrame => {
+  const width = frame.width * factor;
+  const height = frame.height * factor;
+  const { channels } = frame;
+  const data = new Uint8ClampedArray(width * height * channels);
+
+  for (let y = 0; y < height; y++) {
+    const sourceRow = Math.floor(y / factor) * frame.width;
+    for (let x = 0; x < width; x++) {
+      const source = (sourceRow + Math.floor(x / factor)) * channels;
+      const target = (y * width + x) * channels;
+      for (let c = 0; c < channels; c++) {
+        data[target + c] = frame.data[source + c]!;
+      }
+    }
+  }
+
+  return { width, height, channels, data };
+};
+
+// Grayscale, threshold and upscale a region so it is ready for OCR
+export const preprocessForOcr = (frame: ImageFrame, factor: number): ImageFrame =>
+  upscale(threshold(toGrayscale(frame)), factor);
+
+// Encode a binarized frame as PBM (P4), an input format Tesseract reads natively,
+// so no PNG encoder is needed between preprocessing and OCR
+export const encodePbm = (frame: ImageFrame): Uint8Array => {
+  const gray = toGrayscale(frame);
+  const header = new TextEncoder().encode(`P4\n${gray.width} ${gray.height}\n`);
+  const rowBytes = Math.ceil(gray.width / 8);
+  const output = new Uint8Array(header.length + rowBytes * gray.height);
+  output.set(header);
+
+  for (let y = 0; y < gray.height; y++) {
+    for (let x = 0; x < gray.width; x++) {
+      // In PBM a set bit is black
+      if (gray.data[y * gray.width + x]! < 128) {
+        const index = header.length + y * rowBytes + (x >> 3);
+        output[index] = output[index]! | (0x80 >> (x & 7));
+      }
+    }
+  }
+
+  return output;
+};
+
+// Resize a frame to an exact size by averaging the source pixels under each target pixel
+export const resize = (frame: ImageFrame, width: number, height: number): ImageFrame => {
+  const { channels } = frame;
+  const data = new Uint8ClampedArray(width * height * channels);
+  const scaleX = frame.width / width;
+  const scaleY = frame.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor(y * scaleY);
+    const bottom = Math.max(top + 1, Math.floor((y + 1) * scaleY));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor(x * scaleX);
+      const right = Math.max(left + 1, Math.floor((x + 1) * scaleX));
+      const count = (bottom - top) * (right - left);
+
+      for (let c = 0; c < channels; c++) {
+        let sum = 0;
+        for (let sy = top; sy < bottom; sy++) {
+          for (let sx = left; sx < right; sx++) {
+            sum += frame.data[(sy * frame.width + sx) * channels + c]!;
+          }
+        }
+        data[(y * width + x) * channels + c] = Math.round(sum / count);
+      }
+    }
+  }
+
+  return { width, height, channels, data };
+};
+
+// Normalized cross-correlation of two equally sized frames, ignoring alpha.
+// Returns a value in [-1, 1]; flat (featureless) frames score 0.
+export const normalizedCrossCorrelation = (a: ImageFrame, b: ImageFrame): number => {
+  if (a.width !== b.width || a.height !== b.height || a.channels !== b.channels) {
+    throw new Error('Frames must have the same size to be compared');
+  }
+
+  const colorChannels = a.channels === 4 ? 3 : 1;
+  const samples = a.width * a.height * colorChannels;
+  const sample = (frame: ImageFrame, i: number) =>
+    frame.data[Math.floor(i / colorChannels) * frame.channels + (i % colorChannels)]!;
+
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < samples; i++) {
+    meanA += sample(a, i);
+    meanB += sample(b, i);
+  }
+  meanA /= samples;
+  meanB /= samples;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < samples; i++) {
+    const da = sample(a, i) - meanA;
+    const db = sample(b, i) - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+
+  if (varianceA === 0 || varianceB === 0) return 0;
+  return covariance / Math.sqrt(varianceA * varianceB);
+};
+
+// Average RGB color of a frame
+export const averageColor = (frame: ImageFrame): [number, number, number] => {
+  const pixels = frame.width * frame.height;
+  const sums = [0, 0, 0];
+
+  for (let i = 0; i < pixels; i++) {
+    for (let c = 0; c < 3; c++) {
+      sums[c]! += frame.data[i * frame.channels + (frame.channels === 4 ? c : 0)]!;
+    }
+  }
+
+  return [sums[0]! / pixels, sums[1]! / pixels, sums[2]! / pixels];
+};
+
+// Mean absolute difference of two equally sized frames, per channel value
+// (0 for identical frames, up to 255)
+export const meanAbsoluteDifference = (a: ImageFrame, b: ImageFrame): number => {
+  if (a.width !== b.width || a.height !== b.height || a.channels !== b.channels) {
+    throw new Error('Frames must have the same size to be compared');
+  }
+
+  let sum = 0;
+  for (let i = 0; i < a.data.length; i++) {
+    sum += Math.abs(a.data[i]! - b.data[i]!);
+  }
+  return a.data.length > 0 ? sum / a.data.length : 0;
+};
+
+// Share of channel values that differ by at least minDelta between two equally
+// sized frames (0 to 1). Unlike the mean, a few changed digits in a small
+// region are not averaged away.
+export const changedPixelRatio = (a: ImageFrame, b: ImageFrame, minDelta: number): number => {
+  if (a.width !== b.width || a.height !== b.height || a.channels !== b.channels) {
+    throw new Error('Frames must have the same size to be compared');
+  }
+
+  let changed = 0;
+  for (let i = 0; i < a.data.length; i++) {
+    if (Math.abs(a.data[i]! - b.data[i]!) >= minDelta) changed++;
+  }
+  return a.data.length > 0 ? changed / a.data.length : 0;
+};
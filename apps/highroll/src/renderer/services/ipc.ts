@@ -0,0 +1,57 @@
+import type { ApiResponse } from '../../shared/types';
+import type {
+  IpcChannel,
+  IpcData,
+  IpcDataChannel,
+  IpcReceiveEvents,
+  IpcRequest,
+  IpcResponse,
+  IpcSendEvents,
+} from '../../shared/ipc';
+
+// What the preload script (src/main/preload.js) exposes to the renderer. The
+// wrappers below type the payloads by channel.
+export interface IpcBridge {
+  invoke: (channel: string, payload?: unknown) => Promise<unknown>;
+  send: (channel: string, payload?: unknown) => void;
+  on: (channel: string, listener: (payload: unknown) => void) => () => void;
+}
+
+declare global {
+  interface Window {
+    highroll: IpcBridge;
+  }
+}
+
+// Channels without a request take no payload argument, and the payload of
+// channels that accept undefined is optional
+type PayloadArgs<P> = [P] extends [void] ? [] : undefined extends P ? [payload?: P] : [payload: P];
+
+// Call a main-process handler
+export const invoke = <C extends IpcChannel>(
+  channel: C,
+  ...[payload]: PayloadArgs<IpcRequest<C>>
+): Promise<IpcResponse<C>> => window.highroll.invoke(channel, payload) as Promise<IpcResponse<C>>;
+
+// Send a message to the main process without waiting for an answer
+export const send = <C extends keyof IpcSendEvents>(channel: C, payload: IpcSendEvents[C]) =>
+  window.highroll.send(channel, payload);
+
+// Listen to messages from the main process, returning the function that stops listening
+export const subscribe = <C extends keyof IpcReceiveEvents>(
+  channel: C,
+  listener: (payload: IpcReceiveEvents[C]) => void
+): (() => void) => window.highroll.on(channel, payload => listener(payload as IpcReceiveEvents[C]));
+
+// Call a handler answering with an ApiResponse, unwrapping its data. Throws the
+// error the main process reported.
+export const request = async <C extends IpcDataChannel>(
+  channel: C,
+  ...args: PayloadArgs<IpcRequest<C>>
+): Promise<IpcData<C>> => {
+  const response = (await invoke(channel, ...args)) as ApiResponse<IpcData<C>>;
+  if (!response.success) {
+    throw new Error(response.error || `${channel} failed`);
+  }
+  return response.data!;
+};
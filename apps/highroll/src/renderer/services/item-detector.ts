@@ -0,0 +1,76 @@
+import type { Item } from '../../shared/types';
+import { CAPTURE_REGIONS, ICON_ATLASES, ITEM_DETECTION } from '../../shared/constants';
+import { getItem, getItems } from '../../shared/set-data';
+import { toPixelRect, type ImageFrame, type PixelRect } from './image-processing';
+import { loadIconAtlas, matchIcon, type IconAtlas, type IconMatch } from './icon-atlas';
+
+// Load the item icons of the current set
+export const loadItemAtlas = (): Promise<IconAtlas> =>
+  loadIconAtlas(ICON_ATLASES.ITEMS, getItems().map(item => item.id));
+
+// Icon rectangles on the item bench, top to bottom then left to right
+export const getItemBenchSlots = (frame: { width: number; height: number }): PixelRect[] => {
+  const bench = toPixelRect(frame, CAPTURE_REGIONS.ITEM_BENCH);
+  const slotWidth = bench.width / ITEM_DETECTION.BENCH_COLUMNS;
+  const slotHeight = bench.height / ITEM_DETECTION.BENCH_ROWS;
+  const size = Math.max(1, Math.round(ITEM_DETECTION.BENCH_ICON_SIZE * frame.height));
+  const slots: PixelRect[] = [];
+
+  for (let col = 0; col < ITEM_DETECTION.BENCH_COLUMNS; col++) {
+    for (let row = 0; row < ITEM_DETECTION.BENCH_ROWS; row++) {
+      slots.push({
+        left: Math.round(bench.left + (col + 0.5) * slotWidth - size / 2),
+        top: Math.round(bench.top + (row + 0.5) * slotHeight - size / 2),
+        width: size,
+        height: size,
+      });
+    }
+  }
+
+  return slots;
+};
+
+// Icon rectangles in the row of items shown under a unit's portrait
+export const getUnitItemRects = (frame: { width: number; height: number }, portrait: PixelRect): PixelRect[] => {
+  const size = Math.max(1, Math.round(ITEM_DETECTION.UNIT_ICON_SIZE * frame.height));
+  const left = Math.round(portrait.left + portrait.width / 2 - (size * ITEM_DETECTION.MAX_ITEMS_PER_UNIT) / 2);
+
+  return Array.from({ length: ITEM_DETECTION.MAX_ITEMS_PER_UNIT }, (_, index) => ({
+    left: left + index * size,
+    top: portrait.top + portrait.height,
+    width: size,
+    height: size,
+  }));
+};
+
+// Build an Item from an atlas match, carrying the match score as confidence
+const toItem = (match: IconMatch): Item | null => {
+  const data = getItem(match.id);
+  if (!data) return null;
+
+  return {
+    id: data.id,
+    name: data.name,
+    type: data.type,
+    components: data.components ? [...data.components] : undefined,
+    confidence: Math.round(Math.min(1, match.score) * 100) / 100,
+  };
+};
+
+// Recognize the item icon in each rectangle, skipping empty slots
+export const detectItemsInRects = (frame: ImageFrame, rects: PixelRect[], atlas: IconAtlas): Item[] => {
+  if (atlas.size === 0) return [];
+
+  return rects
+    .map(rect => matchIcon(frame, rect, atlas, ITEM_DETECTION.MATCH_THRESHOLD))
+    .map(match => (match ? toItem(match) : null))
+    .filter((item): item is Item => item !== null);
+};
+
+// Items waiting on the item bench
+export const detectBenchItems = (frame: ImageFrame, atlas: IconAtlas): Item[] =>
+  detectItemsInRects(frame, getItemBenchSlots(frame), atlas);
+
+// Items equipped on the unit whose portrait is at the given rectangle
+export const detectUnitItems = (frame: ImageFrame, portrait: PixelRect, atlas: IconAtlas): Item[] =>
+  detectItemsInRects(frame, getUnitItemRects(frame, portrait), atlas);
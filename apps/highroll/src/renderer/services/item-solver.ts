@@ -0,0 +1,208 @@
+import type { GameState, Item, ItemData, TeamComp } from '../../shared/types';
+import { ITEM_DETECTION, ITEM_SOLVER, ITEM_TYPES } from '../../shared/constants';
+import { getChampion, getItem, getItemFromComponents, getItems } from '../../shared/set-data';
+
+// A completed item a comp wants on one of its units
+interface ItemCandidate {
+  item: ItemData;
+  holder: string;
+  comp: string;
+  value: number;
+  owned: boolean; // Whether the holder is on the board or bench
+}
+
+// A completed item to build from two held components
+export interface ItemBuild {
+  item: ItemData;
+  components: [Item, Item];
+  holder: string;
+  comp: string;
+  value: number;
+  action: 'slam' | 'hold';
+  reason: string;
+}
+
+// The best use of the held components: items to build and components to keep
+export interface ItemPlan {
+  builds: ItemBuild[];
+  spare: Item[];
+  value: number;
+}
+
+// One cell of the recipe grid
+export interface RecipeCell {
+  item: ItemData | undefined;
+  held: boolean; // Whether both components are on the item bench
+  planned: boolean; // Whether the plan builds this item
+}
+
+// A completed item ranked by how the champion places with it
+export interface ItemAlternative {
+  item: Item;
+  avgPlacement: number;
+  games: number;
+}
+
+// Completed items each comp wants, valued by the comp's rank, the holder's
+// priority and the item's place in the holder's list. Items the holder
+// already carries are left out.
+const findCandidates = (gameState: GameState, comps: TeamComp[]): ItemCandidate[] => {
+  const owned = [...gameState.units, ...gameState.bench];
+  const candidates = new Map<string, ItemCandidate>();
+
+  comps.forEach((comp, compIndex) => {
+    const compWeight = ITEM_SOLVER.COMP_WEIGHTS[compIndex] ?? 0;
+
+    comp.units.forEach(compUnit => {
+      const holder = owned.find(unit => unit.name === compUnit.name);
+
+      (compUnit.items || []).forEach((recommended, itemIndex) => {
+        const item = (recommended.id && getItem(recommended.id)) || getItem(recommended.name);
+        if (!item || !item.components || holder?.items.some(held => held.id === item.id)) return;
+
+        const value =
+          (compWeight / Math.max(1, compUnit.priority)) *
+          (ITEM_SOLVER.BIS_ORDER[itemIndex] ?? 0) *
+          (holder ? ITEM_SOLVER.OWNED_HOLDER_BONUS : 1);
+        const key = `${compUnit.name}:${item.id}`;
+        if (value > (candidates.get(key)?.value ?? 0)) {
+          candidates.set(key, { item, holder: compUnit.name, comp: comp.name, value, owned: !!holder });
+        }
+      });
+    });
+  });
+
+  return [...candidates.values()].sort((a, b) => b.value - a.value);
+};
+
+// Items a holder can still take, counting those already on the unit
+const freeSlots = (gameState: GameState, holder: string): number => {
+  const unit = gameState.units.find(unit => unit.name === holder);
+  return ITEM_DETECTION.MAX_ITEMS_PER_UNIT - (unit?.items.length || 0);
+};
+
+interface Allocation {
+  builds: { candidate: ItemCandidate; components: [Item, Item] }[];
+  spare: Item[];
+  value: number;
+}
+
+// Exhaustive search over the pairings of the remaining components. The first
+// component is either kept or combined with each distinct partner, the
+// completed item going to the most valuable candidate still free.
+const allocate = (
+  components: Item[],
+  candidates: ItemCandidate[],
+  used: Set<ItemCandidate>,
+  slots: Map<string, number>
+): Allocation => {
+  if (components.length === 0) return { builds: [], spare: [], value: 0 };
+
+  const [first, ...rest] = components;
+  const kept = allocate(rest, candidates, used, slots);
+  let best: Allocation = { ...kept, spare: [first!, ...kept.spare] };
+
+  rest.forEach((partner, index) => {
+    if (rest.findIndex(other => other.id === partner.id) !== index) return;
+
+    const item = getItemFromComponents(first!.id, partner.id);
+    const candidate =
+      item && candidates.find(c => c.item.id === item.id && !used.has(c) && (slots.get(c.holder) ?? 0) > 0);
+    if (!candidate) return;
+
+    used.add(candidate);
+    slots.set(candidate.holder, slots.get(candidate.holder)! - 1);
+    const next = allocate([...rest.slice(0, index), ...rest.slice(index + 1)], candidates, used, slots);
+    slots.set(candidate.holder, slots.get(candidate.holder)! + 1);
+    used.delete(candidate);
+
+    if (next.value + candidate.value > best.value) {
+      best = {
+        builds: [{ candidate, components: [first!, partner] }, ...next.builds],
+        spare: next.spare,
+        value: next.value + candidate.value,
+      };
+    }
+  });
+
+  return best;
+};
+
+// Slam items whose holder is on the board; otherwise hold the components
+// unless health is too low to wait
+const decideAction = (gameState: GameState, candidate: ItemCandidate): Pick<ItemBuild, 'action' | 'reason'> => {
+  if (candidate.owned) {
+    return { action: 'slam', reason: `${candidate.holder} is already on your board` };
+  }
+  if (gameState.playerHealth !== null && gameState.playerHealth <= ITEM_SOLVER.SLAM_HEALTH) {
+    return { action: 'slam', reason: `Slam on a temporary holder for ${candidate.holder} to save health` };
+  }
+  return { action: 'hold', reason: `Hold the components until you find ${candidate.holder}` };
+};
+
+// Assign the components on the item bench to the completed items and holders
+// that add the most to the recommended comps, best comp first
+export const solveItems = (gameState: GameState, comps: TeamComp[]): ItemPlan => {
+  const components = gameState.items
+    .filter(item => item.type === ITEM_TYPES.BASIC)
+    .slice(0, ITEM_SOLVER.MAX_COMPONENTS);
+  const candidates = findCandidates(gameState, comps);
+  const slots = new Map(candidates.map(candidate => [candidate.holder, freeSlots(gameState, candidate.holder)]));
+
+  const allocation = allocate(components, candidates, new Set(), slots);
+
+  return {
+    builds: allocation.builds
+      .map(({ candidate, components }) => ({
+        item: candidate.item,
+        components,
+        holder: candidate.holder,
+        comp: candidate.comp,
+        value: candidate.value,
+        ...decideAction(gameState, candidate),
+      }))
+      .sort((a, b) => b.value - a.value),
+    spare: allocation.spare,
+    value: allocation.value,
+  };
+};
+
+// Components of the set, in the order of the recipe grid
+export const getRecipeComponents = (): ItemData[] => getItems().filter(item => item.type === ITEM_TYPES.BASIC);
+
+// Completed item for every pair of components, marking the pairs the player
+// holds and the items the plan builds
+export const buildRecipeGrid = (gameState: GameState, plan: ItemPlan): RecipeCell[][] => {
+  const held = gameState.items.filter(item => item.type === ITEM_TYPES.BASIC);
+  const count = (id: string) => held.filter(item => item.id === id).length;
+  const components = getRecipeComponents();
+
+  return components.map(row =>
+    components.map(col => {
+      const item = getItemFromComponents(row.id, col.id);
+      return {
+        item,
+        held: row.id === col.id ? count(row.id) >= 2 : count(row.id) > 0 && count(col.id) > 0,
+        planned: !!item && plan.builds.some(build => build.item.id === item.id),
+      };
+    })
+  );
+};
+
+// Completed items a champion places best with, from the per-champion item
+// performance. Items played in too few games and those in the exclude list,
+// e.g. the champion's recommended items, are left out.
+export const rankItemAlternatives = (champion: string, items: Item[], exclude: string[] = []): ItemAlternative[] => {
+  const championId = getChampion(champion)?.id || champion;
+
+  return items
+    .filter(item => item.type !== ITEM_TYPES.BASIC && !exclude.includes(item.id) && !exclude.includes(item.name))
+    .flatMap(item => {
+      const performance = item.performance?.find(entry => entry.champion === championId);
+      return performance && performance.games >= ITEM_SOLVER.MIN_GAMES
+        ? [{ item, avgPlacement: performance.avgPlacement, games: performance.games }]
+        : [];
+    })
+    .sort((a, b) => a.avgPlacement - b.avgPlacement)
+    .slice(0, ITEM_SOLVER.ALTERNATIVES);
+};
@@ -0,0 +1,56 @@
+import type { ContestedUnit, OpponentBoard, TeamComp, Unit } from '../../shared/types';
+import { ANALYSIS, SCOUTING } from '../../shared/constants';
+
+// An active trait and the opponents playing it
+export interface LobbyTrait {
+  name: string;
+  opponents: string[];
+}
+
+// Copies of a champion among units; a 2★ counts as 3
+const countCopies = (units: Unit[], champion: string): number =>
+  units
+    .filter(unit => unit.name === champion)
+    .reduce((copies, unit) => copies + 3 ** (Math.max(1, unit.tier) - 1), 0);
+
+// Name of the player whose board is on screen, read from the nameplate. The
+// nameplate only shows on other boards, so short or empty readings mean the
+// capture shows the player's own board.
+export const parseScoutedPlayer = (text: string): string | undefined => {
+  const name = text.replace(/\s+/g, ' ').trim();
+  return name.length >= SCOUTING.MIN_NAME_LENGTH ? name : undefined;
+};
+
+// Add a scouted board to the lobby, replacing the opponent's previous one
+export const updateLobby = (opponents: OpponentBoard[], board: OpponentBoard): OpponentBoard[] => [
+  ...opponents.filter(opponent => opponent.name !== board.name),
+  board,
+];
+
+// Core units of a comp that opponents are holding
+export const getContestedUnits = (comp: TeamComp, opponents: OpponentBoard[]): ContestedUnit[] =>
+  comp.units
+    .filter(unit => unit.priority <= ANALYSIS.CORE_PRIORITY)
+    .map(unit => {
+      const holders = opponents.filter(opponent => opponent.units.some(held => held.name === unit.name));
+      return {
+        name: unit.name,
+        copies: holders.reduce((copies, opponent) => copies + countCopies(opponent.units, unit.name), 0),
+        opponents: holders.map(opponent => opponent.name),
+      };
+    })
+    .filter(contested => contested.copies > 0);
+
+// Active traits across the lobby, most played first
+export const getLobbyTraits = (opponents: OpponentBoard[]): LobbyTrait[] => {
+  const players = new Map<string, string[]>();
+  opponents.forEach(opponent => {
+    opponent.traits
+      .filter(trait => trait.active)
+      .forEach(trait => players.set(trait.name, [...(players.get(trait.name) || []), opponent.name]));
+  });
+
+  return [...players]
+    .map(([name, opponents]) => ({ name, opponents }))
+    .sort((a, b) => b.opponents.length - a.opponents.length || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,127 @@
+import type {
+  ApiResponse,
+  GameEvent,
+  GameState,
+  MatchDetails,
+  MatchQuery,
+  MatchRecord,
+  MatchResult,
+} from '../../shared/types';
+import { ITEM_TYPES, MATCH_HISTORY } from '../../shared/constants';
+import { compareStages, parseStage } from './stage-tracker';
+import { calculateTraits } from './trait-engine';
+import { fetchTeamComps } from './data-api';
+import { identifyFinalComp } from './evaluation';
+import { invoke } from './ipc';
+
+// Match currently being recorded
+let currentMatchId: number | null = null;
+let currentOpener: string | undefined;
+
+// Match history is stored by the main process
+export const startMatch = (startedAt: number): Promise<ApiResponse<number>> =>
+  invoke('start-match', startedAt);
+
+export const recordRoundSnapshot = (
+  matchId: number,
+  stage: string,
+  gameState: GameState,
+  capturedAt: number
+): Promise<ApiResponse<void>> => invoke('record-round-snapshot', { matchId, stage, gameState, capturedAt });
+
+export const finishMatch = (matchId: number, result: MatchResult): Promise<ApiResponse<void>> =>
+  invoke('finish-match', { matchId, result });
+
+export const setMatchPlacement = (matchId: number, placement: number): Promise<ApiResponse<void>> =>
+  invoke('set-match-placement', { matchId, placement });
+
+export const queryMatches = (query: MatchQuery = {}): Promise<ApiResponse<MatchRecord[]>> =>
+  invoke('query-matches', query);
+
+export const getMatch = (matchId: number): Promise<ApiResponse<MatchDetails | null>> =>
+  invoke('get-match', matchId);
+
+// Completed items held on the board, bench and item bench
+export const getBuiltItems = (gameState: GameState): string[] =>
+  [...gameState.items, ...gameState.units.flatMap(unit => unit.items), ...gameState.bench.flatMap(unit => unit.items)]
+    .filter(item => item.type !== ITEM_TYPES.BASIC)
+    .map(item => item.id);
+
+// The opener is named after the top active trait on the board
+export const getOpener = (gameState: GameState): string | undefined =>
+  calculateTraits(gameState.units).find(trait => trait.active)?.name;
+
+// The comp the player fielded: the known comp sharing the most units with the
+// final board, undefined when none of them match it
+const identifyPlayedComp = async (gameState: GameState) => {
+  const response = await fetchTeamComps();
+  if (!response.success || !response.data) {
+    console.error('Error identifying the comp played:', response.error);
+    return undefined;
+  }
+  return identifyFinalComp(gameState, response.data);
+};
+
+// Record how a match ended. The placement is the one on the end-of-game
+// screen; a game left without it is stored unplaced for the player to fill in.
+const endMatch = async (matchId: number, gameState: GameState, endedAt: number, finalStage: string): Promise<void> => {
+  const comp = await identifyPlayedComp(gameState);
+  await finishMatch(matchId, {
+    endedAt,
+    placement: gameState.placement,
+    finalStage,
+    compId: comp?.id,
+    compName: comp?.name,
+    opener: currentOpener,
+    augments: gameState.augments.map(augment => augment.name),
+    items: getBuiltItems(gameState),
+  });
+};
+
+// Record the match in progress from the events of a capture: a snapshot of
+// each round as it ends, and the result when the game ends
+export const recordMatchProgress = async (
+  events: GameEvent[],
+  previous: GameState | null,
+  gameState: GameState
+): Promise<void> => {
+  for (const event of events) {
+    if (event.type === 'round_started') {
+      const matchId = currentMatchId;
+
+      if (matchId !== null && previous && event.previousStage) {
+        await recordRoundSnapshot(matchId, event.previousStage, previous, event.timestamp);
+
+        // A round earlier than the last one means the last game was left
+        // without the end being captured
+        if ((compareStages(event.stage, event.previousStage) ?? 0) < 0) {
+          await endMatch(matchId, previous, event.timestamp, event.previousStage);
+          currentMatchId = null;
+          currentOpener = undefined;
+        } else if (!currentOpener && (parseStage(event.stage)?.stage || 0) >= MATCH_HISTORY.OPENER_STAGE) {
+          currentOpener = getOpener(previous);
+        }
+      }
+
+      if (currentMatchId === null) {
+        const response = await startMatch(event.timestamp);
+        if (response.success && response.data !== undefined) {
+          currentMatchId = response.data;
+        } else {
+          console.error('Error starting match:', response.error);
+        }
+      }
+    } else if (event.type === 'game_ended' && currentMatchId !== null) {
+      await recordRoundSnapshot(currentMatchId, event.finalStage, gameState, event.timestamp);
+      await endMatch(currentMatchId, gameState, event.timestamp, event.finalStage);
+      currentMatchId = null;
+      currentOpener = undefined;
+    }
+  }
+};
+
+// Forget the match in progress
+export const resetMatchRecorder = () => {
+  currentMatchId = null;
+  currentOpener = undefined;
+};
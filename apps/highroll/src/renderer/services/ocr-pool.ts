@@ -0,0 +1,70 @@
+import * as Tesseract from 'tesseract.js';
+import { OCR_SETTINGS, type CaptureRegionName } from '../../shared/constants';
+
+// Reads the text in a preprocessed HUD region (encoded as PBM). Injectable so
+// parsing can be tested with scripted OCR output instead of Tesseract.
+export type TextRecognizer = (region: CaptureRegionName, image: Uint8Array) => Promise<string>;
+
+// Tesseract workers for OCR, started per region on first use
+export interface OcrPool {
+  recognize: TextRecognizer;
+  terminate: () => Promise<void>;
+}
+
+// Characters that can appear in each region; augment titles, player names and
+// the phase and placement labels are free text
+const getWhitelist = (region: CaptureRegionName): string => {
+  if (region === 'STAGE') return OCR_SETTINGS.STAGE_WHITELIST;
+  if (['AUGMENTS', 'SCOUTED_PLAYER', 'ROUND_PHASE', 'PLACEMENT'].includes(region)) return '';
+  return OCR_SETTINGS.DIGIT_WHITELIST;
+};
+
+// Start the workers of a region, restricted once to the characters that can
+// appear there
+const createRegionScheduler = async (region: CaptureRegionName): Promise<Tesseract.Scheduler> => {
+  const scheduler = Tesseract.createScheduler();
+  const count = OCR_SETTINGS.WORKERS_PER_REGION[region] ?? 1;
+
+  for (let i = 0; i < count; i++) {
+    const worker = await Tesseract.createWorker('eng');
+    await worker.setParameters({
+      tessedit_pageseg_mode: Tesseract.PSM.SINGLE_LINE,
+      tessedit_char_whitelist: getWhitelist(region),
+    });
+    scheduler.addWorker(worker);
+  }
+
+  return scheduler;
+};
+
+// Each region gets its own workers, so regions are read in parallel. Tesseract
+// runs every worker in a Web Worker, off the renderer thread.
+export const createOcrPool = (): OcrPool => {
+  const schedulers = new Map<CaptureRegionName, Promise<Tesseract.Scheduler>>();
+
+  const getScheduler = (region: CaptureRegionName) => {
+    let scheduler = schedulers.get(region);
+    if (!scheduler) {
+      // Retry on the next read when the workers fail to start
+      scheduler = createRegionScheduler(region).catch(error => {
+        schedulers.delete(region);
+        throw error;
+      });
+      schedulers.set(region, scheduler);
+    }
+    return scheduler;
+  };
+
+  return {
+    recognize: async (region, image) => {
+      const scheduler = await getScheduler(region);
+      const result = await scheduler.addJob('recognize', new Blob([image as Uint8Array<ArrayBuffer>]));
+      return result.data.text;
+    },
+    terminate: async () => {
+      const started = [...schedulers.values()];
+      schedulers.clear();
+      await Promise.all(started.map(async scheduler => (await scheduler).terminate()));
+    },
+  };
+};
@@ -0,0 +1,122 @@
+import type { GameState } from '../../shared/types';
+import { SHOP } from '../../shared/constants';
+import { getChampionsPerCost, getPoolSizes, getShopOdds } from '../../shared/set-data';
+
+// The champion being rolled for and what is known about the pool
+export interface RollTarget {
+  cost: number;
+  level: number;
+  copiesOwned: number; // Copies on the player's board and bench; a 2★ counts as 3
+  copiesOut: number; // Copies held by other players
+  tierCopiesOut?: number; // Other champions of the same cost held by anyone
+}
+
+// Chances for one star level
+export interface RollOdds {
+  copiesNeeded: number;
+  probability: number; // 0-1, of hitting within the given gold
+  expectedGold: number; // Gold spent on average to hit with unlimited gold, Infinity if it cannot be hit
+}
+
+// Shop odds (%) of each cost at a player level
+export const getRollChancesByLevel = (level: number): Record<number, number> =>
+  getShopOdds()[Math.min(9, Math.max(1, level))]!;
+
+// Copies still missing for a star level
+export const getCopiesNeeded = (target: RollTarget, stars: number): number =>
+  Math.max(0, (SHOP.COPIES_PER_STAR[stars] || 0) - target.copiesOwned);
+
+// Chance that a single shop slot shows the target after buying `bought` more copies
+export const getSlotHitChance = (target: RollTarget, bought = 0): number => {
+  const costChance = (getRollChancesByLevel(target.level)[target.cost] || 0) / 100;
+  const poolSize = getPoolSizes()[target.cost] || 0;
+  const taken = target.copiesOwned + target.copiesOut + bought;
+
+  const remaining = poolSize - taken;
+  const tierRemaining = poolSize * (getChampionsPerCost()[target.cost] || 0) - taken - (target.tierCopiesOut || 0);
+  if (remaining <= 0 || tierRemaining <= 0) return 0;
+
+  return (costChance * remaining) / tierRemaining;
+};
+
+const binomial = (n: number, k: number, p: number): number => {
+  let coefficient = 1;
+  for (let i = 1; i <= k; i++) {
+    coefficient = (coefficient * (n - i + 1)) / i;
+  }
+  return coefficient * p ** k * (1 - p) ** (n - k);
+};
+
+// Distribution of target copies shown in one shop. Slots are treated as
+// independent draws, which slightly overstates multiple hits in one shop.
+const getShopDistribution = (target: RollTarget, bought: number): number[] => {
+  const p = getSlotHitChance(target, bought);
+  return Array.from({ length: SHOP.SLOTS + 1 }, (_, hits) => binomial(SHOP.SLOTS, hits, p));
+};
+
+// Probability of reaching a star level within the given gold, rolling and
+// buying every copy seen until the gold runs out
+export const probabilityToHit = (target: RollTarget, stars: number, gold: number): number => {
+  const needed = getCopiesNeeded(target, stars);
+  if (needed === 0) return 1;
+
+  // Probability of having bought each number of copies so far
+  let distribution: number[] = Array.from({ length: needed }, (_, bought) => (bought === 0 ? 1 : 0));
+  let hit = 0;
+
+  for (let rolls = 1; distribution.some(probability => probability > 0); rolls++) {
+    const next = new Array<number>(needed).fill(0);
+
+    distribution.forEach((probability, bought) => {
+      const goldLeft = gold - rolls * SHOP.ROLL_COST - bought * target.cost;
+      if (probability === 0 || goldLeft < 0) return;
+
+      const affordable = Math.floor(goldLeft / target.cost);
+      getShopDistribution(target, bought).forEach((shopChance, shown) => {
+        const total = bought + Math.min(shown, affordable);
+        if (total >= needed) {
+          hit += probability * shopChance;
+        } else {
+          next[total]! += probability * shopChance;
+        }
+      });
+    });
+
+    distribution = next;
+  }
+
+  return Math.min(1, hit);
+};
+
+// Expected gold spent rolling and buying until a star level is reached
+export const expectedGoldToHit = (target: RollTarget, stars: number): number => {
+  const needed = getCopiesNeeded(target, stars);
+
+  // Expected rolls from each number of copies bought, worked backwards
+  const expectedRolls = new Array<number>(needed + 1).fill(0);
+  for (let bought = needed - 1; bought >= 0; bought--) {
+    const shop = getShopDistribution(target, bought);
+    if (shop[0]! >= 1) return Infinity;
+
+    let rolls = 1;
+    for (let shown = 1; shown < shop.length; shown++) {
+      rolls += shop[shown]! * expectedRolls[Math.min(needed, bought + shown)]!;
+    }
+    expectedRolls[bought] = rolls / (1 - shop[0]!);
+  }
+
+  return expectedRolls[0]! * SHOP.ROLL_COST + needed * target.cost;
+};
+
+// Odds of hitting a star level within the given gold
+export const calculateRollOdds = (target: RollTarget, stars: number, gold: number): RollOdds => ({
+  copiesNeeded: getCopiesNeeded(target, stars),
+  probability: probabilityToHit(target, stars, gold),
+  expectedGold: expectedGoldToHit(target, stars),
+});
+
+// Copies of a champion on the board and bench
+export const countOwnedCopies = (gameState: GameState, championName: string): number =>
+  [...gameState.units, ...gameState.bench]
+    .filter(unit => unit.name === championName)
+    .reduce((copies, unit) => copies + 3 ** (Math.max(1, unit.tier) - 1), 0);
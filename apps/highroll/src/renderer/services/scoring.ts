@@ -0,0 +1,97 @@
+import type {
+  GameState,
+  OpponentBoard,
+  ScoreBreakdown,
+  ScoringFactor,
+  ScoringWeights,
+  TeamComp,
+} from '../../shared/types';
+import { getChampion } from '../../shared/set-data';
+import { getContestedUnits } from './lobby';
+import { getRollChancesByLevel } from './roll-calculator';
+
+// What a comp is scored against
+export interface ScoringContext {
+  gameState: GameState;
+  opponents: OpponentBoard[];
+}
+
+// A named factor of a comp's score. Scorers return an unweighted value that
+// is multiplied by the factor's weight from the settings.
+export interface Scorer {
+  factor: ScoringFactor;
+  name: string;
+  score: (context: ScoringContext, comp: TeamComp) => number;
+}
+
+// Comp units already on the board
+const scoreUnits = ({ gameState }: ScoringContext, comp: TeamComp): number =>
+  comp.units.filter(compUnit => gameState.units.some(unit => unit.name === compUnit.name)).length;
+
+// Stars above 1 on the comp units on the board
+const scoreStars = ({ gameState }: ScoringContext, comp: TeamComp): number =>
+  comp.units.reduce((stars, compUnit) => {
+    const unit = gameState.units.find(unit => unit.name === compUnit.name);
+    return unit ? stars + unit.tier - 1 : stars;
+  }, 0);
+
+// Units counted towards the comp's traits that are already active
+const scoreTraits = ({ gameState }: ScoringContext, comp: TeamComp): number =>
+  comp.traits.reduce((count, compTrait) => {
+    const trait = gameState.traits.find(trait => trait.name === compTrait.name);
+    return trait && trait.active ? count + trait.count : count;
+  }, 0);
+
+// Recommended items already on their holders
+const scoreItems = ({ gameState }: ScoringContext, comp: TeamComp): number =>
+  comp.units.reduce((count, compUnit) => {
+    const unit = gameState.units.find(unit => unit.name === compUnit.name);
+    if (!unit) return count;
+    return count + unit.items.filter(item => compUnit.items?.some(recommended => recommended.name === item.name)).length;
+  }, 0);
+
+// How easily the missing units show up in the shop: the average odds (0-1)
+// of their costs at the current level, 1 when nothing is missing
+const scoreFeasibility = ({ gameState }: ScoringContext, comp: TeamComp): number => {
+  const owned = [...gameState.units, ...gameState.bench];
+  const odds = getRollChancesByLevel(gameState.playerLevel);
+  const missingCosts = comp.units
+    .filter(compUnit => !owned.some(unit => unit.name === compUnit.name))
+    .map(compUnit => getChampion(compUnit.name)?.cost)
+    .filter((cost): cost is number => cost !== undefined);
+
+  if (missingCosts.length === 0) return 1;
+  return missingCosts.reduce((sum, cost) => sum + (odds[cost] || 0) / 100, 0) / missingCosts.length;
+};
+
+// Copies of the comp's core units held by opponents, negative since they
+// count against the comp
+const scoreContested = ({ opponents }: ScoringContext, comp: TeamComp): number =>
+  getContestedUnits(comp, opponents).reduce((value, unit) => value - unit.copies, 0);
+
+// Factors in the order they are explained
+export const SCORERS: Scorer[] = [
+  { factor: 'units', name: 'Units on board', score: scoreUnits },
+  { factor: 'stars', name: 'Star levels', score: scoreStars },
+  { factor: 'traits', name: 'Active traits', score: scoreTraits },
+  { factor: 'items', name: 'Items built', score: scoreItems },
+  { factor: 'feasibility', name: 'Shop odds', score: scoreFeasibility },
+  { factor: 'contested', name: 'Contested units', score: scoreContested },
+];
+
+// Score a comp factor by factor
+export const explainScore = (
+  context: ScoringContext,
+  comp: TeamComp,
+  weights: ScoringWeights,
+  scorers: Scorer[] = SCORERS
+): ScoreBreakdown[] =>
+  scorers.map(scorer => {
+    const value = scorer.score(context, comp);
+    const weight = weights[scorer.factor] ?? 0;
+    return { factor: scorer.factor, name: scorer.name, value, weight, score: value * weight };
+  });
+
+// Total of a score breakdown
+export const sumBreakdown = (breakdown: ScoreBreakdown[]): number =>
+  breakdown.reduce((total, factor) => total + factor.score, 0);
@@ -0,0 +1,152 @@
+import type { CaptureSource, DebugCaptureOptions } from '../../shared/ipc';
+import { VISION_PIPELINE } from '../../shared/constants';
+import type { ImageFrame } from './image-processing';
+import { invoke } from './ipc';
+
+// A live capture of one window or screen
+export interface CaptureStream {
+  source: CaptureSource;
+  grab: () => ImageFrame; // The current frame, as RGBA pixels
+  encodePng: () => Promise<Uint8Array>; // The last grabbed frame
+  isLive: () => boolean; // False once the window closed
+  close: () => void;
+}
+
+// Stream being captured, opened on the first capture and kept open
+let stream: Promise<CaptureStream> | null = null;
+// When the capture source was last looked up, see getStream
+let sourceCheckedAt = 0;
+// Whether to send frames to the main process to keep for debugging
+let keepDebugFrames = false;
+
+// Chromium's constraints for capturing a desktop source, capped at the
+// display's native size
+const desktopConstraints = (source: CaptureSource) => ({
+  audio: false,
+  video: {
+    mandatory: {
+      chromeMediaSource: 'desktop',
+      chromeMediaSourceId: source.id,
+      maxWidth: source.width,
+      maxHeight: source.height,
+    },
+  },
+});
+
+// Stream the source into a video element and read frames through a canvas
+export const openCaptureStream = async (source: CaptureSource): Promise<CaptureStream> => {
+  const media = await navigator.mediaDevices.getUserMedia(desktopConstraints(source) as MediaStreamConstraints);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.srcObject = media;
+  await video.play();
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    media.getTracks().forEach(track => track.stop());
+    throw new Error('Canvas 2D context not available');
+  }
+
+  return {
+    source,
+    grab: () => {
+      if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+      }
+      context.drawImage(video, 0, 0);
+      const { width, height, data } = context.getImageData(0, 0, canvas.width, canvas.height);
+      return { width, height, channels: 4, data };
+    },
+    encodePng: () =>
+      new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+          if (!blob) {
+            reject(new Error('Could not encode the frame'));
+            return;
+          }
+          blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+        }, 'image/png');
+      }),
+    isLive: () => media.getVideoTracks().some(track => track.readyState === 'live'),
+    close: () => {
+      media.getTracks().forEach(track => track.stop());
+      video.srcObject = null;
+    },
+  };
+};
+
+const findCaptureSource = async (): Promise<CaptureSource> => {
+  const response = await invoke('find-capture-source');
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'No capture source');
+  }
+  return response.data;
+};
+
+// Stop capturing; the next capture looks the source up again
+export const closeCaptureStream = () => {
+  const closing = stream;
+  stream = null;
+  closing?.then(
+    current => current.close(),
+    () => {}
+  );
+};
+
+// The open stream, reopened once it has ended (e.g. the game was closed).
+// While the primary screen is captured instead of the game window, the source
+// is looked up again every SOURCE_RECHECK_INTERVAL in case the game started.
+const getStream = async (open: (source: CaptureSource) => Promise<CaptureStream>): Promise<CaptureStream> => {
+  if (stream) {
+    const current = await stream;
+    const recheck = !current.source.gameWindow && Date.now() - sourceCheckedAt >= VISION_PIPELINE.SOURCE_RECHECK_INTERVAL;
+    if (current.isLive() && !recheck) {
+      return current;
+    }
+
+    if (current.isLive()) {
+      sourceCheckedAt = Date.now();
+      const source = await findCaptureSource();
+      if (source.id === current.source.id) {
+        return current;
+      }
+    }
+    closeCaptureStream();
+  }
+
+  sourceCheckedAt = Date.now();
+  stream = findCaptureSource().then(open);
+  return stream;
+};
+
+// Capture the TFT window, returning null when capturing fails
+export const captureFrame = async (
+  open: (source: CaptureSource) => Promise<CaptureStream> = openCaptureStream
+): Promise<ImageFrame | null> => {
+  try {
+    const current = await getStream(open);
+    const frame = current.grab();
+
+    if (keepDebugFrames) {
+      const capturedAt = Date.now();
+      current
+        .encodePng()
+        .then(png => invoke('save-debug-frame', { png, capturedAt }))
+        .catch(error => console.error('Error saving debug frame:', error));
+    }
+    return frame;
+  } catch (error) {
+    console.error('Screen capture failed:', error);
+    closeCaptureStream();
+    return null;
+  }
+};
+
+// Keep the last captures on disk for debugging, see src/main/capture.js
+export const setDebugCapture = async (options: DebugCaptureOptions): Promise<DebugCaptureOptions> => {
+  const applied = await invoke('set-debug-capture', options);
+  keepDebugFrames = applied.enabled;
+  return applied;
+};
@@ -0,0 +1,223 @@
+import type { FrameGameState, GameEvent, GamePhase, GameState, Item } from '../../shared/types';
+import { STAGE_TRACKING } from '../../shared/constants';
+import { getItem } from '../../shared/set-data';
+
+// A parsed stage string, e.g. "3-2" is stage 3, round 2
+export interface ParsedStage {
+  stage: number;
+  round: number;
+}
+
+// What the tracker remembers between captures
+export interface StageTrackerState {
+  stage: string; // Last readable stage
+  phase: GamePhase | null;
+  roundStartedAt: number; // Timestamp of the first capture of the current round
+  roundLostHealth: boolean; // Whether health was lost during the current round
+  streak: number; // See GameState.streak
+  nextEventId: number;
+}
+
+// An event before the tracker stamps it with an id, stage and timestamp
+type GameEventPayload<E = GameEvent> = E extends GameEvent ? Omit<E, 'id' | 'stage' | 'timestamp'> : never;
+
+export const initialTrackerState: StageTrackerState = {
+  stage: '',
+  phase: null,
+  roundStartedAt: 0,
+  roundLostHealth: false,
+  streak: 0,
+  nextEventId: 1,
+};
+
+// Parse a HUD stage string, returning null when it is unreadable
+export const parseStage = (stage: string): ParsedStage | null => {
+  const match = stage.match(/^(\d+)-(\d+)$/);
+  if (!match) return null;
+  return { stage: Number(match[1]), round: Number(match[2]) };
+};
+
+// Order two stages: negative when `a` comes first, positive when it comes
+// later, null when either is unreadable
+export const compareStages = (a: string, b: string): number | null => {
+  const left = parseStage(a);
+  const right = parseStage(b);
+  if (!left || !right) return null;
+  return left.stage - right.stage || left.round - right.round;
+};
+
+// Whether the round is a shared carousel: the opening round, then one per stage
+export const isCarouselRound = (stage: string): boolean => {
+  const parsed = parseStage(stage);
+  if (!parsed) return false;
+  return parsed.stage === 1 ? parsed.round === 1 : parsed.round === STAGE_TRACKING.CAROUSEL_ROUND;
+};
+
+// Whether the round is fought against another player. Stage 1, the carousels
+// and each stage's monster round are not, and leave the streak as it is.
+export const isPvpRound = (stage: string): boolean => {
+  const parsed = parseStage(stage);
+  if (!parsed || parsed.stage === 1) return false;
+  return parsed.round !== STAGE_TRACKING.CAROUSEL_ROUND && parsed.round !== STAGE_TRACKING.PVE_ROUND;
+};
+
+// The streak after a PvP round: a round where health was lost is a loss
+export const extendStreak = (streak: number, lost: boolean): number => {
+  if (lost) return streak < 0 ? streak - 1 : -1;
+  return streak > 0 ? streak + 1 : 1;
+};
+
+// Read the phase label next to the stage, tolerating OCR misreads of the
+// letters that follow
+export const parseRoundPhase = (text: string): GameState['roundPhase'] => {
+  const label = text.toLowerCase();
+  if (label.includes('plan')) return 'planning';
+  if (label.includes('combat')) return 'combat';
+  return undefined;
+};
+
+// Read the placement on the end-of-game screen, e.g. "1st" or "4th Place"
+export const parsePlacement = (text: string): number | undefined => {
+  const match = text.match(/\b([1-8])\s*(st|nd|rd|th)\b/i);
+  return match ? Number(match[1]) : undefined;
+};
+
+// Work out the phase of the round from what is on screen: the end-of-game
+// screen, the augment cards, the carousel, then the phase label. While the
+// label is unreadable the round stays in its current phase.
+export const detectPhase = (gameState: FrameGameState, current: 'planning' | 'combat'): GamePhase => {
+  if (gameState.placement !== undefined) return 'game_end';
+  if (gameState.offeredAugments.length > 0) return 'augment_selection';
+  if (isCarouselRound(gameState.stage)) return 'carousel';
+  return gameState.roundPhase ?? current;
+};
+
+// Copies of each champion owned on the board and bench; a 2-star counts as 3
+// copies so that starring up is not mistaken for buying or selling
+const countCopies = (gameState: FrameGameState): Map<string, number> => {
+  const copies = new Map<string, number>();
+  [...gameState.units, ...gameState.bench].forEach(unit => {
+    copies.set(unit.name, (copies.get(unit.name) || 0) + 3 ** (Math.max(1, unit.tier) - 1));
+  });
+  return copies;
+};
+
+// Items held on the item bench and by units, by id
+const countItems = (gameState: FrameGameState): Map<string, number> => {
+  const items = new Map<string, number>();
+  const add = (item: Item) => items.set(item.id, (items.get(item.id) || 0) + 1);
+  gameState.items.forEach(add);
+  [...gameState.units, ...gameState.bench].forEach(unit => unit.items.forEach(add));
+  return items;
+};
+
+// Compare what a player owns between two captures
+const diffOwnership = (previous: FrameGameState, next: FrameGameState): GameEventPayload[] => {
+  const events: GameEventPayload[] = [];
+
+  // Units bought and sold
+  const before = countCopies(previous);
+  const after = countCopies(next);
+  new Set([...before.keys(), ...after.keys()]).forEach(champion => {
+    const change = (after.get(champion) || 0) - (before.get(champion) || 0);
+    if (change > 0) {
+      events.push({ type: 'unit_bought', champion, copies: change });
+    } else if (change < 0) {
+      events.push({ type: 'unit_sold', champion, copies: -change });
+    }
+  });
+
+  // Items combined: a new item appears while its components disappear
+  const itemsBefore = countItems(previous);
+  const itemsAfter = countItems(next);
+  const consumed = new Map<string, number>();
+  itemsBefore.forEach((count, id) => {
+    const lost = count - (itemsAfter.get(id) || 0);
+    if (lost > 0) consumed.set(id, lost);
+  });
+
+  itemsAfter.forEach((count, id) => {
+    const components = getItem(id)?.components;
+    if (!components) return;
+
+    for (let gained = count - (itemsBefore.get(id) || 0); gained > 0; gained--) {
+      const needed = new Map<string, number>();
+      components.forEach(component => needed.set(component, (needed.get(component) || 0) + 1));
+
+      const available = [...needed].every(([component, amount]) => (consumed.get(component) || 0) >= amount);
+      if (!available) break;
+
+      needed.forEach((amount, component) => consumed.set(component, consumed.get(component)! - amount));
+      events.push({ type: 'item_combined', item: id, components });
+    }
+  });
+
+  return events;
+};
+
+// Advance the tracker with a new capture and list what changed since the
+// previous one
+export const trackGameState = (
+  tracker: StageTrackerState,
+  previous: FrameGameState | null,
+  next: FrameGameState,
+  timestamp: number
+): { tracker: StageTrackerState; events: GameEvent[] } => {
+  const payloads: GameEventPayload[] = [];
+
+  // A new round starts whenever a readable stage differs from the last one
+  const stage = parseStage(next.stage) ? next.stage : tracker.stage;
+  const roundChanged = stage !== tracker.stage;
+  const roundStartedAt = roundChanged || tracker.roundStartedAt === 0 ? timestamp : tracker.roundStartedAt;
+  if (roundChanged) {
+    payloads.push({ type: 'round_started', previousStage: tracker.stage });
+  }
+
+  // Rounds open with planning. The game stays over until a new one starts.
+  const phase =
+    tracker.phase === 'game_end' && !roundChanged
+      ? 'game_end'
+      : detectPhase(next, !roundChanged && tracker.phase === 'combat' ? 'combat' : 'planning');
+  if (phase !== tracker.phase) {
+    payloads.push({ type: 'phase_changed', from: tracker.phase, to: phase });
+    if (phase === 'game_end') {
+      payloads.push({ type: 'game_ended', finalStage: stage });
+    }
+  }
+
+  let lostHealth = false;
+  if (previous) {
+    if (next.playerLevel > previous.playerLevel) {
+      payloads.push({ type: 'level_up', from: previous.playerLevel, to: next.playerLevel });
+    }
+    if (next.playerHealth !== null && previous.playerHealth !== null && next.playerHealth < previous.playerHealth) {
+      payloads.push({ type: 'hp_lost', amount: previous.playerHealth - next.playerHealth, remaining: next.playerHealth });
+      lostHealth = true;
+    }
+    payloads.push(...diffOwnership(previous, next));
+  }
+
+  // Damage is dealt at the end of combat, so health lost by the first capture
+  // of a round was lost in the round before. A new game starts without a streak.
+  let { streak, roundLostHealth } = tracker;
+  if (roundChanged) {
+    if (isPvpRound(tracker.stage)) {
+      streak = extendStreak(streak, roundLostHealth || lostHealth);
+    }
+    if (parseStage(stage)?.stage === 1) {
+      streak = 0;
+    }
+    roundLostHealth = false;
+  } else {
+    roundLostHealth = roundLostHealth || lostHealth;
+  }
+
+  const events = payloads.map(
+    (payload, index) => ({ ...payload, id: tracker.nextEventId + index, stage, timestamp }) as GameEvent
+  );
+
+  return {
+    tracker: { stage, phase, roundStartedAt, roundLostHealth, streak, nextEventId: tracker.nextEventId + events.length },
+    events,
+  };
+};
@@ -0,0 +1,134 @@
+import type { Item, Unit } from '../../shared/types';
+import type { ImageFrame } from './image-processing';
+import type { IconAtlas } from './icon-atlas';
+import { detectUnitsInFrame } from './unit-detector';
+import { detectBenchItems } from './item-detector';
+import { detectCarouselInFrame } from './carousel-detector';
+import { detectChosenAugments } from './augment-detector';
+
+// Champion portraits, item and augment icons to look for
+export interface IconAtlases {
+  championAtlas: IconAtlas;
+  itemAtlas: IconAtlas;
+  augmentAtlas: IconAtlas; // Empty when the augment icons could not be loaded
+}
+
+// Units and items found on the player's board, bench and item bench, and the
+// augments the player has taken
+export interface BoardMatches {
+  board: Unit[];
+  bench: Unit[];
+  items: Item[];
+  augmentIds: string[];
+}
+
+// Finds atlas icons in a frame
+export interface TemplateMatcher {
+  matchBoard: (frame: ImageFrame) => Promise<BoardMatches>;
+  matchCarousel: (frame: ImageFrame) => Promise<Unit[]>;
+  terminate: () => void;
+}
+
+// Messages to and from the vision worker (src/renderer/vision.worker.ts)
+export type VisionWorkerRequest =
+  | { type: 'atlases'; atlases: IconAtlases }
+  | { type: 'board' | 'carousel'; id: number; frame: ImageFrame };
+
+// What a board or carousel request is answered with
+export type VisionWorkerResult = BoardMatches | Unit[];
+
+export interface VisionWorkerResponse {
+  id: number;
+  result?: VisionWorkerResult;
+  error?: string;
+}
+
+export const matchBoard = (frame: ImageFrame, atlases: IconAtlases): BoardMatches => {
+  // Items equipped on units are detected together with the units themselves
+  const { board, bench } = detectUnitsInFrame(frame, atlases.championAtlas, atlases.itemAtlas);
+  return {
+    board,
+    bench,
+    items: detectBenchItems(frame, atlases.itemAtlas),
+    augmentIds: detectChosenAugments(frame, atlases.augmentAtlas),
+  };
+};
+
+export const matchCarousel = (frame: ImageFrame, atlases: IconAtlases): Unit[] =>
+  detectCarouselInFrame(frame, atlases.championAtlas, atlases.itemAtlas);
+
+// Match in the calling thread, where Web Workers are not available
+export const createLocalMatcher = (atlases: IconAtlases): TemplateMatcher => ({
+  matchBoard: async frame => matchBoard(frame, atlases),
+  matchCarousel: async frame => matchCarousel(frame, atlases),
+  terminate: () => {},
+});
+
+// The worker's side: keeps the atlases it was sent and answers match requests
+export const createVisionRequestHandler = () => {
+  let atlases: IconAtlases | null = null;
+
+  return (request: VisionWorkerRequest): VisionWorkerResponse | null => {
+    if (request.type === 'atlases') {
+      atlases = request.atlases;
+      return null;
+    }
+
+    if (!atlases) {
+      return { id: request.id, error: 'Icon atlases not loaded' };
+    }
+
+    try {
+      const result = request.type === 'board' ? matchBoard(request.frame, atlases) : matchCarousel(request.frame, atlases);
+      return { id: request.id, result };
+    } catch (error) {
+      return { id: request.id, error: (error as Error).message };
+    }
+  };
+};
+
+// Match in a Web Worker running the vision worker, so template matching does
+// not block the renderer thread. The atlases are sent once; frames are copied
+// to the worker since OCR reads them at the same time.
+export const createWorkerMatcher = (worker: Worker, atlases: IconAtlases): TemplateMatcher => {
+  const pending = new Map<number, { resolve: (result: VisionWorkerResult) => void; reject: (error: Error) => void }>();
+  let nextId = 1;
+
+  const rejectPending = (error: Error) => {
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  };
+
+  worker.addEventListener('message', (event: MessageEvent<VisionWorkerResponse>) => {
+    const { id, result, error } = event.data;
+    const request = pending.get(id);
+    if (!request) return;
+
+    pending.delete(id);
+    if (error) {
+      request.reject(new Error(error));
+    } else {
+      request.resolve(result!);
+    }
+  });
+  worker.addEventListener('error', (event: ErrorEvent) => rejectPending(new Error(event.message)));
+
+  const post = <T extends VisionWorkerResult>(type: 'board' | 'carousel', frame: ImageFrame): Promise<T> =>
+    new Promise((resolve, reject) => {
+      const id = nextId++;
+      // The worker answers board requests with BoardMatches and carousel requests with units
+      pending.set(id, { resolve: result => resolve(result as T), reject });
+      worker.postMessage({ type, id, frame } satisfies VisionWorkerRequest);
+    });
+
+  worker.postMessage({ type: 'atlases', atlases } satisfies VisionWorkerRequest);
+
+  return {
+    matchBoard: frame => post<BoardMatches>('board', frame),
+    matchCarousel: frame => post<Unit[]>('carousel', frame),
+    terminate: () => {
+      worker.terminate();
+      rejectPending(new Error('Vision worker terminated'));
+    },
+  };
+};
@@ -1,14 +1,35 @@
 import { TeamComp, ApiResponse } from '../../shared/types';
+import { getSetData, registerSetData } from '../../shared/set-data';
+import { isRecord, normalizeTeamComp, readList } from './comp-normalizer';
+import { request } from './ipc';
 
 // Constants
-const TFT_SCRAPER_API_URL = process.env.TFT_SCRAPER_API_URL || 'http://localhost:3000/api';
 const STORAGE_KEYS = {
-  LAST_UPDATE: 'tft_data_last_update',
-  COMPOSITIONS_CACHE: 'tft_compositions_cache'
+  SET_DATA_CACHE: 'tft_set_data_cache'
 };
 
+// What the scraper reports about itself
+export interface ScraperStatus {
+  status: string;
+  lastUpdate: string | null;
+  patchVersion: string | null;
+  compositionCount: number;
+  nextScheduledRun: string | null;
+}
+
+const isStringOrNull = (value: unknown) => value === null || typeof value === 'string';
+
+const isScraperStatus = (data: unknown): data is ScraperStatus =>
+  isRecord(data) &&
+  typeof data.status === 'string' &&
+  typeof data.compositionCount === 'number' &&
+  isStringOrNull(data.lastUpdate) &&
+  isStringOrNull(data.patchVersion) &&
+  isStringOrNull(data.nextScheduledRun);
+
 /**
- * Fetch team compositions from the TFT composition scraper service
+ * Fetch team compositions from the TFT composition scraper service. Caching
+ * is left to data-api, which uses the scraper as one of its data sources.
  * @param options Optional parameters for filtering and sorting
  * @returns Promise with the team compositions
  */
@@ -21,81 +42,18 @@ export const fetchTeamCompositions = async (options: {
   limit?: number;
 } = {}): Promise<ApiResponse<TeamComp[]>> => {
   try {
-    // Check if we need to refresh the data
-    const lastUpdate = localStorage.getItem(STORAGE_KEYS.LAST_UPDATE);
-    const now = Date.now();
-
-    // If data is fresh (less than 24 hours old), use cached data
-    if (lastUpdate && now - parseInt(lastUpdate, 10) < 24 * 60 * 60 * 1000) {
-      const cachedData = localStorage.getItem(STORAGE_KEYS.COMPOSITIONS_CACHE);
-      if (cachedData) {
-        return { success: true, data: JSON.parse(cachedData) };
-      }
-    }
-
-    // Fetch fresh data from the TFT composition scraper service
-    const response = await fetch(`${TFT_SCRAPER_API_URL}/compositions`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(options)
-    });
-
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    // Transform API data to our format
-    const teamComps: TeamComp[] = data.compositions.map((comp: any) => ({
-      id: comp.id,
-      name: comp.name,
-      tier: comp.tier || 'S',
-      units: comp.units.map((unit: any) => ({
-        name: unit.name,
-        cost: unit.cost || 1,
-        starLevel: unit.starLevel || 1,
-        items: unit.items?.map((item: any) => ({
-          name: item.name,
-          id: item.id || item.name.toLowerCase().replace(/[^a-z0-9]/g, '_')
-        })) || []
-      })),
-      traits: comp.traits.map((trait: any) => ({
-        name: trait.name,
-        activeLevel: trait.activeLevel || 1,
-        totalLevel: trait.totalLevel || 1
-      })),
-      augments: comp.augments?.map((augment: any) => ({
-        name: augment.name,
-        id: augment.id || augment.name.toLowerCase().replace(/[^a-z0-9]/g, '_')
-      })) || [],
-      items: comp.items?.map((item: any) => ({
-        name: item.name,
-        id: item.id || item.name.toLowerCase().replace(/[^a-z0-9]/g, '_')
-      })) || [],
-      placement: comp.stats?.averagePlacement || 4.5,
-      winRate: comp.stats?.winPercentage || 0,
-      playRate: comp.stats?.playRate || 0,
-      difficulty: comp.playstyle?.difficulty || 'Medium',
-      teamPlannerCode: comp.teamPlannerCode || ''
-    }));
-
-    // Cache the data
-    localStorage.setItem(STORAGE_KEYS.COMPOSITIONS_CACHE, JSON.stringify(teamComps));
-    localStorage.setItem(STORAGE_KEYS.LAST_UPDATE, now.toString());
-
-    return { success: true, data: teamComps };
+    const query = new URLSearchParams(
+      Object.entries(options)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, String(value)])
+    ).toString();
+    // The scraper is called from the main process, which knows its URL
+    const data = await request('fetch-scraper', { endpoint: `/compositions${query ? `?${query}` : ''}` });
+
+    return { success: true, data: readList(data, 'compositions').map(normalizeTeamComp) };
   } catch (error) {
     console.error('Error fetching team compositions:', error);
 
-    // Try to get data from cache as fallback
-    const cachedData = localStorage.getItem(STORAGE_KEYS.COMPOSITIONS_CACHE);
-    if (cachedData) {
-      return { success: true, data: JSON.parse(cachedData) };
-    }
-
     return {
       success: false,
       error: `Failed to fetch team compositions: ${(error as Error).message}`
@@ -110,49 +68,11 @@ export const fetchTeamCompositions = async (options: {
  */
 export const searchTeamCompositions = async (query: string): Promise<ApiResponse<TeamComp[]>> => {
   try {
-    const response = await fetch(`${TFT_SCRAPER_API_URL}/compositions/search?q=${encodeURIComponent(query)}`);
-
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}`);
-    }
+    const data = await request('fetch-scraper', {
+      endpoint: `/compositions/search?q=${encodeURIComponent(query)}`,
+    });
 
-    const data = await response.json();
-
-    // Transform API data to our format (same as fetchTeamCompositions)
-    const teamComps: TeamComp[] = data.compositions.map((comp: any) => ({
-      id: comp.id,
-      name: comp.name,
-      tier: comp.tier || 'S',
-      units: comp.units.map((unit: any) => ({
-        name: unit.name,
-        cost: unit.cost || 1,
-        starLevel: unit.starLevel || 1,
-        items: unit.items?.map((item: any) => ({
-          name: item.name,
-          id: item.id || item.name.toLowerCase().replace(/[^a-z0-9]/g, '_')
-        })) || []
-      })),
-      traits: comp.traits.map((trait: any) => ({
-        name: trait.name,
-        activeLevel: trait.activeLevel || 1,
-        totalLevel: trait.totalLevel || 1
-      })),
-      augments: comp.augments?.map((augment: any) => ({
-        name: augment.name,
-        id: augment.id || augment.name.toLowerCase().replace(/[^a-z0-9]/g, '_')
-      })) || [],
-      items: comp.items?.map((item: any) => ({
-        name: item.name,
-        id: item.id || item.name.toLowerCase().replace(/[^a-z0-9]/g, '_')
-      })) || [],
-      placement: comp.stats?.averagePlacement || 4.5,
-      winRate: comp.stats?.winPercentage || 0,
-      playRate: comp.stats?.playRate || 0,
-      difficulty: comp.playstyle?.difficulty || 'Medium',
-      teamPlannerCode: comp.teamPlannerCode || ''
-    }));
-
-    return { success: true, data: teamComps };
+    return { success: true, data: readList(data, 'compositions').map(normalizeTeamComp) };
   } catch (error) {
     console.error('Error searching team compositions:', error);
 
@@ -169,16 +89,11 @@ export const searchTeamCompositions = async (query: string): Promise<ApiResponse
  */
 export const triggerScraper = async (): Promise<ApiResponse<{ message: string; count: number }>> => {
   try {
-    const response = await fetch(`${TFT_SCRAPER_API_URL}/scrape`, {
-      method: 'POST'
-    });
-
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}`);
+    const data = await request('fetch-scraper', { endpoint: '/scrape', method: 'POST' });
+    if (!isRecord(data) || typeof data.message !== 'string' || typeof data.count !== 'number') {
+      throw new Error('Unexpected response from the scraper');
     }
 
-    const data = await response.json();
-
     return { success: true, data: { message: data.message, count: data.count } };
   } catch (error) {
     console.error('Error triggering scraper:', error);
@@ -194,22 +109,13 @@ export const triggerScraper = async (): Promise<ApiResponse<{ message: string; c
  * Get the status of the scraper service
  * @returns Promise with the status
  */
-export const getScraperStatus = async (): Promise<ApiResponse<{
-  status: string;
-  lastUpdate: string | null;
-  patchVersion: string | null;
-  compositionCount: number;
-  nextScheduledRun: string | null;
-}>> => {
+export const getScraperStatus = async (): Promise<ApiResponse<ScraperStatus>> => {
   try {
-    const response = await fetch(`${TFT_SCRAPER_API_URL}/status`);
-
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}`);
+    const data = await request('fetch-scraper', { endpoint: '/status' });
+    if (!isScraperStatus(data)) {
+      throw new Error('Unexpected status from the scraper');
     }
 
-    const data = await response.json();
-
     return { success: true, data };
   } catch (error) {
     console.error('Error getting scraper status:', error);
@@ -219,4 +125,50 @@ export const getScraperStatus = async (): Promise<ApiResponse<{
       error: `Failed to get scraper status: ${(error as Error).message}`
     };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Fetch the set data the scraper last collected. It becomes the data every
+ * lookup resolves against when it is newer than the current version.
+ * @returns Promise with the set and patch now in use
+ */
+export const fetchSetData = async (): Promise<ApiResponse<{ set: number; patch: string }>> => {
+  try {
+    const data = await request('fetch-scraper', { endpoint: '/set-data' });
+    if (!isRecord(data)) {
+      throw new Error('Set data is not an object');
+    }
+
+    // The scraper does not collect shop odds, pool sizes or XP; those carry
+    // over from the version in use
+    const { poolSizes, championsPerCost, shopOdds, xpToLevel } = getSetData();
+    const setData = registerSetData({ poolSizes, championsPerCost, shopOdds, xpToLevel, ...data });
+    localStorage.setItem(STORAGE_KEYS.SET_DATA_CACHE, JSON.stringify(setData));
+
+    const { set, patch } = getSetData();
+    return { success: true, data: { set, patch } };
+  } catch (error) {
+    console.error('Error fetching set data:', error);
+
+    return {
+      success: false,
+      error: `Failed to fetch set data: ${(error as Error).message}`
+    };
+  }
+};
+
+/**
+ * Register the set data saved by the last successful fetch, so it is used
+ * before the scraper answers or when it is offline
+ */
+export const loadCachedSetData = (): void => {
+  const cachedData = localStorage.getItem(STORAGE_KEYS.SET_DATA_CACHE);
+  if (!cachedData) return;
+
+  try {
+    registerSetData(JSON.parse(cachedData));
+  } catch (error) {
+    console.error('Discarding invalid cached set data:', error);
+    localStorage.removeItem(STORAGE_KEYS.SET_DATA_CACHE);
+  }
+};
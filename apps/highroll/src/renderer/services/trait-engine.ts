@@ -0,0 +1,89 @@
+import type { Trait } from '../../shared/types';
+import { TRAIT_THRESHOLDS } from '../../shared/constants';
+import { getChampion, getItem, getTrait } from '../../shared/set-data';
+
+// Anything that can stand on a board: detected Units as well as the
+// RecommendedUnits of a planned comp, which only carry a name and items
+export interface TraitUnit {
+  id?: string;
+  name: string;
+  traits?: string[];
+  items?: Array<{ id: string; name: string }>;
+}
+
+// Style shown for traits below their first breakpoint
+export const INACTIVE_TRAIT_STYLE = 'none';
+
+// Display order of trait styles, strongest last
+const STYLE_ORDER = [
+  INACTIVE_TRAIT_STYLE,
+  TRAIT_THRESHOLDS.BRONZE,
+  TRAIT_THRESHOLDS.SILVER,
+  TRAIT_THRESHOLDS.GOLD,
+  TRAIT_THRESHOLDS.PLATINUM,
+  TRAIT_THRESHOLDS.CHROMATIC,
+];
+
+// Traits a unit contributes: its own (from the unit or set data) plus any
+// granted by emblems it holds
+const getUnitTraits = (unit: TraitUnit): Set<string> => {
+  const champion = getChampion(unit.id || unit.name);
+  const traits = new Set(unit.traits && unit.traits.length > 0 ? unit.traits : champion?.traits || []);
+
+  unit.items?.forEach(item => {
+    const trait = getItem(item.id)?.trait || getItem(item.name)?.trait;
+    if (trait) {
+      traits.add(trait);
+    }
+  });
+
+  return traits;
+};
+
+// Calculate the traits of a board. Each champion counts once per trait no
+// matter how many copies are fielded, as in game.
+export const calculateTraits = (units: TraitUnit[]): Trait[] => {
+  const championsByTrait = new Map<string, Set<string>>();
+
+  units.forEach(unit => {
+    const championKey = getChampion(unit.id || unit.name)?.id || unit.name;
+    getUnitTraits(unit).forEach(trait => {
+      const champions = championsByTrait.get(trait) || new Set<string>();
+      champions.add(championKey);
+      championsByTrait.set(trait, champions);
+    });
+  });
+
+  const traits: Trait[] = [];
+
+  championsByTrait.forEach((champions, name) => {
+    const data = getTrait(name);
+    const count = champions.size;
+    const breakpoints = data?.breakpoints || [];
+    const reached = breakpoints.filter(breakpoint => count >= breakpoint.minUnits);
+    const current = reached[reached.length - 1];
+
+    traits.push({
+      id: data?.id || name,
+      name: data?.name || name,
+      count,
+      active: current !== undefined,
+      style: current?.style || INACTIVE_TRAIT_STYLE,
+      effects: breakpoints.map(({ minUnits, description }) => ({ minUnits, description })),
+    });
+  });
+
+  // Active traits first, strongest style first, then by count
+  return traits.sort((a, b) =>
+    Number(b.active) - Number(a.active) ||
+    STYLE_ORDER.indexOf(b.style) - STYLE_ORDER.indexOf(a.style) ||
+    b.count - a.count ||
+    a.name.localeCompare(b.name)
+  );
+};
+
+// Units needed to reach the next breakpoint of a trait, or null at the top
+export const unitsToNextBreakpoint = (trait: Trait): number | null => {
+  const next = getTrait(trait.id)?.breakpoints.find(breakpoint => breakpoint.minUnits > trait.count);
+  return next ? next.minUnits - trait.count : null;
+};
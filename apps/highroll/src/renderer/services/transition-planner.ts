@@ -0,0 +1,147 @@
+import type {
+  GameState,
+  Item,
+  ItemData,
+  RecommendedUnit,
+  TeamComp,
+  TransitionPath,
+  TransitionStep,
+  Unit,
+} from '../../shared/types';
+import { ANALYSIS, ECONOMY, ITEM_TYPES } from '../../shared/constants';
+import { getChampion, getItem } from '../../shared/set-data';
+
+const starLabel = (unit: Unit) => (unit.tier > 1 ? ` (${unit.tier}★)` : '');
+
+const costLabel = (name: string) => {
+  const champion = getChampion(name);
+  return champion ? ` (${champion.cost}g)` : '';
+};
+
+// Resolve a recommended item to the set data, by id or name
+const resolveItem = (item: { id?: string; name: string }): ItemData | undefined =>
+  (item.id && getItem(item.id)) || getItem(item.name);
+
+const sameItem = (held: Item, item: ItemData) => held.id === item.id || held.name === item.name;
+
+// Remove one item from a pool, returning whether it was there
+const takeItem = (pool: Item[], id: string): boolean => {
+  const index = pool.findIndex(item => item.id === id);
+  if (index === -1) return false;
+  pool.splice(index, 1);
+  return true;
+};
+
+// Item steps: completed items on the bench go on their holders first, then
+// recommended items that can be built from the components on the bench
+const planItems = (gameState: GameState, compUnits: RecommendedUnit[], owned: Unit[]): TransitionStep[] => {
+  const steps: TransitionStep[] = [];
+  const completed = gameState.items.filter(item => item.type !== ITEM_TYPES.BASIC);
+  const components = gameState.items.filter(item => item.type === ITEM_TYPES.BASIC);
+
+  compUnits.forEach(compUnit => {
+    const holder = owned.find(unit => unit.name === compUnit.name);
+    const target = holder ? compUnit.name : `a temporary holder for ${compUnit.name}`;
+
+    (compUnit.items || []).forEach(recommended => {
+      const item = resolveItem(recommended);
+      if (!item || holder?.items.some(held => sameItem(held, item))) return;
+
+      if (takeItem(completed, item.id)) {
+        steps.push({
+          type: 'item',
+          description: `Put ${item.name} on ${target}`,
+          champion: compUnit.name,
+          item: item.id,
+        });
+        return;
+      }
+
+      const recipe = item.components || [];
+      const available = [...components];
+      if (recipe.length > 0 && recipe.every(component => takeItem(available, component))) {
+        components.splice(0, components.length, ...available);
+        const names = recipe.map(component => getItem(component)?.name || component).join(' + ');
+        steps.push({
+          type: 'item',
+          description: `Slam ${item.name} (${names}) on ${target}`,
+          champion: compUnit.name,
+          item: item.id,
+        });
+      }
+    });
+  });
+
+  return steps;
+};
+
+// Plan the steps from the current board to a comp: units to keep, sell and
+// buy, items to slam, and the level to pivot at
+export const planTransition = (gameState: GameState, comp: TeamComp): TransitionPath => {
+  const compUnits = [...comp.units].sort((a, b) => a.priority - b.priority);
+  const compNames = new Set(compUnits.map(unit => unit.name));
+  const owned = [...gameState.units, ...gameState.bench];
+  const ownedNames = new Set(owned.map(unit => unit.name));
+
+  const steps: TransitionStep[] = [];
+
+  // Units already in the comp, best copy of each
+  const kept = new Map<string, Unit>();
+  owned
+    .filter(unit => compNames.has(unit.name))
+    .forEach(unit => {
+      const best = kept.get(unit.name);
+      if (!best || unit.tier > best.tier) kept.set(unit.name, unit);
+    });
+  kept.forEach(unit => {
+    steps.push({ type: 'keep', description: `Keep ${unit.name}${starLabel(unit)}`, champion: unit.name });
+  });
+
+  // Bench units outside the comp are only worth their gold
+  gameState.bench
+    .filter(unit => !compNames.has(unit.name))
+    .forEach(unit => {
+      steps.push({ type: 'sell', description: `Sell ${unit.name} from the bench`, champion: unit.name });
+    });
+
+  steps.push(...planItems(gameState, compUnits, owned));
+
+  // Board units outside the comp hold their slot until a comp unit replaces
+  // them, cheapest first
+  const fillers = gameState.units
+    .filter(unit => !compNames.has(unit.name))
+    .sort((a, b) => a.cost - b.cost);
+  const missing = compUnits.filter(unit => !ownedNames.has(unit.name));
+  const core = compUnits.filter(unit => unit.priority <= ANALYSIS.CORE_PRIORITY);
+  const pivotLevel = Math.max(gameState.playerLevel, Math.min(ECONOMY.MAX_LEVEL, compUnits.length, core.length));
+
+  const buy = (unit: RecommendedUnit) => {
+    const filler = fillers.shift();
+    steps.push({
+      type: 'buy',
+      description: `Buy ${unit.name}${costLabel(unit.name)}${filler ? `, replacing ${filler.name}` : ''}`,
+      champion: unit.name,
+    });
+    if (filler) {
+      steps.push({ type: 'sell', description: `Sell ${filler.name} once ${unit.name} is fielded`, champion: filler.name });
+    }
+  };
+
+  // Core units first, then the level to pivot at, then the rest of the board
+  missing.filter(unit => unit.priority <= ANALYSIS.CORE_PRIORITY).forEach(buy);
+  steps.push({
+    type: 'level',
+    description:
+      pivotLevel > gameState.playerLevel
+        ? `Level to ${pivotLevel} and pivot into ${comp.name}`
+        : `Pivot into ${comp.name} now at level ${gameState.playerLevel}`,
+    level: pivotLevel,
+  });
+  missing.filter(unit => unit.priority > ANALYSIS.CORE_PRIORITY).forEach(buy);
+
+  fillers.forEach(unit => {
+    steps.push({ type: 'sell', description: `Sell ${unit.name} when the board is full`, champion: unit.name });
+  });
+
+  return { steps, pivotLevel, unitsMissing: missing.length };
+};
@@ -0,0 +1,138 @@
+import type { Unit } from '../../shared/types';
+import { CAPTURE_REGIONS, ICON_ATLASES, STAR_FRAME_COLORS, UNIT_DETECTION } from '../../shared/constants';
+import { getChampion, getChampions } from '../../shared/set-data';
+import { averageColor, cropRect, toPixelRect, type ImageFrame, type PixelRect } from './image-processing';
+import { isInside, loadIconAtlas, matchIcon, type IconAtlas } from './icon-atlas';
+import { detectUnitItems } from './item-detector';
+
+// Pixel center of a hex on the board or a bench slot
+export interface CellLocation {
+  row: number;
+  col: number;
+  x: number;
+  y: number;
+}
+
+// Load the champion portraits of the current set
+export const loadChampionAtlas = (): Promise<IconAtlas> =>
+  loadIconAtlas(ICON_ATLASES.CHAMPIONS, getChampions().map(champion => champion.id));
+
+// Hex centers on the board. Odd rows are offset by half a hex, so the board
+// region is split into BOARD_COLS + 0.5 columns.
+export const getBoardCells = (frame: { width: number; height: number }): CellLocation[] => {
+  const board = toPixelRect(frame, CAPTURE_REGIONS.BOARD);
+  const columnWidth = board.width / (UNIT_DETECTION.BOARD_COLS + 0.5);
+  const rowHeight = board.height / UNIT_DETECTION.BOARD_ROWS;
+  const cells: CellLocation[] = [];
+
+  for (let row = 0; row < UNIT_DETECTION.BOARD_ROWS; row++) {
+    for (let col = 0; col < UNIT_DETECTION.BOARD_COLS; col++) {
+      cells.push({
+        row,
+        col,
+        x: Math.round(board.left + (col + 0.5 + (row % 2) * 0.5) * columnWidth),
+        y: Math.round(board.top + (row + 0.5) * rowHeight),
+      });
+    }
+  }
+
+  return cells;
+};
+
+// Bench slot centers, left to right
+export const getBenchSlots = (frame: { width: number; height: number }): CellLocation[] => {
+  const bench = toPixelRect(frame, CAPTURE_REGIONS.BENCH);
+  const slotWidth = bench.width / UNIT_DETECTION.BENCH_SLOTS;
+
+  return Array.from({ length: UNIT_DETECTION.BENCH_SLOTS }, (_, col) => ({
+    row: 0,
+    col,
+    x: Math.round(bench.left + (col + 0.5) * slotWidth),
+    y: Math.round(bench.top + bench.height / 2),
+  }));
+};
+
+// Pixel rectangle of the portrait centered on a cell
+export const getPortraitRect = (frame: { width: number; height: number }, cell: CellLocation): PixelRect => {
+  const size = Math.max(1, Math.round(UNIT_DETECTION.PORTRAIT_SIZE * frame.height));
+  return {
+    left: Math.round(cell.x - size / 2),
+    top: Math.round(cell.y - size / 2),
+    width: size,
+    height: size,
+  };
+};
+
+// Pixel rectangle of the health-bar frame just above a portrait
+export const getStarFrameRect = (frame: { width: number; height: number }, cell: CellLocation): PixelRect => {
+  const portrait = getPortraitRect(frame, cell);
+  const height = Math.max(1, Math.round(UNIT_DETECTION.STAR_FRAME_HEIGHT * frame.height));
+  return { left: portrait.left, top: portrait.top - height, width: portrait.width, height };
+};
+
+// Star level from the color of the health-bar frame
+const detectStarLevel = (frame: ImageFrame, cell: CellLocation): number => {
+  const rect = getStarFrameRect(frame, cell);
+  if (!isInside(frame, rect)) return 1;
+
+  const [r, g, b] = averageColor(cropRect(frame, rect));
+  let bestTier = 1;
+  let bestDistance = Infinity;
+
+  Object.entries(STAR_FRAME_COLORS).forEach(([tier, [fr, fg, fb]]) => {
+    const distance = (r - fr) ** 2 + (g - fg) ** 2 + (b - fb) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestTier = Number(tier);
+    }
+  });
+
+  return bestTier;
+};
+
+// Detect the champion at each cell and build Unit objects from set data
+const detectAtCells = (
+  frame: ImageFrame,
+  cells: CellLocation[],
+  atlas: IconAtlas,
+  itemAtlas: IconAtlas | undefined,
+  onBoard: boolean
+): Unit[] => {
+  const units: Unit[] = [];
+
+  cells.forEach(cell => {
+    const portrait = getPortraitRect(frame, cell);
+    const match = matchIcon(frame, portrait, atlas, UNIT_DETECTION.MATCH_THRESHOLD);
+    const champion = match && getChampion(match.id);
+    if (!champion) return;
+
+    units.push({
+      id: champion.id,
+      name: champion.name,
+      cost: champion.cost,
+      tier: detectStarLevel(frame, cell),
+      position: onBoard ? { row: cell.row, col: cell.col } : undefined,
+      items: itemAtlas ? detectUnitItems(frame, portrait, itemAtlas) : [],
+      traits: [...champion.traits],
+    });
+  });
+
+  return units;
+};
+
+// Detect the champions on the board and bench of a captured frame. When an
+// item atlas is given, the items shown under each unit are recognized too.
+export const detectUnitsInFrame = (
+  frame: ImageFrame,
+  atlas: IconAtlas,
+  itemAtlas?: IconAtlas
+): { board: Unit[]; bench: Unit[] } => {
+  if (atlas.size === 0) {
+    return { board: [], bench: [] };
+  }
+
+  return {
+    board: detectAtCells(frame, getBoardCells(frame), atlas, itemAtlas, true),
+    bench: detectAtCells(frame, getBenchSlots(frame), atlas, itemAtlas, false),
+  };
+};
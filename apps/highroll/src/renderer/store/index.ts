@@ -2,12 +2,16 @@ import { configureStore } from '@reduxjs/toolkit';
 import gameReducer from './gameSlice';
 import settingsReducer from './settingsSlice';
 import recommendationsReducer from './recommendationsSlice';
+import stageReducer from './stageSlice';
+import lobbyReducer from './lobbySlice';
 
 export const store = configureStore({
   reducer: {
     game: gameReducer,
     settings: settingsReducer,
     recommendations: recommendationsReducer,
+    stage: stageReducer,
+    lobby: lobbyReducer,
   },
 });
 
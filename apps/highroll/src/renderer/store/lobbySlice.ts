@@ -0,0 +1,45 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { OpponentBoard } from '../../shared/types';
+import { updateLobby } from '../services/lobby';
+
+interface LobbySliceState {
+  opponents: OpponentBoard[]; // Last scouted board of each opponent, oldest first
+  target: string | null; // Opponent marked to keep an eye on
+}
+
+const initialState: LobbySliceState = {
+  opponents: [],
+  target: null,
+};
+
+const lobbySlice = createSlice({
+  name: 'lobby',
+  initialState,
+  reducers: {
+    recordOpponentBoard: (state, action: PayloadAction<OpponentBoard>) => {
+      state.opponents = updateLobby(state.opponents, action.payload);
+    },
+    removeOpponent: (state, action: PayloadAction<string>) => {
+      state.opponents = state.opponents.filter(opponent => opponent.name !== action.payload);
+      if (state.target === action.payload) {
+        state.target = null;
+      }
+    },
+    setScoutingTarget: (state, action: PayloadAction<string | null>) => {
+      state.target = action.payload;
+    },
+    // Mark the opponent scouted last as the target, or unmark them
+    markScoutingTarget: state => {
+      const latest = state.opponents[state.opponents.length - 1];
+      if (latest) {
+        state.target = state.target === latest.name ? null : latest.name;
+      }
+    },
+    resetLobby: () => initialState,
+  },
+});
+
+export const { recordOpponentBoard, removeOpponent, setScoutingTarget, markScoutingTarget, resetLobby } =
+  lobbySlice.actions;
+export default lobbySlice.reducer;
@@ -1,14 +1,18 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import { DEFAULT_SETTINGS } from '../../shared/constants';
 import { Settings } from '../../shared/types';
+import type { DataSourceId, Hotkeys, ScoringWeights } from '../../shared/types';
+import type { HotkeyRegistration } from '../../shared/ipc';
 
 interface SettingsSliceState extends Settings {
   overlayVisible: boolean;
+  hotkeyErrors: HotkeyRegistration['errors']; // Hotkeys the main process could not register
 }
 
 const initialState: SettingsSliceState = {
   ...DEFAULT_SETTINGS,
   overlayVisible: true,
+  hotkeyErrors: {},
 };
 
 const settingsSlice = createSlice({
@@ -16,7 +20,8 @@ const settingsSlice = createSlice({
   initialState,
   reducers: {
     setSettings: (state, action: PayloadAction<Settings>) => {
-      return { ...state, ...action.payload };
+      // Settings saved before an action was added keep its default hotkey
+      return { ...state, ...action.payload, hotkeys: { ...state.hotkeys, ...action.payload.hotkeys } };
     },
     setOverlayOpacity: (state, action: PayloadAction<number>) => {
       state.overlayOpacity = action.payload;
@@ -30,12 +35,33 @@ const settingsSlice = createSlice({
     setCaptureInterval: (state, action: PayloadAction<number>) => {
       state.captureInterval = action.payload;
     },
+    setDebugCapture: (state, action: PayloadAction<boolean>) => {
+      state.debugCapture = action.payload;
+    },
+    setDebugCaptureFrames: (state, action: PayloadAction<number>) => {
+      state.debugCaptureFrames = action.payload;
+    },
     setDataRefreshInterval: (state, action: PayloadAction<number>) => {
       state.dataRefreshInterval = action.payload;
     },
-    setHotkeys: (state, action: PayloadAction<{ toggleOverlay: string; captureScreen: string }>) => {
+    setStaleWhileRevalidate: (state, action: PayloadAction<boolean>) => {
+      state.staleWhileRevalidate = action.payload;
+    },
+    setDataSources: (state, action: PayloadAction<DataSourceId[]>) => {
+      state.dataSources = action.payload;
+    },
+    setMergeDataSources: (state, action: PayloadAction<boolean>) => {
+      state.mergeDataSources = action.payload;
+    },
+    setScoringWeights: (state, action: PayloadAction<ScoringWeights>) => {
+      state.scoringWeights = action.payload;
+    },
+    setHotkeys: (state, action: PayloadAction<Hotkeys>) => {
       state.hotkeys = action.payload;
     },
+    setHotkeyErrors: (state, action: PayloadAction<HotkeyRegistration['errors']>) => {
+      state.hotkeyErrors = action.payload;
+    },
     setOverlayVisible: (state, action: PayloadAction<boolean>) => {
       state.overlayVisible = action.payload;
     },
@@ -48,8 +74,15 @@ export const {
   setOverlayPosition,
   setOverlaySize,
   setCaptureInterval,
+  setDebugCapture,
+  setDebugCaptureFrames,
   setDataRefreshInterval,
+  setStaleWhileRevalidate,
+  setDataSources,
+  setMergeDataSources,
+  setScoringWeights,
   setHotkeys,
+  setHotkeyErrors,
   setOverlayVisible,
 } = settingsSlice.actions;
 
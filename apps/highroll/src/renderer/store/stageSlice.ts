@@ -0,0 +1,84 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { Dispatch, PayloadAction } from '@reduxjs/toolkit';
+import type { FrameGameState, GameEvent, GameState } from '../../shared/types';
+import { STAGE_TRACKING } from '../../shared/constants';
+import { initialTrackerState, trackGameState } from '../services/stage-tracker';
+import { recordMatchProgress } from '../services/match-history';
+import type { StageTrackerState } from '../services/stage-tracker';
+import { setGameState } from './gameSlice';
+import { recordOpponentBoard, resetLobby } from './lobbySlice';
+import type { RootState } from '.';
+
+interface StageSliceState extends StageTrackerState {
+  events: GameEvent[]; // Oldest first, capped at STAGE_TRACKING.MAX_EVENTS
+}
+
+const initialState: StageSliceState = {
+  ...initialTrackerState,
+  events: [],
+};
+
+const stageSlice = createSlice({
+  name: 'stage',
+  initialState,
+  reducers: {
+    trackCapture: (
+      state,
+      action: PayloadAction<{ previous: GameState | null; next: FrameGameState; timestamp: number }>
+    ) => {
+      const { previous, next, timestamp } = action.payload;
+      const { tracker, events } = trackGameState(state, previous, next, timestamp);
+
+      state.stage = tracker.stage;
+      state.phase = tracker.phase;
+      state.roundStartedAt = tracker.roundStartedAt;
+      state.roundLostHealth = tracker.roundLostHealth;
+      state.streak = tracker.streak;
+      state.nextEventId = tracker.nextEventId;
+      state.events = [...state.events, ...events].slice(-STAGE_TRACKING.MAX_EVENTS);
+    },
+    clearEvents: (state) => {
+      state.events = [];
+    },
+    resetStage: () => initialState,
+  },
+});
+
+export const { trackCapture, clearEvents, resetStage } = stageSlice.actions;
+
+// Store a new capture, emitting events for what changed since the previous
+// one and recording them in the match history. Health that could not be read
+// is kept from the previous capture, and the streak comes from the rounds
+// tracked so far. Captures of another player's board go to the lobby instead.
+export const ingestGameState = (capture: FrameGameState) => (dispatch: Dispatch, getState: () => RootState) => {
+  if (capture.scoutedPlayer) {
+    dispatch(recordOpponentBoard({
+      name: capture.scoutedPlayer,
+      stage: capture.stage,
+      scoutedAt: Date.now(),
+      units: [...capture.units, ...capture.bench], // Bench copies are out of the pool too
+      traits: capture.traits,
+    }));
+    return;
+  }
+
+  const previous = getState().game.gameState;
+  const firstEventId = getState().stage.nextEventId;
+  const next = { ...capture, playerHealth: capture.playerHealth ?? previous?.playerHealth ?? null };
+  dispatch(trackCapture({ previous, next, timestamp: Date.now() }));
+
+  const gameState: GameState = { ...next, streak: getState().stage.streak };
+  dispatch(setGameState(gameState));
+
+  const state = getState();
+  const events = state.stage.events.filter(event => event.id >= firstEventId);
+  if (events.some(event => event.type === 'game_ended')) {
+    dispatch(resetLobby());
+  }
+
+  recordMatchProgress(events, previous, gameState).catch(error => {
+    console.error('Error recording match history:', error);
+  });
+};
+
+export default stageSlice.reducer;
@@ -0,0 +1,12 @@
+import { createVisionRequestHandler, type VisionWorkerRequest } from './services/template-matcher';
+
+// Web Worker running template matching for the renderer, see
+// createWorkerMatcher in services/template-matcher
+const handleRequest = createVisionRequestHandler();
+
+self.addEventListener('message', (event: MessageEvent<VisionWorkerRequest>) => {
+  const response = handleRequest(event.data);
+  if (response) {
+    self.postMessage(response);
+  }
+});
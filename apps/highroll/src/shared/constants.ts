@@ -1,9 +1,20 @@
+import type { DataSourceId, GamePhase, ScoringWeights } from './types';
+import { DEFAULT_HOTKEYS } from './hotkeys.js';
+
 // Game state constants
 export const GAME_STAGES = {
   CAROUSEL: 'carousel',
   PLANNING: 'planning',
   COMBAT: 'combat',
   AUGMENT_SELECTION: 'augment_selection',
+  GAME_END: 'game_end',
+};
+
+// Stage tracking between captures
+export const STAGE_TRACKING = {
+  CAROUSEL_ROUND: 4, // Round of each stage (from stage 2) that is a shared carousel
+  PVE_ROUND: 7, // Round of each stage (from stage 2) fought against monsters
+  MAX_EVENTS: 200, // Events kept in the store
 };
 
 // Item constants
@@ -23,6 +34,41 @@ export const CHAMPION_TIERS = {
   TIER_5: 5,
 };
 
+// Shop rules
+export const SHOP = {
+  SLOTS: 5,
+  ROLL_COST: 2,
+  COPIES_PER_STAR: { 2: 3, 3: 9 } as Record<number, number>, // Copies needed for each star level
+};
+
+// Gold and XP income
+export const ECONOMY = {
+  XP_PER_PURCHASE: 4,
+  XP_COST: 4, // Gold per XP purchase
+  PASSIVE_XP: 2, // XP granted each round outside carousels
+  BASE_INCOME: 5, // Passive gold per round, except where EARLY_INCOME says otherwise
+  EARLY_INCOME: { '1-1': 0, '1-2': 2, '1-3': 2, '1-4': 3, '2-1': 4 } as Record<string, number>,
+  INTEREST_STEP: 10, // 1 gold of interest per this much gold held
+  MAX_INTEREST: 5,
+  MAX_LEVEL: 10,
+  PLANNER_ROUNDS: 14, // Rounds projected by the economy planner
+};
+
+// Recommendation scoring
+export const ANALYSIS = {
+  CORE_PRIORITY: 2, // Comp units at or above this priority are the ones the board is built around
+};
+
+// Offline evaluation of the recommendations
+export const EVALUATION = {
+  TOP_K: 3, // Recommendations shown to the player, the cutoff for hit rate and NDCG
+};
+
+// Scouting other boards in the lobby
+export const SCOUTING = {
+  MIN_NAME_LENGTH: 3, // Shorter nameplate readings are treated as OCR noise on the player's own board
+};
+
 // Trait activation thresholds
 export const TRAIT_THRESHOLDS = {
   BRONZE: 'bronze',
@@ -43,7 +89,16 @@ export const API_ENDPOINTS = {
 export const STORAGE_KEYS = {
   SETTINGS: 'settings',
   CACHED_DATA: 'cached_data',
-  LAST_UPDATE: 'last_update',
+};
+
+// Default points per unit of each scoring factor, see services/scoring
+export const SCORING_WEIGHTS: ScoringWeights = {
+  units: 10, // Per comp unit on the board
+  stars: 5, // Per star above 1 on those units
+  traits: 5, // Per unit in an active comp trait
+  items: 5, // Per recommended item already on its holder
+  feasibility: 20, // Times the average shop odds of the missing units at the current level
+  contested: 3, // Per copy of a core unit held by opponents, subtracted
 };
 
 // Default settings
@@ -52,11 +107,22 @@ export const DEFAULT_SETTINGS = {
   overlayPosition: { x: 0, y: 0 },
   overlaySize: { width: 400, height: 600 },
   captureInterval: 5000, // ms
+  debugCapture: false,
+  debugCaptureFrames: 20,
   dataRefreshInterval: 86400000, // 24 hours in ms
-  hotkeys: {
-    toggleOverlay: 'Alt+T',
-    captureScreen: 'Alt+C',
-  },
+  staleWhileRevalidate: true, // Serve cached data at once and refresh it in the background
+  dataSources: ['metatft', 'tactics_tools', 'scraper', 'offline'] as DataSourceId[],
+  mergeDataSources: false,
+  scoringWeights: SCORING_WEIGHTS,
+  hotkeys: { ...DEFAULT_HOTKEYS },
+};
+
+// Match history and performance analytics
+export const MATCH_HISTORY = {
+  OPENER_STAGE: 3, // The opener is read from the board as this stage starts
+  TOP_FOUR: 4, // Placements up to this count as a top 4
+  TREND_WINDOW: 5, // Matches in the rolling placement average
+  ANALYTICS_MATCH_LIMIT: 200, // Most recent matches included in the analytics
 };
 
 // Screen capture regions
@@ -65,5 +131,125 @@ export const CAPTURE_REGIONS = {
   BENCH: { x: 0.2, y: 0.8, width: 0.6, height: 0.1 },
   GOLD: { x: 0.9, y: 0.1, width: 0.1, height: 0.1 },
   LEVEL: { x: 0.1, y: 0.1, width: 0.1, height: 0.1 },
-  AUGMENTS: { x: 0.4, y: 0.4, width: 0.2, height: 0.2 },
+  HEALTH: { x: 0.85, y: 0.2, width: 0.05, height: 0.05 },
+  STAGE: { x: 0.4, y: 0.0, width: 0.05, height: 0.04 },
+  AUGMENTS: { x: 0.2, y: 0.42, width: 0.6, height: 0.06 }, // Title band across the three augment cards
+  ITEM_BENCH: { x: 0.02, y: 0.35, width: 0.06, height: 0.4 },
+  SCOUTED_PLAYER: { x: 0.42, y: 0.06, width: 0.16, height: 0.03 }, // Nameplate shown while viewing another board
+  CAROUSEL: { x: 0.25, y: 0.2, width: 0.5, height: 0.55 }, // Ring of champions during carousel rounds
+  ROUND_PHASE: { x: 0.45, y: 0.0, width: 0.1, height: 0.04 }, // "Planning" or "Combat" label next to the stage
+  PLACEMENT: { x: 0.4, y: 0.3, width: 0.2, height: 0.08 }, // Placement on the end-of-game screen, e.g. "1st"
+  CHOSEN_AUGMENTS: { x: 0.01, y: 0.17, width: 0.1, height: 0.05 }, // Icons of the augments taken, above the trait list
+};
+
+// Names of the capture regions above
+export type CaptureRegionName = keyof typeof CAPTURE_REGIONS;
+
+// OCR preprocessing applied to numeric HUD regions
+export const OCR_SETTINGS = {
+  UPSCALE_FACTOR: 3, // Tesseract reads small HUD digits poorly at native size
+  DIGIT_WHITELIST: '0123456789',
+  STAGE_WHITELIST: '0123456789-',
+  // Tesseract workers per region; regions not listed get one. The three
+  // augment card titles are read at once.
+  WORKERS_PER_REGION: { AUGMENTS: 3 } as Partial<Record<CaptureRegionName, number>>,
+};
+
+// Capture scheduling and frame analysis
+export const VISION_PIPELINE = {
+  MIN_CAPTURE_INTERVAL: 500, // ms; the fastest the scheduler captures, whatever the setting
+  // Share of settings.captureInterval to wait between captures in each phase.
+  // Combat waits the full interval.
+  PHASE_INTERVAL_FACTORS: {
+    planning: 0.25,
+    augment_selection: 0.25,
+    carousel: 0.5,
+    combat: 1,
+    game_end: 1,
+  } as Record<GamePhase, number>,
+  DIFF_SAMPLE_WIDTH: 64, // Frames are compared at this size, in grayscale
+  DIFF_SAMPLE_HEIGHT: 36,
+  DIFF_THRESHOLD: 1.5, // Mean gray level difference below which a frame is unchanged
+  // HUD regions compared on their own at full resolution, since a changed digit
+  // barely moves the mean of the whole frame
+  HUD_DIFF_REGIONS: ['STAGE', 'GOLD', 'LEVEL', 'HEALTH'] as CaptureRegionName[],
+  HUD_DIFF_PIXEL_DELTA: 32, // Gray level change for a HUD pixel to count as changed
+  HUD_DIFF_THRESHOLD: 0.002, // Share of changed pixels above which a HUD region has changed
+  TIMING_WINDOW: 20, // Frames in the rolling timing averages
+  SOURCE_RECHECK_INTERVAL: 10000, // ms; how often to look for the TFT window while capturing the screen instead
+};
+
+// Augment selection
+export const AUGMENT_DETECTION = {
+  CARD_COUNT: 3, // Cards are laid out side by side across CAPTURE_REGIONS.AUGMENTS
+  MIN_TITLE_SIMILARITY: 0.6, // Minimum fuzzy match score between OCR text and an augment name
+  MIN_TITLE_LETTERS: 4, // Letters an OCR'd title needs to be taken as a name when no augment list is available
+  ROUNDS: ['2-1', '3-2', '4-2'], // Rounds that open with an augment choice
+  MAX_CHOSEN: 3, // Icons laid out side by side across CAPTURE_REGIONS.CHOSEN_AUGMENTS
+  ICON_SIZE: 0.035, // Chosen augment icon edge length, relative to screen height
+  ICON_MATCH_THRESHOLD: 0.6, // Minimum normalized cross-correlation for a hit
 };
+
+// Champion detection on the board and bench
+export const UNIT_DETECTION = {
+  BOARD_ROWS: 4,
+  BOARD_COLS: 7,
+  BENCH_SLOTS: 9,
+  PORTRAIT_SIZE: 0.045, // Portrait edge length, relative to screen height
+  STAR_FRAME_HEIGHT: 0.008, // Health-bar frame above the portrait, relative to screen height
+  TEMPLATE_SIZE: 24, // Portraits are compared against the atlas at this size
+  MATCH_THRESHOLD: 0.75, // Minimum normalized cross-correlation for a hit
+};
+
+// Champion detection on the carousel
+export const CAROUSEL_DETECTION = {
+  SLOTS: 9, // Champions on the ring, evenly spaced around an ellipse inscribed in CAPTURE_REGIONS.CAROUSEL
+  ROTATION_STEPS: 20, // Ring angles tried between two neighboring slots, since the carousel keeps turning
+};
+
+// Carousel pick scoring
+export const CAROUSEL_ADVISOR = {
+  COMP_WEIGHTS: [3, 2, 1], // Value of serving each recommended comp, best comp first
+  NON_CORE_UNIT: 0.5, // Share of the comp's value for units outside its core
+  OWNED_COPY_BONUS: 1, // For a champion the player already holds copies of
+  SPARE_COMPONENT: 0.5, // For a component that completes nothing recommended
+};
+
+// Allocation of held components to completed items for the recommended comps
+export const ITEM_SOLVER = {
+  COMP_WEIGHTS: [3, 2, 1], // Value of an item for each recommended comp, best comp first
+  BIS_ORDER: [1, 0.8, 0.6], // Share of the value by the item's place in its holder's list
+  OWNED_HOLDER_BONUS: 1.5, // For items whose holder is already on the board or bench
+  SLAM_HEALTH: 40, // At or below this health, items are slammed without waiting for their holder
+  MAX_COMPONENTS: 10, // Components considered; the item bench holds no more
+  MIN_GAMES: 50, // Games a champion needs with an item before its placement is trusted
+  ALTERNATIVES: 3, // Alternative items shown for each champion
+};
+
+// Health-bar frame color for each star level
+export const STAR_FRAME_COLORS: Record<number, [number, number, number]> = {
+  1: [176, 112, 64], // bronze
+  2: [190, 200, 210], // silver
+  3: [240, 200, 60], // gold
+};
+
+// Item detection on the item bench and under units
+export const ITEM_DETECTION = {
+  BENCH_ROWS: 5,
+  BENCH_COLUMNS: 2,
+  BENCH_ICON_SIZE: 0.03, // Item bench icon edge length, relative to screen height
+  UNIT_ICON_SIZE: 0.015, // Icons shown under a unit's portrait, relative to screen height
+  MAX_ITEMS_PER_UNIT: 3,
+  MATCH_THRESHOLD: 0.6, // Minimum normalized cross-correlation for a hit
+  CONFIDENT_THRESHOLD: 0.85, // Below this the UI marks the item as uncertain
+};
+
+// Icon atlases used for template matching. The main process reads them from
+// public/atlas/<name> in the app directory.
+export const ICON_ATLASES = {
+  CHAMPIONS: 'champions',
+  ITEMS: 'items',
+  AUGMENTS: 'augments',
+} as const;
+
+export type IconAtlasName = (typeof ICON_ATLASES)[keyof typeof ICON_ATLASES];
@@ -0,0 +1,78 @@
+// Actions that can be bound to a global hotkey, with the label shown in
+// Settings and in conflict messages. Shared by the main process and the
+// renderer, so it is plain CommonJS like ipc-channels.js.
+const HOTKEY_ACTIONS = {
+  toggleOverlay: 'Toggle Overlay',
+  captureScreen: 'Capture Screen',
+  cycleTabs: 'Next Tab',
+  toggleClickThrough: 'Toggle Click-Through',
+  markScoutingTarget: 'Mark Scouting Target',
+};
+
+// Bindings used until the user saves their own
+const DEFAULT_HOTKEYS = {
+  toggleOverlay: 'Alt+T',
+  captureScreen: 'Alt+C',
+  cycleTabs: 'Alt+N',
+  toggleClickThrough: 'Alt+X',
+  markScoutingTarget: 'Alt+S',
+};
+
+// Electron accelerator modifiers and their aliases
+const MODIFIERS = {
+  command: 'command',
+  cmd: 'command',
+  control: 'control',
+  ctrl: 'control',
+  commandorcontrol: 'commandorcontrol',
+  cmdorctrl: 'commandorcontrol',
+  alt: 'alt',
+  option: 'alt',
+  altgr: 'altgr',
+  shift: 'shift',
+  super: 'super',
+  meta: 'super',
+};
+
+// Canonical form of an accelerator, so that "alt+t" and "T+Alt" compare equal.
+// Returns null when it is not a modifier combination with a single key.
+function normalizeHotkey(accelerator) {
+  const parts = accelerator.split('+').map(part => part.trim().toLowerCase());
+  if (parts.some(part => part === '')) return null;
+
+  const modifiers = parts.filter(part => MODIFIERS[part]).map(part => MODIFIERS[part]);
+  const keys = parts.filter(part => !MODIFIERS[part]);
+  if (keys.length !== 1) return null;
+
+  return [...new Set(modifiers)].sort().concat(keys).join('+');
+}
+
+// Problems with a set of bindings by action: invalid accelerators, and keys
+// bound to an earlier action. Empty bindings leave an action unbound.
+function findHotkeyConflicts(hotkeys) {
+  const errors = {};
+  const boundTo = new Map();
+
+  Object.keys(HOTKEY_ACTIONS).forEach(action => {
+    const accelerator = (hotkeys[action] || '').trim();
+    if (!accelerator) return;
+
+    const normalized = normalizeHotkey(accelerator);
+    if (!normalized) {
+      errors[action] = `${accelerator} is not a valid shortcut`;
+    } else if (boundTo.has(normalized)) {
+      errors[action] = `${accelerator} is already bound to ${HOTKEY_ACTIONS[boundTo.get(normalized)]}`;
+    } else {
+      boundTo.set(normalized, action);
+    }
+  });
+
+  return errors;
+}
+
+module.exports = {
+  HOTKEY_ACTIONS,
+  DEFAULT_HOTKEYS,
+  normalizeHotkey,
+  findHotkeyConflicts,
+};
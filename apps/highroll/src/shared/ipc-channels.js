@@ -0,0 +1,114 @@
+// Every IPC channel between the renderer and the main process, with the payload
+// it carries. The request and response types are in ipc.ts; this runtime half
+// is loaded by the main process to validate payloads and by the preload script
+// to allow channels, so it stays plain CommonJS.
+//
+// A payload schema is a type name ('none', 'boolean', 'number', 'string',
+// 'object', 'bytes' for a Uint8Array, or an array of one of them such as
+// 'string[]'), or an object of field schemas. Optional payloads and fields end with '?'.
+const IPC_CHANNELS = {
+  // Overlay window
+  'toggle-overlay': { kind: 'invoke', payload: 'boolean' },
+  'set-overlay-opacity': { kind: 'invoke', payload: 'number' },
+  'resize-overlay': { kind: 'invoke', payload: { width: 'number?', height: 'number?' } },
+  'reposition-overlay': { kind: 'invoke', payload: { x: 'number', y: 'number' } },
+
+  // Screen capture and icon atlases
+  'find-capture-source': { kind: 'invoke', payload: 'none' },
+  'set-debug-capture': { kind: 'invoke', payload: { enabled: 'boolean', maxFrames: 'number' } },
+  'save-debug-frame': { kind: 'invoke', payload: { png: 'bytes', capturedAt: 'number' } },
+  'read-atlas-icons': { kind: 'invoke', payload: { atlas: 'string', ids: 'string[]' } },
+
+  // Global hotkeys; a missing or empty binding leaves the action unbound
+  'get-hotkeys': { kind: 'invoke', payload: 'none' },
+  'set-hotkeys': {
+    kind: 'invoke',
+    payload: {
+      toggleOverlay: 'string?',
+      captureScreen: 'string?',
+      cycleTabs: 'string?',
+      toggleClickThrough: 'string?',
+      markScoutingTarget: 'string?',
+    },
+  },
+  'hotkey-pressed': { kind: 'receive', payload: 'string' },
+
+  // Match history
+  'start-match': { kind: 'invoke', payload: 'number' },
+  'record-round-snapshot': {
+    kind: 'invoke',
+    payload: { matchId: 'number', stage: 'string', gameState: 'object', capturedAt: 'number' },
+  },
+  'finish-match': { kind: 'invoke', payload: { matchId: 'number', result: 'object' } },
+  'set-match-placement': { kind: 'invoke', payload: { matchId: 'number', placement: 'number' } },
+  'query-matches': { kind: 'invoke', payload: 'object?' },
+  'get-match': { kind: 'invoke', payload: 'number' },
+
+  // Meta data cache
+  'read-dataset': { kind: 'invoke', payload: 'string' },
+  'write-dataset': { kind: 'invoke', payload: { dataset: 'string', rows: 'object[]' } },
+  'get-meta': { kind: 'invoke', payload: 'string' },
+  'set-meta': { kind: 'invoke', payload: { key: 'string', value: 'string', updatedAt: 'number?' } },
+  'clear-meta': { kind: 'invoke', payload: 'string' },
+
+  // Network
+  'fetch-json': { kind: 'invoke', payload: { url: 'string', method: 'string?' } },
+  'fetch-scraper': { kind: 'invoke', payload: { endpoint: 'string', method: 'string?' } },
+
+  // Game state, from the main window to the overlay
+  'update-game-state': { kind: 'send', payload: 'object' },
+  'game-state-updated': { kind: 'receive', payload: 'object' },
+};
+
+// Channels of one kind: 'invoke' (renderer calls main and waits for the
+// answer), 'send' (renderer to main) or 'receive' (main to renderer)
+function getChannels(kind) {
+  return Object.keys(IPC_CHANNELS).filter(channel => IPC_CHANNELS[channel].kind === kind);
+}
+
+function checkType(type, value) {
+  if (type.endsWith('[]')) {
+    return Array.isArray(value) && value.every(entry => checkType(type.slice(0, -2), entry));
+  }
+  switch (type) {
+    case 'none':
+      return value === undefined;
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'bytes':
+      return value instanceof Uint8Array;
+    default:
+      return typeof value === type;
+  }
+}
+
+// Why a value does not match a schema, or null when it does
+function checkSchema(schema, value, name) {
+  if (typeof schema === 'string') {
+    const optional = schema.endsWith('?');
+    const type = optional ? schema.slice(0, -1) : schema;
+    if (optional && value === undefined) return null;
+    if (checkType(type, value)) return null;
+    if (type === 'none') return `${name} must be empty`;
+    const label = type.replace('bytes', 'Uint8Array');
+    return `${name} must be ${/^[aeiou]/.test(label) ? 'an' : 'a'} ${label}`;
+  }
+
+  if (!checkType('object', value)) return `${name} must be an object`;
+  for (const [field, fieldSchema] of Object.entries(schema)) {
+    const error = checkSchema(fieldSchema, value[field], `${name}.${field}`);
+    if (error) return error;
+  }
+  return null;
+}
+
+// Why a payload is invalid for a channel, or null when it is valid
+function validatePayload(channel, payload) {
+  const definition = IPC_CHANNELS[channel];
+  if (!definition) return `Unknown IPC channel: ${channel}`;
+  return checkSchema(definition.payload, payload, 'payload');
+}
+
+module.exports = { IPC_CHANNELS, getChannels, validatePayload };
@@ -0,0 +1,113 @@
+import type {
+  ApiResponse,
+  FrameGameState,
+  GameState,
+  HotkeyAction,
+  Hotkeys,
+  MatchDetails,
+  MatchQuery,
+  MatchRecord,
+  MatchResult,
+} from './types';
+import type { IconAtlasName } from './constants';
+import type { IPC_CHANNELS } from './ipc-channels.js';
+
+// The window or screen to capture, and the size to capture it at
+export interface CaptureSource {
+  id: string; // desktopCapturer source id, for getUserMedia
+  name: string;
+  gameWindow: boolean; // False when falling back to the primary screen
+  width: number; // Display size in physical pixels
+  height: number;
+}
+
+// Captures kept on disk for debugging
+export interface DebugCaptureOptions {
+  enabled: boolean;
+  maxFrames: number;
+}
+
+// Hotkeys that could not be registered, with the reason per action
+export interface HotkeyRegistration {
+  errors: Partial<Record<HotkeyAction, string>>;
+}
+
+// The registered hotkeys, with the ones that failed
+export interface RegisteredHotkeys extends HotkeyRegistration {
+  hotkeys: Hotkeys;
+}
+
+// Tables of the meta data cache
+export type CachedDataset = 'team_comps' | 'items' | 'augments';
+
+// A meta_data entry with the time it was written
+export interface MetaEntry {
+  value: string;
+  updatedAt: number;
+}
+
+// Request and response of each invoke channel. Payloads are validated against
+// the schemas in ipc-channels.js by the main process.
+export interface IpcContract {
+  'toggle-overlay': { request: boolean; response: boolean };
+  'set-overlay-opacity': { request: number; response: number };
+  'resize-overlay': {
+    request: { width?: number; height?: number };
+    response: { width?: number; height?: number };
+  };
+  'reposition-overlay': { request: { x: number; y: number }; response: { x: number; y: number } };
+
+  'find-capture-source': { request: void; response: ApiResponse<CaptureSource> };
+  'set-debug-capture': { request: DebugCaptureOptions; response: DebugCaptureOptions };
+  'save-debug-frame': { request: { png: Uint8Array; capturedAt: number }; response: void };
+  'read-atlas-icons': { request: { atlas: IconAtlasName; ids: string[] }; response: ApiResponse<Record<string, Uint8Array>> };
+
+  'get-hotkeys': { request: void; response: RegisteredHotkeys };
+  'set-hotkeys': { request: Partial<Hotkeys>; response: HotkeyRegistration };
+
+  'start-match': { request: number; response: ApiResponse<number> };
+  'record-round-snapshot': {
+    request: { matchId: number; stage: string; gameState: GameState; capturedAt: number };
+    response: ApiResponse<void>;
+  };
+  'finish-match': { request: { matchId: number; result: MatchResult }; response: ApiResponse<void> };
+  'set-match-placement': { request: { matchId: number; placement: number }; response: ApiResponse<void> };
+  'query-matches': { request: MatchQuery | undefined; response: ApiResponse<MatchRecord[]> }; // All matches without a query
+  'get-match': { request: number; response: ApiResponse<MatchDetails | null> };
+
+  'read-dataset': { request: CachedDataset; response: ApiResponse<unknown[] | null> };
+  'write-dataset': { request: { dataset: CachedDataset; rows: unknown[] }; response: ApiResponse<void> };
+  'get-meta': { request: string; response: ApiResponse<MetaEntry | null> };
+  'set-meta': { request: { key: string; value: string; updatedAt?: number }; response: ApiResponse<void> };
+  'clear-meta': { request: string; response: ApiResponse<void> }; // Key prefix
+
+  // Parsed JSON, left for the caller to check
+  'fetch-json': { request: { url: string; method?: string }; response: ApiResponse<unknown> };
+  'fetch-scraper': { request: { endpoint: string; method?: string }; response: ApiResponse<unknown> };
+}
+
+// Payloads of the one-way channels, renderer to main and main to renderer
+export interface IpcSendEvents {
+  'update-game-state': FrameGameState;
+}
+
+export interface IpcReceiveEvents {
+  'game-state-updated': FrameGameState;
+  'hotkey-pressed': HotkeyAction;
+}
+
+export type IpcChannel = keyof IpcContract;
+export type IpcRequest<C extends IpcChannel> = IpcContract[C]['request'];
+export type IpcResponse<C extends IpcChannel> = IpcContract[C]['response'];
+
+// Invoke channels answering with an ApiResponse, and the data it carries
+export type IpcDataChannel = {
+  [C in IpcChannel]: IpcResponse<C> extends ApiResponse<unknown> ? C : never;
+}[IpcChannel];
+export type IpcData<C extends IpcDataChannel> = IpcResponse<C> extends ApiResponse<infer T> ? T : never;
+
+// The types above and the runtime channel list must name the same channels
+type RuntimeChannel = keyof typeof IPC_CHANNELS;
+type TypedChannel = IpcChannel | keyof IpcSendEvents | keyof IpcReceiveEvents;
+const channelsMatch: [RuntimeChannel] extends [TypedChannel] ? ([TypedChannel] extends [RuntimeChannel] ? true : false) : false = true;
+void channelsMatch;
@@ -0,0 +1,152 @@
+import type { Augment, ChampionData, ItemData, SetData, TraitData } from './types';
+import bundledSet9 from './sets/set-9.json';
+
+// Set data by version, keyed by set number and patch
+const versions = new Map<string, SetData>();
+
+// Version every lookup below resolves against
+let current: SetData;
+
+const versionKey = (set: number, patch: string) => `${set}@${patch}`;
+
+// Order patches numerically, so 13.9 comes before 13.10
+export const comparePatches = (a: string, b: string): number => {
+  const left = a.split('.').map(part => parseInt(part, 10) || 0);
+  const right = b.split('.').map(part => parseInt(part, 10) || 0);
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const difference = (left[index] || 0) - (right[index] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+};
+
+const isNewer = (data: SetData, than: SetData) =>
+  data.set !== than.set ? data.set > than.set : comparePatches(data.patch, than.patch) > 0;
+
+// Untrusted JSON narrowed to an object whose fields can be inspected
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Throw unless the data has everything the lookups rely on
+function assertSetData(data: unknown): asserts data is SetData {
+  if (!isObject(data)) throw new Error('Set data must be an object');
+  const { set, patch } = data;
+  if (typeof set !== 'number' || !Number.isInteger(set) || set <= 0) throw new Error('Set data has no valid set number');
+  if (typeof patch !== 'string' || !/^\d+(\.\d+)*$/.test(patch)) {
+    throw new Error(`Set ${set} has no valid patch`);
+  }
+
+  const lists: Record<string, JsonObject[]> = {};
+  for (const list of ['champions', 'traits', 'items', 'augments']) {
+    const entries = data[list];
+    if (!Array.isArray(entries)) throw new Error(`Set ${set} is missing ${list}`);
+    const invalid = entries.some(
+      (entry: unknown) => !isObject(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string'
+    );
+    if (invalid) throw new Error(`Set ${set} has a ${list} entry without an id or name`);
+    lists[list] = entries;
+  }
+  const champion = lists.champions!.find(
+    entry => typeof entry.cost !== 'number' || entry.cost < 1 || !Array.isArray(entry.traits)
+  );
+  if (champion) throw new Error(`Champion ${champion.name} has no cost or traits`);
+  const trait = lists.traits!.find(entry => !Array.isArray(entry.breakpoints));
+  if (trait) throw new Error(`Trait ${trait.name} has no breakpoints`);
+
+  for (const table of ['poolSizes', 'championsPerCost', 'shopOdds', 'xpToLevel']) {
+    if (!isObject(data[table])) throw new Error(`Set ${set} is missing ${table}`);
+  }
+}
+
+// Check set data before it is used, so a bad download cannot replace the
+// bundled data
+export const validateSetData = (data: unknown): SetData => {
+  assertSetData(data);
+  return data;
+};
+
+// Add a version of the set data, from the bundle or the scraper. It becomes
+// the current version if it is newer than the current one.
+export const registerSetData = (data: unknown): SetData => {
+  const setData = validateSetData(data);
+  versions.set(versionKey(setData.set, setData.patch), setData);
+  if (!current || isNewer(setData, current)) {
+    current = setData;
+  }
+  return setData;
+};
+
+// Switch to a registered version, the latest patch of the set by default
+export const selectSetData = (set: number, patch?: string): SetData => {
+  const candidates = [...versions.values()]
+    .filter(data => data.set === set && (patch === undefined || data.patch === patch))
+    .sort((a, b) => comparePatches(b.patch, a.patch));
+
+  if (candidates.length === 0) {
+    throw new Error(`No set data for set ${set}${patch ? ` patch ${patch}` : ''}`);
+  }
+  current = candidates[0]!;
+  return current;
+};
+
+// Current version of the set data
+export const getSetData = (): SetData => current;
+
+// Registered versions, newest first
+export const getSetVersions = (): { set: number; patch: string }[] =>
+  [...versions.values()]
+    .sort((a, b) => (isNewer(a, b) ? -1 : isNewer(b, a) ? 1 : 0))
+    .map(({ set, patch }) => ({ set, patch }));
+
+registerSetData(bundledSet9);
+
+// Champion pool of the current set
+export const getChampions = (): ChampionData[] => current.champions;
+
+// Look up a champion by id or display name
+export const getChampion = (idOrName: string): ChampionData | undefined =>
+  current.champions.find(champion => champion.id === idOrName || champion.name === idOrName);
+
+// Traits and their breakpoints
+export const getTraits = (): TraitData[] => current.traits;
+
+// Look up a trait by id or display name
+export const getTrait = (idOrName: string): TraitData | undefined =>
+  current.traits.find(trait => trait.id === idOrName || trait.name === idOrName);
+
+// Items and their recipes
+export const getItems = (): ItemData[] => current.items;
+
+// Look up an item by id or display name
+export const getItem = (idOrName: string): ItemData | undefined =>
+  current.items.find(item => item.id === idOrName || item.name === idOrName);
+
+// Look up the item built from two components, in either order
+export const getItemFromComponents = (first: string, second: string): ItemData | undefined =>
+  current.items.find(item =>
+    item.components?.length === 2 &&
+    ((item.components[0] === first && item.components[1] === second) ||
+      (item.components[0] === second && item.components[1] === first))
+  );
+
+// Augments known for the set, used when no live augment data is available
+export const getAugments = (): Augment[] => current.augments;
+
+// Look up an augment by id or display name
+export const getAugment = (idOrName: string): Augment | undefined =>
+  current.augments.find(augment => augment.id === idOrName || augment.name === idOrName);
+
+// Copies of each champion in the shared pool, by cost
+export const getPoolSizes = (): Record<number, number> => current.poolSizes;
+
+// Distinct champions in the pool, by cost. The champion list only covers the
+// champions the overlay recognizes, so the shop uses these counts instead.
+export const getChampionsPerCost = (): Record<number, number> => current.championsPerCost;
+
+// Shop odds (%) of each cost by player level
+export const getShopOdds = (): Record<number, Record<number, number>> => current.shopOdds;
+
+// XP needed to go from each level to the next
+export const getXpToLevel = (): Record<number, number> => current.xpToLevel;
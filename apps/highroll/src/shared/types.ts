@@ -2,16 +2,47 @@
 export interface GameState {
   stage: string;
   playerLevel: number;
-  playerHealth: number;
+  playerHealth: number | null; // null until the HUD has been read
   gold: number;
-  streak: number;
+  streak: number; // PvP rounds won (positive) or lost (negative) in a row
   units: Unit[];
   bench: Unit[];
   items: Item[];
   augments: Augment[];
+  offeredAugments: Augment[]; // Choices on screen during augment selection
   traits: Trait[];
+  scoutedPlayer?: string; // Set when the capture shows another player's board
+  carouselUnits?: Unit[]; // Champions on the carousel, each holding its item, during carousel rounds
+  roundPhase?: 'planning' | 'combat'; // Label next to the stage, when readable
+  placement?: number; // Set when the end-of-game screen shows the player's placement
 }
 
+// What a single capture shows. The streak builds up over rounds, and health is
+// null when it could not be read; both are completed when the capture is
+// stored (ingestGameState in src/renderer/store/stageSlice.ts).
+export type FrameGameState = Omit<GameState, 'streak'>;
+
+// Phase of the current round, see GAME_STAGES
+export type GamePhase = 'carousel' | 'planning' | 'combat' | 'augment_selection' | 'game_end';
+
+// Something that changed between two captures
+export type GameEvent = {
+  id: number; // Increases with every event
+  stage: string; // Stage when the event was detected, e.g. "3-2"
+  timestamp: number;
+} & (
+  | { type: 'round_started'; previousStage: string }
+  | { type: 'phase_changed'; from: GamePhase | null; to: GamePhase }
+  | { type: 'unit_bought'; champion: string; copies: number }
+  | { type: 'unit_sold'; champion: string; copies: number }
+  | { type: 'level_up'; from: number; to: number }
+  | { type: 'item_combined'; item: string; components: string[] }
+  | { type: 'hp_lost'; amount: number; remaining: number }
+  | { type: 'game_ended'; finalStage: string }
+);
+
+export type GameEventType = GameEvent['type'];
+
 // Unit (champion) type
 export interface Unit {
   id: string;
@@ -30,6 +61,15 @@ export interface Item {
   type: string; // basic, combined, special, ornn
   components?: string[]; // For combined items
   stats?: Record<string, number>; // Item stats
+  confidence?: number; // 0-1, set when the item was recognized on screen
+  performance?: ItemPerformance[]; // How the item does on each champion, from the meta data
+}
+
+// Average placement of a champion holding an item
+export interface ItemPerformance {
+  champion: string; // Champion id
+  avgPlacement: number;
+  games: number;
 }
 
 // Augment type
@@ -70,6 +110,56 @@ export interface TeamComp {
   winRate: number;
   playRate: number;
   difficulty: number; // 1-5
+  transition?: TransitionPath; // Set by the analyzer for recommended comps
+  contestedUnits?: ContestedUnit[]; // Core units other players in the lobby hold
+  scoreBreakdown?: ScoreBreakdown[]; // Set by the analyzer when explaining its ranking
+}
+
+// Factors the analyzer scores comps on
+export type ScoringFactor = 'units' | 'stars' | 'traits' | 'items' | 'feasibility' | 'contested';
+
+// Points per unit of each factor
+export type ScoringWeights = Record<ScoringFactor, number>;
+
+// One factor's share of a comp's score
+export interface ScoreBreakdown {
+  factor: ScoringFactor;
+  name: string;
+  value: number; // Unweighted, e.g. the number of comp units on the board
+  weight: number;
+  score: number; // value × weight
+}
+
+// One step of a transition from the current board to a comp
+export interface TransitionStep {
+  type: 'keep' | 'sell' | 'buy' | 'item' | 'level';
+  description: string;
+  champion?: string;
+  item?: string;
+  level?: number;
+}
+
+// Ordered plan to reach a comp from the current board
+export interface TransitionPath {
+  steps: TransitionStep[];
+  pivotLevel: number; // Level at which to switch the board over to the comp
+  unitsMissing: number;
+}
+
+// The last scouted board of another player in the lobby
+export interface OpponentBoard {
+  name: string;
+  stage: string; // Stage when the board was scouted
+  scoutedAt: number;
+  units: Unit[];
+  traits: Trait[];
+}
+
+// A comp unit that other players are also holding
+export interface ContestedUnit {
+  name: string;
+  copies: number; // Copies held across the lobby; a 2★ counts as 3
+  opponents: string[];
 }
 
 // Recommended unit type
@@ -107,22 +197,149 @@ export interface RecommendedItem {
   champion?: string; // Champion to put the item on
 }
 
+// Static champion data for the current set
+export interface ChampionData {
+  id: string;
+  name: string;
+  cost: number;
+  traits: string[];
+}
+
+// Static trait data for the current set
+export interface TraitData {
+  id: string;
+  name: string;
+  breakpoints: TraitBreakpoint[]; // Ascending by minUnits
+}
+
+// A trait activation level
+export interface TraitBreakpoint extends TraitEffect {
+  style: string; // bronze, silver, gold, platinum, chromatic
+}
+
+// Static item data for the current set
+export interface ItemData {
+  id: string;
+  name: string;
+  type: string; // basic, combined, special, ornn
+  components?: string[]; // Component item ids
+  trait?: string; // Trait granted by emblems
+}
+
+// Static data of one set on one patch, as bundled in src/shared/sets or
+// served by the scraper
+export interface SetData {
+  set: number;
+  patch: string; // e.g. 13.23
+  champions: ChampionData[];
+  traits: TraitData[];
+  items: ItemData[];
+  augments: Augment[];
+  poolSizes: Record<number, number>; // Copies of each champion in the shared pool, by cost
+  championsPerCost: Record<number, number>; // Distinct champions in the pool, by cost
+  shopOdds: Record<number, Record<number, number>>; // Shop odds (%) of each cost by player level
+  xpToLevel: Record<number, number>; // XP needed to go from each level to the next
+}
+
+// A match recorded in the local match history
+export interface MatchRecord {
+  id: number;
+  startedAt: number;
+  endedAt: number | null; // Null while the match is in progress
+  placement: number | null; // 1-8, null when unknown
+  finalStage: string | null;
+  compId: string | null; // Comp played, the known comp closest to the final board
+  compName: string | null;
+  opener: string | null; // Top trait on the board at the end of stage 2
+  augments: string[]; // Augment names
+  items: string[]; // Ids of completed items built
+}
+
+// The game state at the end of a round
+export interface RoundSnapshot {
+  stage: string;
+  capturedAt: number;
+  gameState: GameState;
+}
+
+// A match with its round snapshots
+export interface MatchDetails extends MatchRecord {
+  snapshots: RoundSnapshot[];
+}
+
+// How a match ended
+export interface MatchResult {
+  endedAt: number;
+  placement?: number;
+  finalStage?: string;
+  compId?: string;
+  compName?: string;
+  opener?: string;
+  augments: string[];
+  items: string[];
+}
+
+// Match history filters, all optional
+export interface MatchQuery {
+  from?: number; // Matches started at or after this timestamp
+  to?: number; // Matches started before this timestamp
+  comp?: string; // Comp id or name
+  augment?: string; // Augment name
+  opener?: string;
+  minPlacement?: number;
+  maxPlacement?: number;
+  limit?: number; // Defaults to 50
+  offset?: number;
+}
+
+// Time spent on each step of the vision pipeline for one frame, in ms
+export interface VisionTimings {
+  capture: number;
+  diff: number; // Comparing the frame with the previous one
+  ocr: number;
+  templateMatching: number;
+  total: number;
+}
+
+// What the capture scheduler has done so far
+export interface VisionMetrics {
+  framesAnalyzed: number;
+  framesSkipped: number; // Frames that had not changed since the last analyzed one
+  captureDelay: number; // ms until the next capture
+  last: VisionTimings | null; // Of the last analyzed frame
+  average: VisionTimings | null; // Over the last VISION_PIPELINE.TIMING_WINDOW analyzed frames
+  warnings: string[]; // What the last analyzed frame could not detect, and why
+}
+
+// Providers of meta data, see services/data-sources
+export type DataSourceId = 'metatft' | 'tactics_tools' | 'scraper' | 'offline';
+
 // Application settings type
 export interface Settings {
   overlayOpacity: number;
   overlayPosition: { x: number; y: number };
   overlaySize: { width: number; height: number };
   captureInterval: number;
+  debugCapture: boolean; // Keep the last captures on disk
+  debugCaptureFrames: number; // How many captures debug capture keeps
   dataRefreshInterval: number;
-  hotkeys: {
-    toggleOverlay: string;
-    captureScreen: string;
-  };
+  staleWhileRevalidate: boolean;
+  dataSources: DataSourceId[]; // Enabled providers, highest priority first
+  mergeDataSources: boolean; // Combine the comps of all providers instead of using the first that answers
+  scoringWeights: ScoringWeights;
+  hotkeys: Hotkeys;
 }
 
+// Actions that can be bound to a global hotkey, see src/shared/hotkeys.js
+export type HotkeyAction = 'toggleOverlay' | 'captureScreen' | 'cycleTabs' | 'toggleClickThrough' | 'markScoutingTarget';
+
+// Electron accelerator per action, e.g. "Alt+T"; empty when unbound
+export type Hotkeys = Record<HotkeyAction, string>;
+
 // API response types
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  fallback?: boolean; // The data is a stand-in for what could not be fetched, see error
 }
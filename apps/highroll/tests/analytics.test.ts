@@ -0,0 +1,80 @@
+import { calculateTrend, compareWithMeta, summarizeMatches } from '../src/renderer/services/analytics';
+import { MatchRecord, TeamComp } from '../src/shared/types';
+
+const makeMatch = (id: number, placement: number | null, overrides: Partial<MatchRecord> = {}): MatchRecord => ({
+  id,
+  startedAt: id * 1000,
+  endedAt: id * 1000 + 500,
+  placement,
+  finalStage: '5-1',
+  compId: 'comp1',
+  compName: 'Spirit Sorcerers',
+  opener: 'Spirit',
+  augments: [],
+  items: [],
+  ...overrides,
+});
+
+describe('Performance Analytics', () => {
+  const matches = [
+    makeMatch(1, 1, { augments: ['Spirit Heart', 'Spell Sword'] }),
+    makeMatch(2, 5, { augments: ['Spell Sword'] }),
+    makeMatch(3, 3, { compId: 'comp2', compName: 'Duelists', opener: 'Duelist', augments: ['Spell Sword'] }),
+    makeMatch(4, 8, { compId: 'comp2', compName: 'Duelists', opener: null }),
+    makeMatch(5, null), // Placement never entered
+  ];
+
+  test('summarizeMatches should compute overall and grouped stats from placed matches', () => {
+    const summary = summarizeMatches(matches);
+
+    expect(summary.overall).toEqual({ key: 'All', games: 4, averagePlacement: 4.25, top4Rate: 0.5, winRate: 0.25 });
+    expect(summary.byComp).toEqual([
+      { key: 'Spirit Sorcerers', games: 2, averagePlacement: 3, top4Rate: 0.5, winRate: 0.5 },
+      { key: 'Duelists', games: 2, averagePlacement: 5.5, top4Rate: 0.5, winRate: 0 },
+    ]);
+    expect(summary.byAugment.map(stats => [stats.key, stats.games])).toEqual([
+      ['Spell Sword', 3],
+      ['Spirit Heart', 1],
+    ]);
+    expect(summary.byOpener.map(stats => [stats.key, stats.games])).toEqual([
+      ['Spirit', 2],
+      ['Duelist', 1],
+    ]);
+  });
+
+  test('summarizeMatches should handle an empty history', () => {
+    const summary = summarizeMatches([]);
+
+    expect(summary.overall.games).toBe(0);
+    expect(summary.byComp).toEqual([]);
+    expect(summary.trend).toEqual([]);
+  });
+
+  test('calculateTrend should order matches by date with a rolling average', () => {
+    const trend = calculateTrend([...matches].reverse());
+
+    expect(trend.map(point => point.placement)).toEqual([1, 5, 3, 8]);
+    expect(trend.map(point => point.rollingAverage)).toEqual([1, 3, 3, 4.25]);
+  });
+
+  test('compareWithMeta should compare personal placement with the comp data', () => {
+    const teamComps = [
+      { id: 'comp1', name: 'Spirit Sorcerers', placement: 4.1, winRate: 0.14 },
+    ] as TeamComp[];
+
+    const comparisons = compareWithMeta(summarizeMatches(matches).byComp, teamComps);
+
+    expect(comparisons).toEqual([
+      {
+        key: 'Spirit Sorcerers',
+        games: 2,
+        averagePlacement: 3,
+        top4Rate: 0.5,
+        winRate: 0.5,
+        metaPlacement: 4.1,
+        metaWinRate: 0.14,
+        placementDelta: -1.1,
+      },
+    ]);
+  });
+});
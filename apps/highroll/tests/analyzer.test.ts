@@ -1,4 +1,4 @@
-import { analyzeGameState } from '../src/renderer/services/analyzer';
+import { analyzeGameState, rankOfferedAugments } from '../src/renderer/services/analyzer';
 import { fetchTeamComps } from '../src/renderer/services/data-api';
 import { GameState } from '../src/shared/types';
 
@@ -31,6 +31,7 @@ describe('Recommendation Engine', () => {
     bench: [],
     items: [],
     augments: [],
+    offeredAugments: [],
     traits: [
       { id: 'Spirit', name: 'Spirit', count: 2, active: true, style: 'bronze' },
       { id: 'Sorcerer', name: 'Sorcerer', count: 1, active: false, style: 'none' },
@@ -99,7 +100,49 @@ describe('Recommendation Engine', () => {
     expect(recommendations).toHaveProperty('augments');
     
     // Spirit Sorcerers should be ranked higher due to having Ahri
-    expect(recommendations.teamComps[0].name).toBe('Spirit Sorcerers');
+    expect(recommendations.teamComps[0]!.name).toBe('Spirit Sorcerers');
+  });
+
+  test('analyzeGameState should penalize comps whose core units are contested', async () => {
+    const opponents = [
+      {
+        name: 'Rival',
+        stage: '3-2',
+        scoutedAt: 0,
+        units: [
+          { id: 'TFT9_Ahri', name: 'Ahri', cost: 4, tier: 3, items: [], traits: ['Spirit', 'Sorcerer'] },
+          { id: 'TFT9_Yuumi', name: 'Yuumi', cost: 3, tier: 2, items: [], traits: ['Spirit', 'Sorcerer'] },
+        ],
+        traits: [],
+      },
+    ];
+
+    const recommendations = await analyzeGameState(mockGameState, { opponents });
+
+    expect(recommendations.teamComps[0]!.name).toBe('Duelists');
+    expect(recommendations.teamComps[1]!.contestedUnits).toEqual([
+      { name: 'Ahri', copies: 9, opponents: ['Rival'] },
+      { name: 'Yuumi', copies: 3, opponents: ['Rival'] },
+    ]);
+  });
+
+  test('analyzeGameState should explain scores with the given weights', async () => {
+    const weights = { units: 10, stars: 5, traits: 5, items: 5, feasibility: 20, contested: 3 };
+
+    const recommendations = await analyzeGameState(mockGameState, { weights, explain: true });
+    const breakdown = recommendations.teamComps[0]!.scoreBreakdown!;
+
+    expect(breakdown.find(factor => factor.factor === 'units')).toMatchObject({ value: 1, weight: 10, score: 10 });
+    expect(breakdown.find(factor => factor.factor === 'stars')).toMatchObject({ value: 1, score: 5 });
+    expect(breakdown.find(factor => factor.factor === 'traits')).toMatchObject({ value: 2, score: 10 });
+
+    // Weighting only shop odds favors the comp whose missing units can be
+    // found at level 3
+    const reweighted = await analyzeGameState({ ...mockGameState, playerLevel: 3 }, {
+      weights: { ...weights, units: 0, stars: 0, traits: 0 },
+    });
+    expect(reweighted.teamComps[0]!.name).toBe('Duelists');
+    expect(reweighted.teamComps[0]!.scoreBreakdown).toBeUndefined();
   });
 
   test('analyzeGameState should handle API errors gracefully', async () => {
@@ -115,4 +158,24 @@ describe('Recommendation Engine', () => {
     expect(recommendations.items).toEqual([]);
     expect(recommendations.augments).toEqual([]);
   });
+
+  test('rankOfferedAugments should rank offered augments by recommendation and synergy', () => {
+    const gameState: GameState = {
+      ...mockGameState,
+      offeredAugments: [
+        { id: 'jeweled-lotus', name: 'Jeweled Lotus', description: '', tier: 'Prismatic' },
+        { id: 'spirit-heart', name: 'Spirit Heart', description: '', tier: 'Gold', synergies: ['Spirit'] },
+        { id: 'spell-sword', name: 'Spell Sword', description: '', tier: 'Silver' },
+      ],
+    };
+
+    const ranked = rankOfferedAugments(gameState, [
+      { id: 'spell-sword', name: 'Spell Sword', tier: 'Silver', description: '', priority: 1 },
+      { id: 'spirit-heart', name: 'Spirit Heart', tier: 'Gold', description: '', priority: 1 },
+    ]);
+
+    expect(ranked.map(augment => augment.name)).toEqual(['Spirit Heart', 'Spell Sword', 'Jeweled Lotus']);
+    expect(ranked[0]).toMatchObject({ priority: 1, synergy: 2, score: 4 });
+    expect(ranked[2]).toMatchObject({ priority: 0, synergy: 0, score: 0 });
+  });
 });
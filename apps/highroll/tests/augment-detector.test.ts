@@ -0,0 +1,67 @@
+import {
+  augmentsFromTitles,
+  detectChosenAugments,
+  getAugmentTitleRegions,
+  getChosenAugmentSlots,
+  isAugmentRound,
+  matchAugmentTitles,
+} from '../src/renderer/services/augment-detector';
+import { textSimilarity } from '../src/renderer/services/fuzzy-match';
+import { CAPTURE_REGIONS } from '../src/shared/constants';
+import { Augment } from '../src/shared/types';
+import { blankFrame, makeAtlas, makeIcon, paste } from './helpers/frames';
+
+describe('Augment Detection', () => {
+  const augments: Augment[] = [
+    { id: 'built-different-2', name: 'Built Different II', description: '', tier: 'Gold' },
+    { id: 'built-different-3', name: 'Built Different III', description: '', tier: 'Prismatic' },
+    { id: 'spirit-heart', name: 'Spirit Heart', description: '', tier: 'Gold' },
+  ];
+
+  test('isAugmentRound should accept augment rounds only', () => {
+    expect(isAugmentRound('2-1')).toBe(true);
+    expect(isAugmentRound('4-2')).toBe(true);
+    expect(isAugmentRound('2-2')).toBe(false);
+    expect(isAugmentRound('')).toBe(false);
+    expect(isAugmentRound('2-')).toBe(false);
+  });
+
+  test('getAugmentTitleRegions should split the title band into cards', () => {
+    const regions = getAugmentTitleRegions();
+    const band = CAPTURE_REGIONS.AUGMENTS;
+
+    expect(regions).toHaveLength(3);
+    expect(regions[0]!.x).toBeCloseTo(band.x);
+    expect(regions[2]!.x + regions[2]!.width).toBeCloseTo(band.x + band.width);
+  });
+
+  test('textSimilarity should ignore case, spacing and punctuation', () => {
+    expect(textSimilarity('SPIRIT  HEART!', 'Spirit Heart')).toBe(1);
+    expect(textSimilarity('', 'Spirit Heart')).toBe(0);
+  });
+
+  test('matchAugmentTitles should tolerate OCR errors and drop unreadable titles', () => {
+    const matched = matchAugmentTitles(['Bui1t Different III', 'Spirit Hearl', '~~'], augments);
+
+    expect(matched.map(augment => augment.id)).toEqual(['built-different-3', 'spirit-heart']);
+  });
+
+  test('augmentsFromTitles should keep readable titles when there is nothing to match them against', () => {
+    expect(augmentsFromTitles(['Spirit Heart!', '~~', 'Bui1t  Different III'])).toEqual([
+      { id: 'spirit_heart', name: 'Spirit Heart', description: '', tier: '' },
+      { id: 'bui1t_different_iii', name: 'Bui1t Different III', description: '', tier: '' },
+    ]);
+  });
+
+  test('detectChosenAugments should recognize the icons of the augments taken', () => {
+    const icons = { 'spirit-heart': makeIcon(21), 'built-different-3': makeIcon(22), 'jeweled-lotus': makeIcon(23) };
+    const frame = blankFrame(1920, 1080);
+    const slots = getChosenAugmentSlots(frame);
+    paste(frame, icons['built-different-3'], slots[0]!);
+    paste(frame, icons['spirit-heart'], slots[1]!);
+
+    expect(slots).toHaveLength(3);
+    expect(detectChosenAugments(frame, makeAtlas(icons))).toEqual(['built-different-3', 'spirit-heart']);
+    expect(detectChosenAugments(frame, new Map())).toEqual([]);
+  });
+});
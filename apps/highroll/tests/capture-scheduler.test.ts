@@ -0,0 +1,162 @@
+import { createCaptureScheduler, getCaptureDelay } from '../src/renderer/services/capture-scheduler';
+import { toPixelRect, type ImageFrame } from '../src/renderer/services/image-processing';
+import { CAPTURE_REGIONS, VISION_PIPELINE, type CaptureRegionName } from '../src/shared/constants';
+import type { GameState } from '../src/shared/types';
+
+// An RGBA frame where every pixel has the given gray value
+const solidFrame = (value: number): ImageFrame => ({
+  width: 128,
+  height: 72,
+  channels: 4,
+  data: new Uint8ClampedArray(128 * 72 * 4).fill(value),
+});
+
+// A 1920x1080 frame with a few pixels of a HUD region brightened, the way a
+// changed digit looks
+const hudChangedFrame = (region: CaptureRegionName, pixels: number): ImageFrame => {
+  const frame: ImageFrame = { width: 1920, height: 1080, channels: 4, data: new Uint8ClampedArray(1920 * 1080 * 4).fill(50) };
+  const rect = toPixelRect(frame, CAPTURE_REGIONS[region]);
+  for (let i = 0; i < pixels; i++) {
+    const x = rect.left + (i % rect.width);
+    const y = rect.top + Math.floor(i / rect.width);
+    frame.data.fill(255, (y * frame.width + x) * 4, (y * frame.width + x) * 4 + 3);
+  }
+  return frame;
+};
+
+const gameState = { stage: '2-1' } as GameState;
+
+const createScheduler = (frames: Array<ImageFrame | null>) => {
+  const options = {
+    capture: jest.fn(async () => frames.shift() ?? null),
+    analyze: jest.fn(async () => ({ gameState, timings: { ocr: 30, templateMatching: 20 }, warnings: [] })),
+    onGameState: jest.fn(),
+    getPhase: jest.fn(() => 'planning' as const),
+    getCaptureInterval: jest.fn(() => 4000),
+    onMetrics: jest.fn(),
+  };
+  return { options, scheduler: createCaptureScheduler(options) };
+};
+
+// Let the scheduler take a number of captures, a planning phase's delay apart
+const runCaptures = async (scheduler: ReturnType<typeof createCaptureScheduler>, count: number) => {
+  jest.useFakeTimers();
+  scheduler.start();
+  for (let i = 0; i < count; i++) {
+    await jest.advanceTimersByTimeAsync(1000);
+  }
+  scheduler.stop();
+};
+
+describe('Capture Scheduler', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('captures faster while planning than in combat, bounded by the capture interval', () => {
+    expect(getCaptureDelay('planning', 4000)).toBe(1000);
+    expect(getCaptureDelay('augment_selection', 4000)).toBe(1000);
+    expect(getCaptureDelay('combat', 4000)).toBe(4000);
+    expect(getCaptureDelay(null, 4000)).toBe(4000);
+    expect(getCaptureDelay('planning', 1000)).toBe(VISION_PIPELINE.MIN_CAPTURE_INTERVAL);
+    expect(getCaptureDelay('planning', 200)).toBe(200);
+  });
+
+  test('skips frames that have not changed since the last analyzed one', async () => {
+    const { options, scheduler } = createScheduler([solidFrame(50), solidFrame(50), solidFrame(51), solidFrame(120)]);
+
+    await runCaptures(scheduler, 4);
+
+    expect(options.analyze).toHaveBeenCalledTimes(2);
+    expect(options.onGameState).toHaveBeenCalledTimes(2);
+    expect(options.onGameState).toHaveBeenCalledWith(gameState);
+    expect(scheduler.getMetrics()).toMatchObject({ framesAnalyzed: 2, framesSkipped: 2 });
+  });
+
+  test('analyzes frames where only a HUD number changed', async () => {
+    const { options, scheduler } = createScheduler([
+      hudChangedFrame('GOLD', 0),
+      hudChangedFrame('GOLD', 120), // A digit's worth of pixels, far below the whole-frame threshold
+      hudChangedFrame('GOLD', 120),
+      hudChangedFrame('STAGE', 60),
+      hudChangedFrame('STAGE', 61), // One more pixel is noise
+    ]);
+
+    await runCaptures(scheduler, 5);
+
+    expect(options.analyze).toHaveBeenCalledTimes(3);
+    expect(scheduler.getMetrics()).toMatchObject({ framesAnalyzed: 3, framesSkipped: 2 });
+  });
+
+  test('reports the time spent on each step', async () => {
+    const { scheduler } = createScheduler([solidFrame(50), null]);
+
+    expect(scheduler.getMetrics().average).toBeNull();
+    await runCaptures(scheduler, 2); // The second capture fails and is not counted
+
+    const { last, average, framesAnalyzed } = scheduler.getMetrics();
+    expect(framesAnalyzed).toBe(1);
+    expect(last).toMatchObject({ ocr: 30, templateMatching: 20 });
+    expect(last!.total).toBeGreaterThanOrEqual(last!.capture + last!.diff);
+    expect(average).toEqual(last);
+  });
+
+  test('schedules the next capture after the previous one, using the current phase', async () => {
+    jest.useFakeTimers();
+    const { options, scheduler } = createScheduler([solidFrame(50), solidFrame(120), solidFrame(200)]);
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(options.capture).toHaveBeenCalledTimes(1);
+    expect(options.onMetrics).toHaveBeenLastCalledWith(expect.objectContaining({ captureDelay: 1000 }));
+
+    options.getPhase.mockReturnValue('combat' as any);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(options.capture).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(options.capture).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(options.capture).toHaveBeenCalledTimes(3);
+
+    scheduler.stop();
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(options.capture).toHaveBeenCalledTimes(3);
+  });
+
+  test('analyzes manual captures even when the frame is unchanged', async () => {
+    const { options, scheduler } = createScheduler([solidFrame(50), solidFrame(50)]);
+
+    await scheduler.captureNow();
+    await scheduler.captureNow();
+
+    expect(options.analyze).toHaveBeenCalledTimes(2);
+    expect(options.onMetrics).toHaveBeenLastCalledWith(expect.objectContaining({ framesAnalyzed: 2, framesSkipped: 0 }));
+  });
+
+  test('runs a manual capture after the scheduled one in flight', async () => {
+    jest.useFakeTimers();
+    const { options, scheduler } = createScheduler([solidFrame(50), solidFrame(120)]);
+    let finishAnalysis = () => {};
+    options.analyze.mockImplementationOnce(
+      () =>
+        new Promise(resolve => {
+          finishAnalysis = () => resolve({ gameState, timings: { ocr: 30, templateMatching: 20 }, warnings: [] });
+        })
+    );
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(1000);
+    const manual = scheduler.captureNow();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(options.capture).toHaveBeenCalledTimes(1);
+
+    finishAnalysis();
+    await manual;
+    scheduler.stop();
+
+    expect(options.capture).toHaveBeenCalledTimes(2);
+    expect(options.analyze).toHaveBeenCalledTimes(2);
+    expect(options.onGameState).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// A 1280x720 display at 150% scaling
+jest.mock('electron', () => ({
+  desktopCapturer: { getSources: jest.fn() },
+  screen: {
+    getPrimaryDisplay: jest.fn(() => ({ id: 1, size: { width: 1280, height: 720 }, scaleFactor: 1.5 })),
+  },
+}));
+
+const capture = require('../src/main/capture');
+
+const source = (name: string, displayId = '') => ({
+  id: displayId ? `screen:${displayId}:0` : `window:${name}`,
+  name,
+  display_id: displayId,
+});
+
+describe('Screen Capture', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'highroll-capture-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    capture.setDebugCapture({ enabled: false, maxFrames: 20 });
+  });
+
+  test('prefers the TFT window over the primary screen', () => {
+    const screen = source('Entire Screen', '1');
+    const game = source(capture.TFT_WINDOW_TITLE);
+
+    expect(capture.findCaptureSource([screen, source('Discord'), game], 1)).toBe(game);
+    expect(capture.findCaptureSource([source('Screen 2', '2'), screen], 1)).toBe(screen);
+    expect(capture.findCaptureSource([source('Discord')], 1)).toBeNull();
+  });
+
+  test('finds the window to capture without rendering thumbnails', async () => {
+    const { desktopCapturer } = require('electron');
+    desktopCapturer.getSources.mockResolvedValue([source('Entire Screen', '1'), source(capture.TFT_WINDOW_TITLE)]);
+
+    const found = await capture.locateCaptureSource();
+
+    expect(desktopCapturer.getSources).toHaveBeenCalledWith({
+      types: ['window', 'screen'],
+      thumbnailSize: { width: 0, height: 0 },
+    });
+    expect(found).toEqual({
+      id: `window:${capture.TFT_WINDOW_TITLE}`,
+      name: capture.TFT_WINDOW_TITLE,
+      gameWindow: true,
+      width: 1920,
+      height: 1080,
+    });
+
+    desktopCapturer.getSources.mockResolvedValue([source('Discord')]);
+    await expect(capture.locateCaptureSource()).rejects.toThrow('Could not find the TFT window or the primary display');
+  });
+
+  test('keeps frames from the renderer only while debug capture is on', () => {
+    const save = jest.spyOn(require('fs'), 'writeFileSync').mockImplementation(() => {});
+    jest.spyOn(require('fs'), 'readdirSync').mockReturnValue([]);
+    jest.spyOn(require('fs'), 'existsSync').mockReturnValue(true);
+
+    capture.keepDebugFrame(new Uint8Array([1, 2]), 1000);
+    expect(save).not.toHaveBeenCalled();
+
+    capture.setDebugCapture({ enabled: true, maxFrames: 5 });
+    capture.keepDebugFrame(new Uint8Array([1, 2]), 1000);
+    expect(save).toHaveBeenCalledWith(path.join(capture.DEBUG_CAPTURE_DIR, 'capture-1000.png'), Buffer.from([1, 2]));
+    jest.restoreAllMocks();
+  });
+
+  test('keeps only the newest debug frames', () => {
+    [5, 1, 3, 2, 4].forEach(timestamp => capture.saveDebugFrame(Buffer.from('png'), timestamp, dir, 3));
+    fs.writeFileSync(path.join(dir, 'notes.txt'), '');
+
+    capture.pruneDebugFrames(dir, 2);
+
+    expect(fs.readdirSync(dir).sort()).toEqual(['capture-4.png', 'capture-5.png', 'notes.txt']);
+  });
+
+  test('clamps the retention cap to at least one frame', () => {
+    expect(capture.setDebugCapture({ enabled: true, maxFrames: 0 })).toEqual({ enabled: true, maxFrames: 1 });
+  });
+
+  test('removes captures left by earlier versions', () => {
+    fs.writeFileSync(path.join(dir, 'screen-1700000000000.png'), '');
+    fs.writeFileSync(path.join(dir, 'data.json'), '');
+
+    capture.removeLegacyCaptures(dir);
+
+    expect(fs.readdirSync(dir)).toEqual(['data.json']);
+  });
+});
@@ -0,0 +1,131 @@
+import { getUnlockedItems, rankCarouselPicks } from '../src/renderer/services/carousel-advisor';
+import { GameState, Item, TeamComp, Unit } from '../src/shared/types';
+
+const unit = (name: string, cost: number, items: Item[] = [], tier = 1): Unit => ({
+  id: `TFT9_${name}`,
+  name,
+  cost,
+  tier,
+  items,
+  traits: [],
+});
+
+const rod: Item = { id: 'TFT_Item_NeedlesslyLargeRod', name: 'Needlessly Large Rod', type: 'basic' };
+const tear: Item = { id: 'TFT_Item_TearOfTheGoddess', name: 'Tear of the Goddess', type: 'basic' };
+const sword: Item = { id: 'TFT_Item_BFSword', name: 'B.F. Sword', type: 'basic' };
+const belt: Item = { id: 'TFT_Item_GiantsBelt', name: "Giant's Belt", type: 'basic' };
+const deathblade: Item = { id: 'TFT_Item_Deathblade', name: 'Deathblade', type: 'combined' };
+
+describe('Carousel Advisor', () => {
+  const comps: TeamComp[] = [
+    {
+      id: 'spirit',
+      name: 'Spirit Sorcerers',
+      tier: 'S',
+      units: [
+        {
+          id: 'TFT9_Ahri',
+          name: 'Ahri',
+          priority: 1,
+          items: [{ id: 'TFT_Item_Deathcap', name: "Rabadon's Deathcap", priority: 1 }],
+        },
+        { id: 'TFT9_Yuumi', name: 'Yuumi', priority: 2, items: [] },
+        { id: 'TFT9_Teemo', name: 'Teemo', priority: 3, items: [] },
+      ],
+      traits: [],
+      augments: [],
+      items: [],
+      placement: 4,
+      winRate: 0.15,
+      playRate: 0.08,
+      difficulty: 2,
+    },
+    {
+      id: 'duelists',
+      name: 'Duelists',
+      tier: 'A',
+      units: [
+        {
+          id: 'TFT9_Fiora',
+          name: 'Fiora',
+          priority: 1,
+          items: [{ id: '', name: 'Deathblade', priority: 1 }],
+        },
+      ],
+      traits: [],
+      augments: [],
+      items: [],
+      placement: 4.5,
+      winRate: 0.12,
+      playRate: 0.05,
+      difficulty: 2,
+    },
+  ];
+
+  const gameState: GameState = {
+    stage: '3-4',
+    playerLevel: 6,
+    playerHealth: 70,
+    gold: 20,
+    streak: 0,
+    units: [unit('Teemo', 1)],
+    bench: [],
+    items: [rod, tear, tear],
+    augments: [],
+    offeredAugments: [],
+    traits: [],
+  };
+
+  it('should list the completed items a component builds with held components', () => {
+    const unlocks = getUnlockedItems(rod, gameState, comps);
+
+    expect(unlocks).toEqual([
+      {
+        id: 'TFT_Item_Deathcap',
+        name: "Rabadon's Deathcap",
+        component: 'Needlessly Large Rod',
+        wantedBy: 'Ahri (Spirit Sorcerers)',
+      },
+      {
+        id: 'TFT_Item_ArchangelsStaff',
+        name: "Archangel's Staff",
+        component: 'Tear of the Goddess',
+        wantedBy: undefined,
+      },
+    ]);
+  });
+
+  it('should rank picks by the items they complete and the comps that want the champion', () => {
+    const picks = rankCarouselPicks(
+      { ...gameState, carouselUnits: [unit('Garen', 1, [belt]), unit('Jax', 2, [rod]), unit('Fiora', 1, [deathblade])] },
+      comps
+    );
+
+    expect(picks.map(pick => pick.unit.name)).toEqual(['Fiora', 'Jax', 'Garen']);
+    expect(picks[0]!.reasons).toEqual(['Deathblade is built for Fiora (Duelists)', 'Fiora is a core unit of Duelists']);
+    expect(picks[1]!.reasons).toContain(
+      "Needlessly Large Rod completes Rabadon's Deathcap with your Needlessly Large Rod, for Ahri (Spirit Sorcerers)"
+    );
+    expect(picks[1]!.unlocks.map(unlock => unlock.name)).toEqual(["Rabadon's Deathcap", "Archangel's Staff"]);
+    expect(picks[2]!.reasons).toEqual(["Giant's Belt completes nothing recommended yet and stays flexible"]);
+  });
+
+  it('should value comp units and copies the player already holds', () => {
+    const picks = rankCarouselPicks(
+      { ...gameState, items: [], carouselUnits: [unit('Garen', 1, [sword]), unit('Teemo', 1, [sword])] },
+      comps
+    );
+
+    expect(picks[0]!.unit.name).toBe('Teemo');
+    expect(picks[0]!.reasons).toEqual([
+      'B.F. Sword completes nothing recommended yet and stays flexible',
+      'Teemo is a support unit of Spirit Sorcerers',
+      'You hold 1 copy of Teemo',
+    ]);
+    expect(picks[0]!.score).toBeCloseTo(3);
+  });
+
+  it('should return no picks when no carousel was detected', () => {
+    expect(rankCarouselPicks(gameState, comps)).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { detectCarouselInFrame, getCarouselSlots } from '../src/renderer/services/carousel-detector';
+import { getUnitItemRects } from '../src/renderer/services/item-detector';
+import { getPortraitRect } from '../src/renderer/services/unit-detector';
+import { CAROUSEL_DETECTION } from '../src/shared/constants';
+import { blankFrame, makeAtlas, makeIcon, paste } from './helpers/frames';
+
+describe('Carousel Detection', () => {
+  const portraits = {
+    TFT9_Ahri: makeIcon(1),
+    TFT9_Yuumi: makeIcon(2),
+    TFT9_Fiora: makeIcon(3),
+  };
+  const items = {
+    TFT_Item_BFSword: makeIcon(11),
+    TFT_Item_Deathcap: makeIcon(12),
+  };
+
+  const atlas = makeAtlas(portraits);
+  const itemAtlas = makeAtlas(items);
+
+  test('places the slots evenly around the ring', () => {
+    const slots = getCarouselSlots({ width: 1920, height: 1080 });
+
+    expect(slots).toHaveLength(CAROUSEL_DETECTION.SLOTS);
+    // The first slot sits at the bottom of the ring
+    expect(slots[0]!.y).toBe(Math.max(...slots.map(slot => slot.y)));
+  });
+
+  test('detects champions and their items on a turned carousel', () => {
+    const frame = blankFrame(1920, 1080);
+    const rotation = (3 * (2 * Math.PI)) / CAROUSEL_DETECTION.SLOTS / CAROUSEL_DETECTION.ROTATION_STEPS;
+    const slots = getCarouselSlots(frame, rotation);
+
+    const place = (slot: number, portrait: keyof typeof portraits, item: keyof typeof items) => {
+      const rect = getPortraitRect(frame, slots[slot]!);
+      paste(frame, portraits[portrait], rect);
+      paste(frame, items[item], getUnitItemRects(frame, rect)[0]!);
+    };
+    place(0, 'TFT9_Ahri', 'TFT_Item_Deathcap');
+    place(4, 'TFT9_Fiora', 'TFT_Item_BFSword');
+
+    const units = detectCarouselInFrame(frame, atlas, itemAtlas);
+
+    expect(units).toEqual([
+      expect.objectContaining({ id: 'TFT9_Ahri', tier: 1, items: [expect.objectContaining({ id: 'TFT_Item_Deathcap' })] }),
+      expect.objectContaining({ id: 'TFT9_Fiora', tier: 1, items: [expect.objectContaining({ id: 'TFT_Item_BFSword' })] }),
+    ]);
+  });
+
+  test('returns no units without an atlas', () => {
+    expect(detectCarouselInFrame(blankFrame(640, 360), new Map())).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+import { normalizeItem, normalizeTeamComp, readList } from '../src/renderer/services/comp-normalizer';
+
+describe('Comp Normalizer', () => {
+  test('normalizes a scraped comp', () => {
+    const comp = normalizeTeamComp({
+      id: 'comp-1',
+      name: 'Spirit Reroll',
+      tier: 'A',
+      units: [
+        { name: 'Ahri', cost: 4, starLevel: 2, items: [{ name: 'Spear of Shojin', id: 'spear_of_shojin' }] },
+        { name: 'Yuumi', cost: 3, starLevel: 3, items: [] },
+        { name: 'Teemo', cost: 2, starLevel: 2, items: [] },
+      ],
+      traits: [{ name: 'Spirit', activeLevel: 1, totalLevel: 3 }],
+      augments: [{ name: 'Spirit Heart', id: 'spirit-heart' }],
+      stats: { averagePlacement: 4.1, winPercentage: 15, playRate: 8 },
+      playstyle: { difficulty: 'Easy' },
+    });
+
+    expect(comp).toMatchObject({
+      id: 'comp-1',
+      tier: 'A',
+      placement: 4.1,
+      winRate: 0.15,
+      playRate: 0.08,
+      difficulty: 2,
+    });
+    // Ids resolve through the set data and priorities are inferred
+    expect(comp.units).toEqual([
+      { id: 'TFT9_Ahri', name: 'Ahri', priority: 1, items: [{ id: 'TFT_Item_SpearOfShojin', name: 'Spear of Shojin', priority: 1 }] },
+      { id: 'TFT9_Yuumi', name: 'Yuumi', priority: 2, items: [] },
+      { id: 'TFT9_Teemo', name: 'Teemo', priority: 3, items: [] },
+    ]);
+    // Traits are counted from the units rather than taken from the source
+    expect(comp.traits).toEqual(
+      expect.arrayContaining([
+        { id: 'Spirit', name: 'Spirit', count: 3, style: 'bronze' },
+        { id: 'Sorcerer', name: 'Sorcerer', count: 3, style: 'bronze' },
+      ])
+    );
+    // Augments the set data does not know keep the source's id and name
+    expect(comp.augments).toEqual([{ id: 'spirit-heart', name: 'Spirit Heart', tier: 'silver', priority: 1 }]);
+  });
+
+  test('keeps canonical comps as they are', () => {
+    const canonical = {
+      id: 'duelists',
+      name: 'Duelists',
+      tier: 'S',
+      units: [{ id: 'TFT9_Yasuo', name: 'Yasuo', priority: 1, items: [] }],
+      traits: [{ id: 'Duelist', name: 'Duelist', count: 1, style: 'none' }],
+      augments: [],
+      items: [],
+      placement: 4.2,
+      winRate: 0.14,
+      playRate: 0.07,
+      difficulty: 3,
+    };
+
+    expect(normalizeTeamComp(canonical)).toEqual({ ...canonical, traits: canonical.traits });
+  });
+
+  test('falls back to the source traits for unknown champions', () => {
+    const comp = normalizeTeamComp({
+      name: 'Next Set Preview',
+      units: [{ name: 'Mystery Champion' }],
+      traits: [{ name: 'Fated', activeLevel: 2 }],
+      difficulty: 9,
+    });
+
+    expect(comp.id).toBe('next_set_preview');
+    expect(comp.units[0]).toEqual({ id: 'mystery_champion', name: 'Mystery Champion', priority: 3, items: [] });
+    expect(comp.traits).toEqual([{ id: 'Fated', name: 'Fated', count: 5, style: 'silver' }]);
+    expect(comp.difficulty).toBe(5);
+    expect(comp.placement).toBe(4.5);
+  });
+
+  test('normalizes an item with its per-champion placements', () => {
+    const item = normalizeItem({
+      name: 'Spear of Shojin',
+      stats: { mana: 15 },
+      champions: [
+        { name: 'Ahri', placement: '3.9', count: 420 },
+        { champion: 'Unknown', avgPlacement: 4.6 },
+      ],
+    });
+
+    expect(item).toEqual({
+      id: 'TFT_Item_SpearOfShojin',
+      name: 'Spear of Shojin',
+      type: 'combined',
+      components: ['TFT_Item_BFSword', 'TFT_Item_TearOfTheGoddess'],
+      stats: { mana: 15 },
+      performance: [
+        { champion: 'TFT9_Ahri', avgPlacement: 3.9, games: 420 },
+        { champion: 'Unknown', avgPlacement: 4.6, games: 0 },
+      ],
+    });
+    // Component names from the source resolve to ids
+    expect(normalizeItem({ name: 'New Item', components: ['B.F. Sword', 'Recurve Bow'] })).toMatchObject({
+      id: 'new_item',
+      type: 'combined',
+      components: ['TFT_Item_BFSword', 'TFT_Item_RecurveBow'],
+    });
+  });
+
+  test('reads the list a response carries, bare or under its key', () => {
+    expect(readList([{ name: 'Ahri' }], 'comps')).toEqual([{ name: 'Ahri' }]);
+    expect(readList({ comps: [{ name: 'Ahri' }] }, 'comps')).toEqual([{ name: 'Ahri' }]);
+    expect(() => readList({ error: 'Not found' }, 'comps')).toThrow('Response has no comps');
+    expect(() => readList(null, 'comps')).toThrow('Response has no comps');
+  });
+});
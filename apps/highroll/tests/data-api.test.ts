@@ -0,0 +1,101 @@
+import { fetchAugments, fetchItems, fetchTeamComps, setDataSources } from '../src/renderer/services/data-api';
+import { fetchAugmentsFromSources, fetchItemsFromSources, fetchTeamCompsFromSources } from '../src/renderer/services/data-sources';
+import { getAugments, getItems } from '../src/shared/set-data';
+import type { Item, TeamComp } from '../src/shared/types';
+
+// In-memory stand-in for the main-process data service
+const meta = new Map<string, { value: string; updatedAt: number }>();
+const datasets = new Map<string, unknown[]>();
+
+jest.mock('../src/renderer/services/ipc', () => ({
+  request: jest.fn(async (channel: string, payload: any) => {
+    switch (channel) {
+      case 'get-meta':
+        return meta.get(payload) || null;
+      case 'set-meta':
+        meta.set(payload.key, { value: payload.value, updatedAt: payload.updatedAt ?? Date.now() });
+        return undefined;
+      case 'clear-meta':
+        [...meta.keys()].filter(key => key.startsWith(payload)).forEach(key => meta.delete(key));
+        return undefined;
+      case 'read-dataset':
+        return datasets.get(payload) || null;
+      case 'write-dataset':
+        datasets.set(payload.dataset, payload.rows);
+        return undefined;
+      default:
+        throw new Error(`Unexpected channel ${channel}`);
+    }
+  }),
+}));
+
+jest.mock('../src/renderer/services/data-sources', () => ({
+  fetchTeamCompsFromSources: jest.fn(),
+  fetchItemsFromSources: jest.fn(),
+  fetchAugmentsFromSources: jest.fn(),
+}));
+
+const comp = { id: 'duelists', name: 'Duelists', tier: 'A' } as TeamComp;
+const spear: Item = {
+  id: 'TFT_Item_SpearOfShojin',
+  name: 'Spear of Shojin',
+  type: 'combined',
+  performance: [{ champion: 'TFT9_Ahri', avgPlacement: 3.9, games: 420 }],
+};
+
+describe('Data API', () => {
+  beforeEach(() => {
+    meta.clear();
+    datasets.clear();
+    jest.mocked(fetchTeamCompsFromSources).mockReset();
+    jest.mocked(fetchItemsFromSources).mockReset();
+  });
+
+  test('fetches, caches and then serves a dataset from the cache', async () => {
+    jest.mocked(fetchItemsFromSources).mockResolvedValue([spear]);
+
+    await expect(fetchItems()).resolves.toEqual({ success: true, data: [spear] });
+    expect(datasets.get('items')).toEqual([spear]);
+    expect(meta.has('freshness:items')).toBe(true);
+
+    await expect(fetchItems()).resolves.toEqual({ success: true, data: [spear] });
+    expect(fetchItemsFromSources).toHaveBeenCalledTimes(1);
+  });
+
+  test('falls back to the set data items when nothing answers', async () => {
+    jest.mocked(fetchItemsFromSources).mockRejectedValue(new Error('offline'));
+
+    const response = await fetchItems();
+
+    expect(response).toMatchObject({ success: true, fallback: true, error: 'Failed to fetch items: offline' });
+    expect(response.data).toHaveLength(getItems().length);
+  });
+
+  test('reports augments when nothing answers and the set data has none', async () => {
+    jest.mocked(fetchAugmentsFromSources).mockRejectedValue(new Error('offline'));
+
+    expect(getAugments()).toHaveLength(0);
+    await expect(fetchAugments()).resolves.toEqual({ success: false, error: 'Failed to fetch augments: offline' });
+  });
+
+  test('reports team comps it can neither fetch nor read from the cache', async () => {
+    jest.mocked(fetchTeamCompsFromSources).mockRejectedValue(new Error('offline'));
+    await expect(fetchTeamComps()).resolves.toMatchObject({ success: false });
+
+    jest.mocked(fetchTeamCompsFromSources).mockResolvedValue([comp]);
+    await expect(fetchTeamComps()).resolves.toEqual({ success: true, data: [comp] });
+  });
+
+  test('refreshes every dataset when the data sources change', async () => {
+    jest.mocked(fetchItemsFromSources).mockResolvedValue([spear]);
+    await setDataSources(['metatft'], false);
+    await fetchItems();
+
+    await setDataSources(['metatft'], false);
+    expect(meta.has('freshness:items')).toBe(true);
+
+    await setDataSources(['offline'], false);
+    expect(meta.has('freshness:items')).toBe(false);
+    expect(meta.get('data_sources')!.value).toBe(JSON.stringify({ ids: ['offline'], merge: false }));
+  });
+});
@@ -0,0 +1,102 @@
+import { getCacheState, loadDataset } from '../src/renderer/services/data-freshness';
+import type { DatasetFreshness, DatasetSource, FreshnessStore } from '../src/renderer/services/data-freshness';
+
+const HOUR = 60 * 60 * 1000;
+
+// In-memory cache and freshness records
+const createStore = (patch: string | null, freshness: DatasetFreshness | null) => {
+  const records = new Map<string, DatasetFreshness>(freshness ? [[freshness.dataset, freshness]] : []);
+  const store: FreshnessStore = {
+    getFreshness: async dataset => records.get(dataset) || null,
+    setFreshness: async record => {
+      records.set(record.dataset, record);
+    },
+    getPatch: async () => patch,
+  };
+  return { store, records };
+};
+
+const createSource = (cached: string[] | null, fetchFresh: () => Promise<string[]>) => {
+  const source: DatasetSource<string[]> & { cached: string[] | null } = {
+    name: 'team_comps',
+    cached,
+    readCache: async () => source.cached,
+    writeCache: async data => {
+      source.cached = data;
+    },
+    fetchFresh: jest.fn(fetchFresh),
+  };
+  return source;
+};
+
+describe('Data Freshness', () => {
+  const now = Date.now();
+  const policy = { refreshInterval: 6 * HOUR, staleWhileRevalidate: false };
+  const fetchedAt = (ageHours: number, patch: string | null = '14.1'): DatasetFreshness => ({
+    dataset: 'team_comps',
+    patch,
+    fetchedAt: now - ageHours * HOUR,
+  });
+
+  test('cache state follows the refresh interval and the patch', () => {
+    expect(getCacheState(fetchedAt(1), true, '14.1', policy, now)).toBe('fresh');
+    expect(getCacheState(fetchedAt(7), true, '14.1', policy, now)).toBe('stale');
+    expect(getCacheState(fetchedAt(7), true, '14.1', { ...policy, refreshInterval: 24 * HOUR }, now)).toBe('fresh');
+    expect(getCacheState(fetchedAt(1), true, '14.2', policy, now)).toBe('stale');
+    expect(getCacheState(fetchedAt(1, null), true, null, policy, now)).toBe('fresh');
+    expect(getCacheState(null, true, '14.1', policy, now)).toBe('missing');
+    expect(getCacheState(fetchedAt(1), false, '14.1', policy, now)).toBe('missing');
+  });
+
+  test('serves fresh data from the cache', async () => {
+    const source = createSource(['cached'], async () => ['fetched']);
+    const { store } = createStore('14.1', fetchedAt(1));
+
+    await expect(loadDataset(source, store, policy, now)).resolves.toEqual(['cached']);
+    expect(source.fetchFresh).not.toHaveBeenCalled();
+  });
+
+  test('refreshes data fetched for an earlier patch and records the new one', async () => {
+    const source = createSource(['cached'], async () => ['fetched']);
+    const { store, records } = createStore('14.2', fetchedAt(1));
+
+    await expect(loadDataset(source, store, policy, now)).resolves.toEqual(['fetched']);
+    expect(source.cached).toEqual(['fetched']);
+    expect(records.get('team_comps')!.patch).toBe('14.2');
+  });
+
+  test('falls back to stale data when the network fails', async () => {
+    const source = createSource(['cached'], async () => {
+      throw new Error('offline');
+    });
+    const { store } = createStore('14.1', fetchedAt(7));
+
+    await expect(loadDataset(source, store, policy, now)).resolves.toEqual(['cached']);
+    await expect(loadDataset(createSource(null, source.fetchFresh), store, policy, now)).rejects.toThrow('offline');
+  });
+
+  test('serves stale data at once and refreshes it in the background', async () => {
+    let resolveFetch: (data: string[]) => void = () => {};
+    const source = createSource(['cached'], () => new Promise(resolve => (resolveFetch = resolve)));
+    const { store, records } = createStore('14.1', fetchedAt(7));
+    const swr = { ...policy, staleWhileRevalidate: true };
+
+    await expect(loadDataset(source, store, swr, now)).resolves.toEqual(['cached']);
+    await expect(loadDataset(source, store, swr, now)).resolves.toEqual(['cached']);
+    // Both loads share one refresh
+    expect(source.fetchFresh).toHaveBeenCalledTimes(1);
+
+    resolveFetch(['fetched']);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(source.cached).toEqual(['fetched']);
+    expect(records.get('team_comps')!.fetchedAt).toBeGreaterThan(now - HOUR);
+  });
+
+  test('waits for the network when nothing is cached, even in stale-while-revalidate mode', async () => {
+    const source = createSource(null, async () => ['fetched']);
+    const { store } = createStore('14.1', null);
+
+    await expect(loadDataset(source, store, { ...policy, staleWhileRevalidate: true }, now)).resolves.toEqual(['fetched']);
+  });
+});
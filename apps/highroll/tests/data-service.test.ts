@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { API_ENDPOINTS } from '../src/shared/constants';
+
+const dataService = require('../src/main/data-service');
+const matchHistory = require('../src/main/match-history');
+
+// Count the connections opened, without a native SQLite build
+jest.mock('better-sqlite3', () =>
+  jest.fn(() => ({
+    pragma: jest.fn(),
+    exec: jest.fn(),
+    prepare: jest.fn(() => ({ run: jest.fn(() => ({ lastInsertRowid: 1 })), get: jest.fn(), all: jest.fn(() => []) })),
+    close: jest.fn(),
+  }))
+);
+
+// Atlases are read from the app directory, whatever the working directory
+const mockAppPath = fs.mkdtempSync(path.join(os.tmpdir(), 'highroll-app-'));
+jest.mock('electron', () => ({ app: { getAppPath: () => mockAppPath } }));
+
+// Keep the database directory out of the real home directory
+jest.mock('os', () => ({ ...jest.requireActual('os'), homedir: () => jest.requireActual('os').tmpdir() }));
+
+describe('Data Service', () => {
+  const realFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  afterAll(() => {
+    fs.rmSync(mockAppPath, { recursive: true, force: true });
+  });
+
+  test('shares one connection with the match history', () => {
+    const Database = require('better-sqlite3');
+
+    dataService.getMeta('patch');
+    matchHistory.startMatch(1000);
+    matchHistory.queryMatches({});
+    expect(Database).toHaveBeenCalledTimes(1);
+
+    dataService.closeDatabase();
+    matchHistory.queryMatches({});
+    expect(Database).toHaveBeenCalledTimes(2);
+    dataService.closeDatabase();
+  });
+
+  test('only reads and writes known datasets', () => {
+    expect(() => dataService.readDataset('matches')).toThrow('Unknown dataset: matches');
+    expect(() => dataService.writeDataset('team_comps; DROP TABLE items', [])).toThrow('Unknown dataset');
+  });
+
+  test('reads icons from the atlases in the app directory', () => {
+    const atlasDir = path.join(mockAppPath, 'public', 'atlas', 'champions');
+    expect(() => dataService.readAtlasIcons('champions', ['TFT9_Ahri'])).toThrow(`Icon atlas not found at ${atlasDir}`);
+
+    fs.mkdirSync(atlasDir, { recursive: true });
+    fs.writeFileSync(path.join(atlasDir, 'TFT9_Ahri.png'), 'png');
+    expect(dataService.readAtlasIcons('champions', ['TFT9_Ahri', 'TFT9_Annie'])).toEqual({ TFT9_Ahri: Buffer.from('png') });
+    expect(dataService.readAtlasIcons('champions', ['../../../etc/passwd'])).toEqual({});
+    expect(() => dataService.readAtlasIcons('../../etc', ['passwd'])).toThrow('Not an icon atlas');
+  });
+
+  test('only fetches from the data source hosts', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, json: async () => [] });
+
+    await expect(dataService.fetchJson(`${API_ENDPOINTS.TACTICS_TOOLS}/augments`)).resolves.toEqual([]);
+    await expect(dataService.fetchJson('https://example.com/tft/comps')).rejects.toThrow('Not a data source URL');
+    await expect(dataService.fetchJson('http://api.metatft.com/tft/comps')).rejects.toThrow('Not a data source URL');
+    await expect(dataService.fetchJson('https://api.metatft.com.example.com/')).rejects.toThrow('Not a data source URL');
+    await expect(dataService.fetchJson('http://localhost:3000/api/status')).rejects.toThrow('Not a data source URL');
+    await expect(dataService.fetchJson('metatft')).rejects.toThrow('Not a URL: metatft');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('fetches JSON over HTTP and reports failed requests', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ comps: [] }) })
+      .mockResolvedValueOnce({ ok: false, status: 503 });
+
+    await expect(dataService.fetchJson('https://api.metatft.com/tft/comps')).resolves.toEqual({ comps: [] });
+    await expect(dataService.fetchScraper('/status')).rejects.toThrow('API request failed with status 503');
+    expect(global.fetch).toHaveBeenLastCalledWith('http://localhost:3000/api/status', { method: 'GET' });
+    await expect(dataService.fetchJson('file:///etc/passwd')).rejects.toThrow('Not a data source URL');
+  });
+});
@@ -0,0 +1,96 @@
+import { DATA_SOURCES, fetchAugmentsFromSources, fetchItemsFromSources, fetchTeamCompsFromSources } from '../src/renderer/services/data-sources';
+import type { DataSource } from '../src/renderer/services/data-sources';
+import type { DataSourceId, TeamComp } from '../src/shared/types';
+
+const comp = (id: string, name = id): TeamComp => ({
+  id,
+  name,
+  tier: 'A',
+  units: [],
+  traits: [],
+  augments: [],
+  items: [],
+  placement: 4,
+  winRate: 0.1,
+  playRate: 0.05,
+  difficulty: 3,
+});
+
+const source = (id: DataSourceId, fetchTeamComps: () => Promise<TeamComp[]>): DataSource => ({
+  id,
+  name: id,
+  fetchTeamComps: jest.fn(fetchTeamComps),
+});
+
+const failing = (id: DataSourceId) =>
+  source(id, async () => {
+    throw new Error('unreachable');
+  });
+
+describe('Data Sources', () => {
+  const sources: Record<DataSourceId, DataSource> = {
+    metatft: failing('metatft'),
+    tactics_tools: source('tactics_tools', async () => [comp('duelists', 'Duelists'), comp('wardens')]),
+    scraper: source('scraper', async () => [comp('scraped-duelists', 'duelists'), comp('snipers')]),
+    offline: source('offline', async () => [comp('offline')]),
+  };
+
+  test('uses the first source that answers', async () => {
+    const comps = await fetchTeamCompsFromSources(['metatft', 'scraper', 'tactics_tools'], false, sources);
+
+    expect(comps.map(c => c.id)).toEqual(['scraped-duelists', 'snipers']);
+    expect(sources.tactics_tools.fetchTeamComps).not.toHaveBeenCalled();
+  });
+
+  test('merges sources, keeping the higher-priority version of a comp', async () => {
+    const comps = await fetchTeamCompsFromSources(['tactics_tools', 'metatft', 'scraper'], true, sources);
+
+    expect(comps.map(c => c.id)).toEqual(['duelists', 'wardens', 'snipers']);
+  });
+
+  test('reports every failure when no source answers', async () => {
+    await expect(fetchTeamCompsFromSources(['metatft'], false, sources)).rejects.toThrow('metatft: unreachable');
+    await expect(fetchTeamCompsFromSources([], false, sources)).rejects.toThrow('No data source enabled');
+  });
+
+  test('takes augments from the first source that has them', async () => {
+    const augments = [{ id: 'spirit-heart', name: 'Spirit Heart', description: '', tier: 'silver' }];
+    const withAugments: Record<DataSourceId, DataSource> = {
+      ...sources,
+      scraper: { ...sources.scraper, fetchAugments: async () => augments },
+    };
+
+    await expect(fetchAugmentsFromSources(['metatft'], sources)).rejects.toThrow('No enabled data source has augments');
+    await expect(fetchAugmentsFromSources(['metatft', 'scraper'], withAugments)).resolves.toBe(augments);
+  });
+
+  test('takes items from the first source that has them', async () => {
+    const withItems: Record<DataSourceId, DataSource> = {
+      ...sources,
+      metatft: { ...sources.metatft, fetchItems: jest.fn(async () => []) },
+      scraper: {
+        ...sources.scraper,
+        fetchItems: async () => {
+          throw new Error('unreachable');
+        },
+      },
+    };
+
+    await expect(fetchItemsFromSources(['tactics_tools'], withItems)).rejects.toThrow('No enabled data source has items');
+    await expect(fetchItemsFromSources(['metatft', 'scraper'], withItems)).rejects.toThrow('scraper: unreachable');
+
+    const items = await fetchItemsFromSources(['tactics_tools', 'offline']);
+    expect(items.some(item => item.type === 'combined' && item.components?.length === 2)).toBe(true);
+  });
+
+  test('the offline snapshot yields canonical comps', async () => {
+    const comps = await DATA_SOURCES.offline.fetchTeamComps();
+
+    expect(comps.length).toBeGreaterThan(0);
+    comps.forEach(offline => {
+      expect(offline.units.every(unit => unit.id.startsWith('TFT9_'))).toBe(true);
+      expect(offline.traits.length).toBeGreaterThan(0);
+      expect(offline.winRate).toBeLessThanOrEqual(1);
+    });
+  });
+});
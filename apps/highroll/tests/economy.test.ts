@@ -0,0 +1,85 @@
+import {
+  PRESET_PLANS,
+  addXp,
+  getGoldToLevel,
+  getInterest,
+  getNextStage,
+  getStreakBonus,
+  simulateEconomy,
+} from '../src/renderer/services/economy';
+
+const plan = (id: string) => PRESET_PLANS.find(preset => preset.id === id)!;
+
+describe('Economy Simulator', () => {
+  test('getNextStage should move through the rounds of each stage', () => {
+    expect(getNextStage('1-3')).toBe('1-4');
+    expect(getNextStage('1-4')).toBe('2-1');
+    expect(getNextStage('3-2')).toBe('3-3');
+    expect(getNextStage('2-7')).toBe('3-1');
+    expect(getNextStage('')).toBeNull();
+  });
+
+  test('getInterest and getStreakBonus should follow the income rules', () => {
+    expect(getInterest(9)).toBe(0);
+    expect(getInterest(10)).toBe(1);
+    expect(getInterest(73)).toBe(5);
+    expect(getStreakBonus(1)).toBe(0);
+    expect(getStreakBonus(3)).toBe(2);
+    expect(getStreakBonus(-6)).toBe(4);
+  });
+
+  test('addXp should level up across the XP thresholds', () => {
+    expect(addXp(3, 4, 2)).toEqual({ level: 4, xp: 0 });
+    expect(addXp(7, 40, 80)).toEqual({ level: 8, xp: 72 });
+    expect(addXp(9, 80, 8)).toEqual({ level: 10, xp: 0 });
+  });
+
+  test('getGoldToLevel should buy XP in whole purchases', () => {
+    expect(getGoldToLevel(7, 0, 8)).toBe(48);
+    expect(getGoldToLevel(6, 10, 8)).toBe(76);
+    expect(getGoldToLevel(8, 0, 8)).toBe(0);
+  });
+
+  test('simulateEconomy should add income and passive XP, skipping carousels', () => {
+    const result = simulateEconomy(
+      { stage: '3-1', gold: 50, level: 6, xp: 0, streak: 0 },
+      { id: 'none', name: 'Save', actions: [] },
+      3
+    );
+
+    expect(result.rounds.map(round => [round.stage, round.gold, round.level, round.xp])).toEqual([
+      ['3-2', 60, 6, 2],
+      ['3-3', 70, 6, 4],
+      ['3-4', 70, 6, 4],
+    ]);
+  });
+
+  test('simulateEconomy should level and roll down on the planned rounds', () => {
+    const result = simulateEconomy({ stage: '3-7', gold: 50, level: 7, xp: 0, streak: 0 }, plan('fast-8'), 2);
+
+    expect(result.rounds).toEqual([
+      { stage: '4-1', income: 10, interest: 5, gold: 12, level: 8, xp: 2, spentOnXp: 48, spentOnRolls: 0 },
+      { stage: '4-2', income: 6, interest: 1, gold: 10, level: 8, xp: 4, spentOnXp: 0, spentOnRolls: 8 },
+    ]);
+    expect(result.finalLevel).toBe(8);
+    expect(result.totalSpentOnRolls).toBe(8);
+  });
+
+  test('simulateEconomy should keep slow rolling that started before the projection', () => {
+    const result = simulateEconomy({ stage: '3-3', gold: 60, level: 6, xp: 0, streak: 0 }, plan('slow-roll-6'), 2);
+
+    expect(result.rounds.map(round => [round.stage, round.gold, round.spentOnRolls])).toEqual([
+      ['3-4', 50, 10],
+      ['3-5', 50, 10],
+    ]);
+  });
+
+  test('fast 8 should reach level 8 earlier than slow rolling', () => {
+    const start = { stage: '3-1', gold: 40, level: 6, xp: 0, streak: 2 };
+    const fast = simulateEconomy(start, plan('fast-8'), 10);
+    const slow = simulateEconomy(start, plan('slow-roll-7'), 10);
+
+    expect(fast.rounds.find(round => round.stage === '4-1')!.level).toBe(8);
+    expect(slow.rounds.find(round => round.stage === '4-1')!.level).toBe(7);
+  });
+});
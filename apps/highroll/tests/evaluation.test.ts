@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  calculateNdcg,
+  evaluate,
+  fromMatchDetails,
+  identifyFinalComp,
+  parseEvaluationFixture,
+  summarizeResults,
+} from '../src/renderer/services/evaluation';
+import { MatchDetails } from '../src/shared/types';
+
+// The analyzer only fetches comps when none are given
+jest.mock('../src/renderer/services/data-api', () => ({
+  fetchTeamComps: jest.fn().mockRejectedValue(new Error('The evaluation should run offline')),
+}));
+
+const fixture = parseEvaluationFixture(
+  JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'evaluation', 'timelines.json'), 'utf8'))
+);
+
+describe('Recommendation Evaluation', () => {
+  test('parseEvaluationFixture should fill in partial game states and their traits', () => {
+    const [first] = fixture.matches[0]!.timeline;
+
+    expect(first).toMatchObject({ stage: '2-1', items: [], augments: [], offeredAugments: [], streak: 0 });
+    expect(first!.traits.find(trait => trait.name === 'Warden')).toMatchObject({ count: 2, active: true });
+  });
+
+  test('parseEvaluationFixture should reject entries that are not comps or matches', () => {
+    expect(() => parseEvaluationFixture([])).toThrow('Fixture is not an object');
+    expect(() => parseEvaluationFixture({ teamComps: {} })).toThrow('Fixture has teamComps that is not a list');
+    expect(() => parseEvaluationFixture({ teamComps: [{ id: 'duelists' }] })).toThrow('Fixture has a team comp without an id or name');
+    expect(() => parseEvaluationFixture({ matches: [{ id: 1, placement: '2nd' }] })).toThrow('Match 1 has a placement that is not a number');
+    expect(() => parseEvaluationFixture({ matches: [{ id: 1, timeline: [{ units: [] }] }] })).toThrow(
+      'Match 1 has a game state without a stage'
+    );
+    expect(parseEvaluationFixture({})).toEqual({ teamComps: [], matches: [] });
+  });
+
+  test('identifyFinalComp should pick the comp sharing the most units with the board', () => {
+    const spirit = fixture.matches[0]!;
+    const finalState = spirit.timeline[spirit.timeline.length - 1]!;
+
+    expect(identifyFinalComp(finalState, fixture.teamComps)?.id).toBe('spirit-sorcerers');
+    expect(identifyFinalComp({ ...finalState, units: [] }, fixture.teamComps)).toBeUndefined();
+  });
+
+  test('calculateNdcg should discount lower ranks and ignore those past K', () => {
+    expect(calculateNdcg(1, 3)).toBe(1);
+    expect(calculateNdcg(3, 3)).toBeCloseTo(0.5);
+    expect(calculateNdcg(4, 3)).toBe(0);
+    expect(calculateNdcg(null, 3)).toBe(0);
+  });
+
+  test('summarizeResults should average hit rate, rank and NDCG', () => {
+    const metrics = summarizeResults(
+      'Overall',
+      [
+        { matchId: 'a', stage: '2-1', placement: 1, rank: 1 },
+        { matchId: 'a', stage: '3-2', placement: 1, rank: 3 },
+        { matchId: 'b', stage: '2-1', placement: 8, rank: 4 },
+        { matchId: 'b', stage: '3-2', placement: 8, rank: null },
+      ],
+      3
+    );
+
+    expect(metrics).toEqual({
+      key: 'Overall',
+      snapshots: 4,
+      hitRate: 0.25,
+      hitRateAtK: 0.5,
+      meanRank: 2.667,
+      ndcg: 0.375,
+    });
+  });
+
+  test('evaluate should replay the fixture timelines offline', async () => {
+    const report = await evaluate(fixture.matches, fixture.teamComps);
+
+    expect(report.k).toBe(3);
+    expect(report.skipped).toEqual(['unreadable-board']);
+    expect(report.overall).toMatchObject({ snapshots: 10, hitRate: 0.8, hitRateAtK: 1 });
+    expect(report.byStage.map(metrics => metrics.key)).toEqual(['Stage 2', 'Stage 3', 'Stage 4', 'Stage 5']);
+    expect(report.byStage[0]).toMatchObject({ snapshots: 3, meanRank: 2 });
+    expect(report.byPlacement.map(metrics => [metrics.key, metrics.snapshots])).toEqual([
+      ['Top 4', 7],
+      ['Bottom 4', 3],
+    ]);
+  });
+
+  test('fromMatchDetails should replay recorded snapshots in stage order', () => {
+    const [, , gameState] = fixture.matches[0]!.timeline;
+    const match: MatchDetails = {
+      id: 12,
+      startedAt: 0,
+      endedAt: 1,
+      placement: 3,
+      finalStage: '4-1',
+      compId: 'duelists',
+      compName: 'Duelists',
+      opener: null,
+      augments: [],
+      items: [],
+      snapshots: [
+        { stage: '4-1', capturedAt: 3, gameState: gameState! },
+        { stage: '2-1', capturedAt: 1, gameState: { ...gameState!, stage: '2-1' } },
+      ],
+    };
+
+    const replayed = fromMatchDetails(match);
+
+    expect(replayed).toMatchObject({ id: '12', placement: 3 });
+    expect(replayed.finalCompId).toBeUndefined();
+    expect(replayed.timeline.map(state => state.stage)).toEqual(['2-1', '4-1']);
+  });
+});
@@ -1,26 +1,57 @@
-import { captureAndAnalyzeScreen, cleanup } from '../src/renderer/services/game-state';
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeFrame, captureAndAnalyzeScreen, cleanup, extractGameState } from '../src/renderer/services/game-state';
+import { decodePng, toPixelRect } from '../src/renderer/services/image-processing';
+import { CAPTURE_REGIONS, OCR_SETTINGS } from '../src/shared/constants';
 import { GameState } from '../src/shared/types';
 
-// Mock Electron's ipcRenderer
-jest.mock('electron', () => ({
-  ipcRenderer: {
-    invoke: jest.fn(),
-    on: jest.fn(),
-    removeListener: jest.fn(),
-  },
+// Synthetic frames with the HUD laid out at several resolutions. They are not
+// game screenshots and the OCR output is scripted, so these tests cover
+// cropping, preprocessing and parsing, not Tesseract's recognition.
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'hud-parsing');
+
+// Mock the preload bridge. The main process has no icon atlas here.
+jest.mock('../src/renderer/services/ipc', () => ({
+  invoke: jest.fn(),
+  request: jest.fn().mockResolvedValue({}),
+}));
+
+// Mock the capture stream, see screen-capture.test.ts
+jest.mock('../src/renderer/services/screen-capture', () => ({
+  captureFrame: jest.fn(),
 }));
 
 // Mock Tesseract.js
 jest.mock('tesseract.js', () => ({
   createWorker: jest.fn().mockResolvedValue({
-    recognize: jest.fn().mockResolvedValue({
+    setParameters: jest.fn(),
+    terminate: jest.fn(),
+  }),
+  createScheduler: jest.fn(() => ({
+    addWorker: jest.fn(),
+    addJob: jest.fn().mockResolvedValue({
       data: { text: '50' },
     }),
     terminate: jest.fn(),
+  })),
+  PSM: { SINGLE_LINE: '7' },
+}));
+
+// Mock the augment list used to match card titles
+jest.mock('../src/renderer/services/data-api', () => ({
+  fetchAugments: jest.fn().mockResolvedValue({
+    success: true,
+    data: [
+      { id: 'spirit-heart', name: 'Spirit Heart', description: '', tier: 'Gold' },
+      { id: 'spell-sword', name: 'Spell Sword', description: '', tier: 'Silver' },
+      { id: 'built-different-3', name: 'Built Different III', description: '', tier: 'Prismatic' },
+      { id: 'built-different-2', name: 'Built Different II', description: '', tier: 'Gold' },
+      { id: 'jeweled-lotus', name: 'Jeweled Lotus', description: '', tier: 'Prismatic' },
+    ],
   }),
 }));
 
-describe('Game State Detection', () => {
+describe('Screen analysis', () => {
   afterEach(() => {
     jest.clearAllMocks();
   });
@@ -30,16 +61,12 @@ describe('Game State Detection', () => {
   });
 
   test('captureAndAnalyzeScreen should return game state on successful capture', async () => {
-    // Mock successful screen capture
-    const { ipcRenderer } = require('electron');
-    ipcRenderer.invoke.mockResolvedValue({
-      success: true,
-      imagePath: '/path/to/image.png',
-    });
+    const { captureFrame } = require('../src/renderer/services/screen-capture');
+    captureFrame.mockResolvedValue(await decodePng(fs.readFileSync(path.join(FIXTURES_DIR, 'stage-2-1-1920x1080.png'))));
 
     const gameState = await captureAndAnalyzeScreen();
 
-    expect(ipcRenderer.invoke).toHaveBeenCalledWith('capture-screen');
+    expect(captureFrame).toHaveBeenCalled();
     expect(gameState).not.toBeNull();
     expect(gameState).toHaveProperty('stage');
     expect(gameState).toHaveProperty('playerLevel');
@@ -47,16 +74,95 @@ describe('Game State Detection', () => {
   });
 
   test('captureAndAnalyzeScreen should return null on failed capture', async () => {
-    // Mock failed screen capture
-    const { ipcRenderer } = require('electron');
-    ipcRenderer.invoke.mockResolvedValue({
-      success: false,
-      error: 'Screen capture failed',
-    });
+    const { captureFrame } = require('../src/renderer/services/screen-capture');
+    captureFrame.mockResolvedValue(null);
 
     const gameState = await captureAndAnalyzeScreen();
 
-    expect(ipcRenderer.invoke).toHaveBeenCalledWith('capture-screen');
+    expect(captureFrame).toHaveBeenCalled();
     expect(gameState).toBeNull();
   });
 });
+
+describe('Frame analysis', () => {
+  test('analyzeFrame should take units from the template matcher and time each step', async () => {
+    const frame = await decodePng(fs.readFileSync(path.join(FIXTURES_DIR, 'stage-2-1-1920x1080.png')));
+    const ahri = { id: 'ahri', name: 'Ahri', cost: 2, tier: 1, items: [], traits: [] };
+    const matcher = {
+      matchBoard: jest.fn().mockResolvedValue({ board: [ahri], bench: [], items: [], augmentIds: ['jeweled-lotus'] }),
+      matchCarousel: jest.fn().mockResolvedValue([]),
+      terminate: jest.fn(),
+    };
+
+    const { gameState, timings } = await analyzeFrame(frame, async region => (region === 'STAGE' ? '2-1' : ''), matcher);
+
+    expect(matcher.matchBoard).toHaveBeenCalledWith(frame);
+    expect(matcher.matchCarousel).not.toHaveBeenCalled();
+    expect(gameState.stage).toBe('2-1');
+    expect(gameState.units).toEqual([ahri]);
+    expect(gameState.augments.map(augment => augment.name)).toEqual(['Jeweled Lotus']);
+    expect(timings.ocr).toBeGreaterThanOrEqual(0);
+    expect(timings.templateMatching).toBeGreaterThanOrEqual(0);
+  });
+
+  test('analyzeFrame should report a missing icon atlas', async () => {
+    const { request } = require('../src/renderer/services/ipc');
+    request.mockRejectedValueOnce(new Error('Icon atlas not found at /opt/highroll/public/atlas/champions'));
+    const frame = await decodePng(fs.readFileSync(path.join(FIXTURES_DIR, 'stage-2-1-1920x1080.png')));
+
+    const { gameState, warnings } = await analyzeFrame(frame, async region => (region === 'STAGE' ? '2-1' : ''));
+
+    expect(gameState.stage).toBe('2-1');
+    expect(gameState.units).toEqual([]);
+    expect(warnings).toEqual([
+      'Units and items not detected: Icon atlas not found at /opt/highroll/public/atlas/champions',
+    ]);
+    await cleanup();
+  });
+});
+
+describe('HUD parsing of synthetic frames with scripted OCR', () => {
+  // Each fixture scripts the text OCR returns per region, including typical
+  // misreads and an out-of-range health, and the game state it should parse
+  // into. Tesseract itself is not run.
+  const fixtures: Array<{
+    image: string;
+    ocr: Record<string, string | string[]>;
+    expected: Partial<GameState>;
+  }> = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, 'manifest.json'), 'utf8'));
+
+  test.each(fixtures.map(fixture => [fixture.image, fixture]))('%s', async (_, fixture) => {
+    const frame = await decodePng(fs.readFileSync(path.join(FIXTURES_DIR, fixture.image)));
+    const regionsRead: string[] = [];
+    const augmentTitles = [...(fixture.ocr.AUGMENTS ?? [])];
+
+    const gameState = await extractGameState(frame, async (region, image) => {
+      regionsRead.push(region);
+
+      // Augment titles are read card by card from sub-areas of the region
+      if (region === 'AUGMENTS') {
+        return augmentTitles.shift() ?? '';
+      }
+
+      // The recognizer should receive the region cropped at the capture's
+      // resolution and upscaled, encoded as PBM
+      const rect = toPixelRect(frame, CAPTURE_REGIONS[region]);
+      const header = new TextDecoder().decode(image.subarray(0, 20)).split('\n');
+      expect(header[0]).toBe('P4');
+      expect(header[1]).toBe(`${rect.width * OCR_SETTINGS.UPSCALE_FACTOR} ${rect.height * OCR_SETTINGS.UPSCALE_FACTOR}`);
+
+      return (fixture.ocr[region] as string | undefined) ?? '';
+    });
+
+    expect(regionsRead.filter(region => region !== 'AUGMENTS').sort()).toEqual([
+      'GOLD',
+      'HEALTH',
+      'LEVEL',
+      'PLACEMENT',
+      'ROUND_PHASE',
+      'SCOUTED_PLAYER',
+      'STAGE',
+    ]);
+    expect(gameState).toMatchObject(fixture.expected);
+  });
+});
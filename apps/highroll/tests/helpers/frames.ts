@@ -0,0 +1,61 @@
+import { resize, type ImageFrame, type PixelRect } from '../../src/renderer/services/image-processing';
+import type { IconAtlas } from '../../src/renderer/services/icon-atlas';
+import { UNIT_DETECTION } from '../../src/shared/constants';
+
+// Deterministic pseudo-random generator so icons are stable between runs
+const random = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+// A blocky, high-contrast icon unique to each seed
+export const makeIcon = (seed: number, size = 48): ImageFrame => {
+  const next = random(seed);
+  const blocks = Array.from({ length: 16 }, () => [next() * 255, next() * 255, next() * 255]);
+  const data = new Uint8ClampedArray(size * size * 4);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const block = blocks[Math.floor((y / size) * 4) * 4 + Math.floor((x / size) * 4)]!;
+      data.set([block[0]!, block[1]!, block[2]!, 255], (y * size + x) * 4);
+    }
+  }
+
+  return { width: size, height: size, channels: 4, data };
+};
+
+// A flat frame resembling the dark game background
+export const blankFrame = (width: number, height: number): ImageFrame => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([30, 40, 60, 255], i * 4);
+  }
+  return { width, height, channels: 4, data };
+};
+
+// Draw an image scaled into a rectangle of the frame
+export const paste = (frame: ImageFrame, image: ImageFrame, rect: PixelRect) => {
+  const scaled = resize(image, rect.width, rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const row = scaled.data.subarray(y * rect.width * 4, (y + 1) * rect.width * 4);
+    frame.data.set(row, ((rect.top + y) * frame.width + rect.left) * 4);
+  }
+};
+
+// Fill a rectangle of the frame with a solid color
+export const fill = (frame: ImageFrame, rect: PixelRect, color: [number, number, number]) => {
+  for (let y = rect.top; y < rect.top + rect.height; y++) {
+    for (let x = rect.left; x < rect.left + rect.width; x++) {
+      frame.data.set([...color, 255], (y * frame.width + x) * 4);
+    }
+  }
+};
+
+// Build an icon atlas the way loadIconAtlas does, from in-memory icons
+export const makeAtlas = (icons: Record<string, ImageFrame>): IconAtlas =>
+  new Map(
+    Object.entries(icons).map(([id, icon]) => [
+      id,
+      resize(icon, UNIT_DETECTION.TEMPLATE_SIZE, UNIT_DETECTION.TEMPLATE_SIZE),
+    ])
+  );
@@ -0,0 +1,138 @@
+const { DEFAULT_HOTKEYS, findHotkeyConflicts, normalizeHotkey } = require('../src/shared/hotkeys');
+
+// Record the shortcuts the main process registers
+jest.mock('electron', () => ({
+  globalShortcut: {
+    register: jest.fn(() => true),
+    unregister: jest.fn(),
+  },
+}));
+
+// The saved bindings live in the meta data cache
+jest.mock('../src/main/data-service', () => ({
+  getMeta: jest.fn(() => null),
+  setMeta: jest.fn(),
+}));
+
+const hotkeys = {
+  toggleOverlay: 'Alt+T',
+  captureScreen: 'Alt+C',
+  cycleTabs: 'Alt+N',
+  toggleClickThrough: 'Alt+X',
+  markScoutingTarget: 'Alt+S',
+};
+
+describe('Hotkeys', () => {
+  const { globalShortcut } = require('electron');
+  const dataService = require('../src/main/data-service');
+  const {
+    createHotkeyActions,
+    registerHotkeys,
+    registerSavedHotkeys,
+    updateHotkeys,
+    getHotkeys,
+    unregisterHotkeys,
+  } = require('../src/main/hotkeys');
+
+  const mainWindow = { isDestroyed: () => false, webContents: { send: jest.fn() } };
+  const overlayWindow = {
+    isVisible: jest.fn(() => true),
+    isFocused: jest.fn(() => false),
+    show: jest.fn(),
+    hide: jest.fn(),
+    setIgnoreMouseEvents: jest.fn(),
+  };
+  const actions = createHotkeyActions(mainWindow, overlayWindow);
+
+  afterEach(() => {
+    unregisterHotkeys();
+    jest.clearAllMocks();
+  });
+
+  test('compares accelerators regardless of case and modifier order', () => {
+    expect(normalizeHotkey('Shift+Alt+t')).toBe(normalizeHotkey('alt+shift+T'));
+    expect(normalizeHotkey('Option+T')).toBe(normalizeHotkey('Alt+T'));
+    expect(normalizeHotkey('Alt+')).toBeNull();
+    expect(normalizeHotkey('Alt+Shift')).toBeNull();
+    expect(normalizeHotkey('A+B')).toBeNull();
+  });
+
+  test('reports keys bound to two actions and invalid accelerators', () => {
+    expect(findHotkeyConflicts(hotkeys)).toEqual({});
+    expect(findHotkeyConflicts({ ...hotkeys, cycleTabs: 'alt+t', markScoutingTarget: 'Ctrl+' })).toEqual({
+      cycleTabs: 'alt+t is already bound to Toggle Overlay',
+      markScoutingTarget: 'Ctrl+ is not a valid shortcut',
+    });
+    expect(findHotkeyConflicts({ ...hotkeys, cycleTabs: '', captureScreen: '' })).toEqual({});
+  });
+
+  test('registers every bound action and replaces the previous bindings', () => {
+    expect(registerHotkeys(hotkeys, actions)).toEqual({ errors: {} });
+    expect(globalShortcut.register).toHaveBeenCalledTimes(5);
+    expect(globalShortcut.register).toHaveBeenCalledWith('Alt+T', actions.toggleOverlay);
+
+    registerHotkeys({ ...hotkeys, cycleTabs: '' }, actions);
+    expect(globalShortcut.unregister).toHaveBeenCalledTimes(5);
+    expect(globalShortcut.register).toHaveBeenCalledTimes(9);
+    expect(globalShortcut.register).not.toHaveBeenLastCalledWith('Alt+N', expect.anything());
+  });
+
+  test('reports shortcuts taken by other applications or rejected by Electron', () => {
+    globalShortcut.register.mockImplementation((accelerator: string) => {
+      if (accelerator === 'Alt+X') throw new Error('conversion failure');
+      return accelerator !== 'Alt+C';
+    });
+
+    const { errors } = registerHotkeys({ ...hotkeys, cycleTabs: 'Alt+T' }, actions);
+
+    expect(errors).toEqual({
+      captureScreen: 'Alt+C is already in use by another application',
+      cycleTabs: 'Alt+T is already bound to Toggle Overlay',
+      toggleClickThrough: 'Alt+X is not a valid shortcut',
+    });
+    expect(globalShortcut.register).not.toHaveBeenCalledWith('Alt+T', actions.cycleTabs);
+
+    unregisterHotkeys();
+    expect(globalShortcut.unregister.mock.calls).toEqual([['Alt+T'], ['Alt+S']]);
+    globalShortcut.register.mockImplementation(() => true);
+  });
+
+  test('registers the saved bindings at startup, or the defaults before the first save', () => {
+    registerSavedHotkeys(actions);
+    expect(globalShortcut.register).toHaveBeenCalledWith('Alt+T', actions.toggleOverlay);
+    expect(getHotkeys()).toEqual({ hotkeys: DEFAULT_HOTKEYS, errors: {} });
+
+    dataService.getMeta.mockReturnValueOnce({ value: JSON.stringify({ ...hotkeys, cycleTabs: 'Alt+T' }), updatedAt: 1 });
+    registerSavedHotkeys(actions);
+    expect(getHotkeys()).toEqual({
+      hotkeys: { ...hotkeys, cycleTabs: 'Alt+T' },
+      errors: { cycleTabs: 'Alt+T is already bound to Toggle Overlay' },
+    });
+  });
+
+  test('saves the bindings registered from Settings', () => {
+    const bindings = { ...hotkeys, captureScreen: 'Ctrl+Shift+C' };
+
+    expect(updateHotkeys(bindings, actions)).toEqual({ errors: {} });
+    expect(globalShortcut.register).toHaveBeenCalledWith('Ctrl+Shift+C', actions.captureScreen);
+    expect(dataService.setMeta).toHaveBeenCalledWith('hotkeys', JSON.stringify(bindings));
+    expect(getHotkeys().hotkeys).toEqual(bindings);
+  });
+
+  test('runs overlay actions in the main process and passes the others to the renderer', () => {
+    actions.toggleOverlay();
+    expect(overlayWindow.hide).toHaveBeenCalled();
+
+    actions.toggleClickThrough();
+    expect(overlayWindow.setIgnoreMouseEvents).toHaveBeenLastCalledWith(false);
+    actions.toggleClickThrough();
+    expect(overlayWindow.setIgnoreMouseEvents).toHaveBeenLastCalledWith(true, { forward: true });
+
+    actions.cycleTabs();
+    actions.markScoutingTarget();
+    expect(mainWindow.webContents.send.mock.calls).toEqual([
+      ['hotkey-pressed', 'cycleTabs'],
+      ['hotkey-pressed', 'markScoutingTarget'],
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  changedPixelRatio,
+  cropRegion,
+  encodePbm,
+  meanAbsoluteDifference,
+  otsuThreshold,
+  threshold,
+  toGrayscale,
+  toPixelRect,
+  upscale,
+  type ImageFrame,
+} from '../src/renderer/services/image-processing';
+
+// Build an RGBA frame where every pixel has the given gray value
+const solidFrame = (width: number, height: number, value: number): ImageFrame => ({
+  width,
+  height,
+  channels: 4,
+  data: new Uint8ClampedArray(width * height * 4).fill(value),
+});
+
+describe('Image Processing', () => {
+  test('toPixelRect should scale relative regions to the frame resolution', () => {
+    const region = { x: 0.9, y: 0.1, width: 0.1, height: 0.1 };
+
+    expect(toPixelRect({ width: 1920, height: 1080 }, region)).toEqual({ left: 1728, top: 108, width: 192, height: 108 });
+    expect(toPixelRect({ width: 1280, height: 720 }, region)).toEqual({ left: 1152, top: 72, width: 128, height: 72 });
+  });
+
+  test('toPixelRect should clamp regions that extend past the frame', () => {
+    const rect = toPixelRect({ width: 100, height: 100 }, { x: 0.95, y: 0.95, width: 0.2, height: 0.2 });
+
+    expect(rect).toEqual({ left: 95, top: 95, width: 5, height: 5 });
+  });
+
+  test('cropRegion should copy the pixels inside the region', () => {
+    const frame = solidFrame(10, 10, 0);
+    // Paint pixel (5, 5) white
+    frame.data.fill(255, (5 * 10 + 5) * 4, (5 * 10 + 6) * 4);
+
+    const cropped = cropRegion(frame, { x: 0.5, y: 0.5, width: 0.2, height: 0.2 });
+
+    expect(cropped.width).toBe(2);
+    expect(cropped.height).toBe(2);
+    expect(Array.from(cropped.data.subarray(0, 4))).toEqual([255, 255, 255, 255]);
+    expect(Array.from(cropped.data.subarray(4, 8))).toEqual([0, 0, 0, 0]);
+  });
+
+  test('threshold should turn bright text into dark pixels on white', () => {
+    const gray = toGrayscale(solidFrame(4, 1, 20));
+    gray.data[1] = 230;
+    gray.data[2] = 240;
+
+    const level = otsuThreshold(gray);
+    const binary = threshold(gray, level);
+
+    expect(level).toBeGreaterThanOrEqual(20);
+    expect(level).toBeLessThan(230);
+    expect(Array.from(binary.data)).toEqual([255, 0, 0, 255]);
+  });
+
+  test('upscale should repeat each pixel by the factor', () => {
+    const gray = toGrayscale(solidFrame(2, 1, 0));
+    gray.data[1] = 255;
+
+    const scaled = upscale(gray, 2);
+
+    expect(scaled.width).toBe(4);
+    expect(scaled.height).toBe(2);
+    expect(Array.from(scaled.data)).toEqual([0, 0, 255, 255, 0, 0, 255, 255]);
+  });
+
+  test('encodePbm should pack dark pixels as set bits', () => {
+    const gray = toGrayscale(solidFrame(9, 1, 255));
+    gray.data[0] = 0;
+    gray.data[8] = 0;
+
+    const pbm = encodePbm(gray);
+    const header = 'P4\n9 1\n';
+
+    expect(new TextDecoder().decode(pbm.subarray(0, header.length))).toBe(header);
+    expect(Array.from(pbm.subarray(header.length))).toEqual([0x80, 0x80]);
+  });
+
+  test('meanAbsoluteDifference should average the per-channel differences', () => {
+    const a = toGrayscale(solidFrame(2, 2, 100));
+    const b = toGrayscale(solidFrame(2, 2, 100));
+    b.data[0] = 140;
+
+    expect(meanAbsoluteDifference(a, a)).toBe(0);
+    expect(meanAbsoluteDifference(a, b)).toBe(10);
+    expect(() => meanAbsoluteDifference(a, solidFrame(2, 2, 100))).toThrow('same size');
+  });
+
+  test('changedPixelRatio should count the values that changed by at least the delta', () => {
+    const a = toGrayscale(solidFrame(2, 2, 100));
+    const b = toGrayscale(solidFrame(2, 2, 100));
+    b.data[0] = 140;
+    b.data[1] = 110;
+
+    expect(changedPixelRatio(a, a, 32)).toBe(0);
+    expect(changedPixelRatio(a, b, 32)).toBe(0.25);
+    expect(changedPixelRatio(a, b, 10)).toBe(0.5);
+  });
+});
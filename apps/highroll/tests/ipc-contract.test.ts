@@ -0,0 +1,77 @@
+const { getChannels, validatePayload } = require('../src/shared/ipc-channels');
+
+// Record the handlers the main process registers
+jest.mock('electron', () => ({
+  ipcMain: {
+    handle: jest.fn(),
+    on: jest.fn(),
+  },
+  globalShortcut: { register: jest.fn(() => true), unregister: jest.fn() },
+  desktopCapturer: { getSources: jest.fn() },
+  screen: { getPrimaryDisplay: jest.fn() },
+}));
+
+// Nothing saved: the startup registration uses the default hotkeys
+jest.mock('../src/main/data-service');
+
+describe('IPC Contract', () => {
+  const { ipcMain } = require('electron');
+  const { setupIpcHandlers } = require('../src/main/ipc-handlers');
+  const overlayWindow = {
+    setOpacity: jest.fn(),
+    isDestroyed: () => false,
+    webContents: { send: jest.fn() },
+  };
+
+  setupIpcHandlers({}, overlayWindow);
+
+  const handlers = new Map<string, (event: unknown, payload?: unknown) => unknown>(ipcMain.handle.mock.calls);
+  const listeners = new Map<string, (event: unknown, payload?: unknown) => void>(ipcMain.on.mock.calls);
+
+  test('every invoke channel has exactly one handler', () => {
+    expect([...handlers.keys()].sort()).toEqual(getChannels('invoke').sort());
+    expect(ipcMain.handle).toHaveBeenCalledTimes(handlers.size);
+  });
+
+  test('every send channel has a listener', () => {
+    expect([...listeners.keys()].sort()).toEqual(getChannels('send').sort());
+  });
+
+  test('handlers reject payloads that do not match the channel schema', () => {
+    expect(() => handlers.get('set-overlay-opacity')!({}, 'opaque')).toThrow(
+      'Invalid set-overlay-opacity request: payload must be a number'
+    );
+    expect(overlayWindow.setOpacity).not.toHaveBeenCalled();
+
+    expect(handlers.get('set-overlay-opacity')!({}, 0.5)).toBe(0.5);
+    expect(overlayWindow.setOpacity).toHaveBeenCalledWith(0.5);
+  });
+
+  test('listeners drop invalid messages', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    listeners.get('update-game-state')!({}, 'not a game state');
+    expect(overlayWindow.webContents.send).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledWith('Invalid update-game-state message: payload must be an object');
+
+    listeners.get('update-game-state')!({}, { stage: '2-1' });
+    expect(overlayWindow.webContents.send).toHaveBeenCalledWith('game-state-updated', { stage: '2-1' });
+    error.mockRestore();
+  });
+
+  test('validates nested, optional and array fields', () => {
+    expect(validatePayload('find-capture-source', undefined)).toBeNull();
+    expect(validatePayload('find-capture-source', 'now')).toBe('payload must be empty');
+    expect(validatePayload('save-debug-frame', { png: new Uint8Array(4), capturedAt: 1 })).toBeNull();
+    expect(validatePayload('save-debug-frame', { png: 'png', capturedAt: 1 })).toBe('payload.png must be a Uint8Array');
+    expect(validatePayload('resize-overlay', { width: 400 })).toBeNull();
+    expect(validatePayload('resize-overlay', { width: '400px' })).toBe('payload.width must be a number');
+    expect(validatePayload('read-atlas-icons', { atlas: 'items', ids: ['a', 1] })).toBe(
+      'payload.ids must be a string[]'
+    );
+    expect(validatePayload('write-dataset', { dataset: 'items', rows: [{ id: 'a' }] })).toBeNull();
+    expect(validatePayload('query-matches', undefined)).toBeNull();
+    expect(validatePayload('start-match', NaN)).toBe('payload must be a number');
+    expect(validatePayload('delete-everything', {})).toBe('Unknown IPC channel: delete-everything');
+  });
+});
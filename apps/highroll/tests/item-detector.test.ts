@@ -0,0 +1,81 @@
+import { detectBenchItems, getItemBenchSlots, getUnitItemRects } from '../src/renderer/services/item-detector';
+import { detectUnitsInFrame, getBoardCells, getPortraitRect } from '../src/renderer/services/unit-detector';
+import { ITEM_TYPES } from '../src/shared/constants';
+import { blankFrame, makeAtlas, makeIcon, paste } from './helpers/frames';
+
+describe('Item Detection', () => {
+  const icons = {
+    TFT_Item_BFSword: makeIcon(11),
+    TFT_Item_RecurveBow: makeIcon(12),
+    TFT_Item_Deathcap: makeIcon(13),
+    TFT9_Item_SpiritEmblem: makeIcon(14),
+  };
+  const itemAtlas = makeAtlas(icons);
+
+  test('recognizes items on the item bench with type, components and confidence', () => {
+    const frame = blankFrame(1920, 1080);
+    const slots = getItemBenchSlots(frame);
+    paste(frame, icons.TFT_Item_BFSword, slots[0]!);
+    paste(frame, icons.TFT_Item_RecurveBow, slots[1]!);
+    paste(frame, icons.TFT9_Item_SpiritEmblem, slots[6]!);
+
+    const items = detectBenchItems(frame, itemAtlas);
+
+    expect(items).toEqual([
+      expect.objectContaining({ id: 'TFT_Item_BFSword', name: 'B.F. Sword', type: ITEM_TYPES.BASIC }),
+      expect.objectContaining({ id: 'TFT_Item_RecurveBow', type: ITEM_TYPES.BASIC }),
+      expect.objectContaining({
+        id: 'TFT9_Item_SpiritEmblem',
+        type: ITEM_TYPES.SPECIAL,
+        components: ['TFT_Item_Spatula', 'TFT_Item_TearOfTheGoddess'],
+      }),
+    ]);
+    items.forEach(item => {
+      expect(item.confidence).toBeGreaterThan(0.9);
+      expect(item.confidence).toBeLessThanOrEqual(1);
+    });
+  });
+
+  test('reports lower confidence for a degraded icon', () => {
+    const frame = blankFrame(1920, 1080);
+    const slot = getItemBenchSlots(frame)[0]!;
+    paste(frame, icons.TFT_Item_BFSword, slot);
+
+    // Wash out the top of the icon, as when a tooltip overlaps it
+    for (let y = slot.top; y < slot.top + slot.height / 4; y++) {
+      for (let x = slot.left; x < slot.left + slot.width; x++) {
+        frame.data.set([200, 200, 200, 255], (y * frame.width + x) * 4);
+      }
+    }
+
+    const [item] = detectBenchItems(frame, itemAtlas);
+
+    expect(item?.id).toBe('TFT_Item_BFSword');
+    expect(item!.confidence!).toBeLessThan(0.9);
+  });
+
+  test('attaches items shown under a unit to that unit', () => {
+    const frame = blankFrame(1280, 720);
+    const portraitIcon = makeIcon(1);
+    const cell = getBoardCells(frame).find(c => c.row === 2 && c.col === 3)!;
+    const portrait = getPortraitRect(frame, cell);
+    paste(frame, portraitIcon, portrait);
+
+    const [first, second] = getUnitItemRects(frame, portrait);
+    paste(frame, icons.TFT_Item_Deathcap, first!);
+    paste(frame, icons.TFT_Item_BFSword, second!);
+
+    const { board } = detectUnitsInFrame(frame, makeAtlas({ TFT9_Ahri: portraitIcon }), itemAtlas);
+
+    expect(board).toHaveLength(1);
+    expect(board[0]!.items.map(item => item.id)).toEqual(['TFT_Item_Deathcap', 'TFT_Item_BFSword']);
+    expect(board[0]!.items[0]).toMatchObject({
+      type: ITEM_TYPES.COMBINED,
+      components: ['TFT_Item_NeedlesslyLargeRod', 'TFT_Item_NeedlesslyLargeRod'],
+    });
+  });
+
+  test('returns nothing without an atlas', () => {
+    expect(detectBenchItems(blankFrame(640, 360), new Map())).toEqual([]);
+  });
+});
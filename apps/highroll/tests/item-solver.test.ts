@@ -0,0 +1,173 @@
+import { buildRecipeGrid, getRecipeComponents, rankItemAlternatives, solveItems } from '../src/renderer/services/item-solver';
+import { GameState, Item, TeamComp, Unit } from '../src/shared/types';
+
+const unit = (name: string, cost: number, items: Item[] = []): Unit => ({
+  id: `TFT9_${name}`,
+  name,
+  cost,
+  tier: 1,
+  items,
+  traits: [],
+});
+
+const component = (id: string, name: string): Item => ({ id: `TFT_Item_${id}`, name, type: 'basic' });
+const rod = component('NeedlesslyLargeRod', 'Needlessly Large Rod');
+const tear = component('TearOfTheGoddess', 'Tear of the Goddess');
+const sword = component('BFSword', 'B.F. Sword');
+const gloves = component('SparringGloves', 'Sparring Gloves');
+const vest = component('ChainVest', 'Chain Vest');
+
+describe('Item Solver', () => {
+  const comps: TeamComp[] = [
+    {
+      id: 'spirit',
+      name: 'Spirit Sorcerers',
+      tier: 'S',
+      units: [
+        {
+          id: 'TFT9_Ahri',
+          name: 'Ahri',
+          priority: 1,
+          items: [
+            { id: 'TFT_Item_SpearOfShojin', name: 'Spear of Shojin', priority: 1 },
+            { id: 'TFT_Item_Deathcap', name: "Rabadon's Deathcap", priority: 1 },
+          ],
+        },
+        { id: 'TFT9_Yuumi', name: 'Yuumi', priority: 2, items: [] },
+      ],
+      traits: [],
+      augments: [],
+      items: [],
+      placement: 4,
+      winRate: 0.15,
+      playRate: 0.08,
+      difficulty: 2,
+    },
+    {
+      id: 'duelists',
+      name: 'Duelists',
+      tier: 'A',
+      units: [
+        {
+          id: 'TFT9_Fiora',
+          name: 'Fiora',
+          priority: 1,
+          items: [{ id: '', name: 'Infinity Edge', priority: 1 }],
+        },
+      ],
+      traits: [],
+      augments: [],
+      items: [],
+      placement: 4.5,
+      winRate: 0.12,
+      playRate: 0.05,
+      difficulty: 2,
+    },
+  ];
+
+  const gameState: GameState = {
+    stage: '3-2',
+    playerLevel: 6,
+    playerHealth: 70,
+    gold: 20,
+    streak: 0,
+    units: [unit('Ahri', 4)],
+    bench: [],
+    items: [rod, sword, tear, gloves, sword],
+    augments: [],
+    offeredAugments: [],
+    traits: [],
+  };
+
+  it('should find the pairing of components worth the most across comps', () => {
+    const plan = solveItems(gameState, comps);
+
+    // Hextech Gunblade is wanted by no comp, so the rod is kept rather than
+    // taking a sword needed for Spear of Shojin or Infinity Edge
+    expect(plan.builds.map(build => [build.item.name, build.holder])).toEqual([
+      ['Spear of Shojin', 'Ahri'],
+      ['Infinity Edge', 'Fiora'],
+    ]);
+    expect(plan.builds[0]!.components.map(item => item.id).sort()).toEqual([sword.id, tear.id].sort());
+    expect(plan.spare).toEqual([rod]);
+  });
+
+  it('should slam items for units on the board and hold the rest', () => {
+    const plan = solveItems(gameState, comps);
+
+    expect(plan.builds[0]).toMatchObject({ action: 'slam', reason: 'Ahri is already on your board' });
+    expect(plan.builds[1]).toMatchObject({ action: 'hold', reason: 'Hold the components until you find Fiora' });
+  });
+
+  it('should slam on a temporary holder at low health', () => {
+    const plan = solveItems({ ...gameState, playerHealth: 30 }, comps);
+
+    expect(plan.builds[1]).toMatchObject({ item: { name: 'Infinity Edge' }, action: 'slam' });
+  });
+
+  it('should skip items the holder already has', () => {
+    const shojin: Item = { id: 'TFT_Item_SpearOfShojin', name: 'Spear of Shojin', type: 'combined' };
+    const plan = solveItems({ ...gameState, units: [unit('Ahri', 4, [shojin])], items: [sword, tear] }, comps);
+
+    expect(plan.builds).toEqual([]);
+    expect(plan.spare).toEqual([sword, tear]);
+  });
+
+  it('should not give a holder more items than it has slots for', () => {
+    const bramble: Item = { id: 'TFT_Item_BrambleVest', name: 'Bramble Vest', type: 'combined' };
+    const full = unit('Ahri', 4, [bramble, bramble, bramble]);
+
+    expect(solveItems({ ...gameState, units: [full], items: [sword, tear] }, comps).builds).toEqual([]);
+    expect(
+      solveItems({ ...gameState, units: [unit('Ahri', 4, [bramble, bramble])], items: [sword, tear, rod, rod] }, comps)
+        .builds.map(build => build.item.name)
+    ).toEqual(['Spear of Shojin']);
+  });
+
+  it('should keep every component when there are no comps', () => {
+    expect(solveItems(gameState, [])).toEqual({ builds: [], spare: gameState.items, value: 0 });
+  });
+
+  it('should mark held pairs and planned items in the recipe grid', () => {
+    const plan = solveItems(gameState, comps);
+    const grid = buildRecipeGrid(gameState, plan);
+    const components = getRecipeComponents();
+    const cell = (first: Item, second: Item) =>
+      grid[components.findIndex(c => c.id === first.id)]![components.findIndex(c => c.id === second.id)]!;
+
+    expect(grid).toHaveLength(components.length);
+    expect(cell(sword, tear)).toMatchObject({ item: { name: 'Spear of Shojin' }, held: true, planned: true });
+    expect(cell(tear, sword)).toEqual(cell(sword, tear));
+    expect(cell(rod, sword)).toMatchObject({ item: { name: 'Hextech Gunblade' }, held: true, planned: false });
+    expect(cell(rod, rod)).toMatchObject({ held: false });
+    expect(cell(vest, vest)).toMatchObject({ item: { name: 'Bramble Vest' }, held: false, planned: false });
+  });
+
+  it('should rank alternative items by the champion\'s placement with them', () => {
+    const placed = (id: string, name: string, avgPlacement: number, games = 200): Item => ({
+      id: `TFT_Item_${id}`,
+      name,
+      type: 'combined',
+      performance: [
+        { champion: 'TFT9_Ahri', avgPlacement, games },
+        { champion: 'TFT9_Yuumi', avgPlacement: 1, games },
+      ],
+    });
+    const items = [
+      placed('SpearOfShojin', 'Spear of Shojin', 3.8),
+      placed('Deathcap', "Rabadon's Deathcap", 4.4),
+      placed('JeweledGauntlet', 'Jeweled Gauntlet', 4.1),
+      placed('Morellonomicon', 'Morellonomicon', 3.2, 10),
+      placed('ArchangelsStaff', "Archangel's Staff", 4.0),
+      placed('HextechGunblade', 'Hextech Gunblade', 4.9),
+      { ...rod, performance: [{ champion: 'TFT9_Ahri', avgPlacement: 2, games: 500 }] },
+    ];
+
+    expect(rankItemAlternatives('Ahri', items, ['Spear of Shojin']).map(a => [a.item.name, a.avgPlacement])).toEqual([
+      ["Archangel's Staff", 4.0],
+      ['Jeweled Gauntlet', 4.1],
+      ["Rabadon's Deathcap", 4.4],
+    ]);
+    expect(rankItemAlternatives('Teemo', items)).toEqual([]);
+  });
+});
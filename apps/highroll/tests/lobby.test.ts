@@ -0,0 +1,75 @@
+import {
+  getContestedUnits,
+  getLobbyTraits,
+  parseScoutedPlayer,
+  updateLobby,
+} from '../src/renderer/services/lobby';
+import { OpponentBoard, TeamComp, Trait, Unit } from '../src/shared/types';
+
+const unit = (name: string, tier = 1): Unit => ({ id: `TFT9_${name}`, name, cost: 1, tier, items: [], traits: [] });
+
+const trait = (name: string, active = true): Trait => ({ id: name, name, count: 2, active, style: active ? 'bronze' : 'none' });
+
+const board = (name: string, units: Unit[], traits: Trait[] = []): OpponentBoard => ({
+  name,
+  stage: '3-2',
+  scoutedAt: 0,
+  units,
+  traits,
+});
+
+describe('Lobby', () => {
+  const comp: TeamComp = {
+    id: 'spirit',
+    name: 'Spirit Sorcerers',
+    tier: 'S',
+    units: [
+      { id: 'TFT9_Ahri', name: 'Ahri', priority: 1, items: [] },
+      { id: 'TFT9_Yuumi', name: 'Yuumi', priority: 2, items: [] },
+      { id: 'TFT9_Teemo', name: 'Teemo', priority: 4, items: [] },
+    ],
+    traits: [],
+    augments: [],
+    items: [],
+    placement: 4,
+    winRate: 0.15,
+    playRate: 0.08,
+    difficulty: 2,
+  };
+
+  test('parseScoutedPlayer should treat short readings as the player\'s own board', () => {
+    expect(parseScoutedPlayer('  Rolldown\n Enjoyer \n')).toBe('Rolldown Enjoyer');
+    expect(parseScoutedPlayer('')).toBeUndefined();
+    expect(parseScoutedPlayer(' a\n')).toBeUndefined();
+  });
+
+  test('updateLobby should replace an opponent\'s previous board', () => {
+    const lobby = updateLobby([board('Rival', [unit('Ahri')]), board('Other', [])], board('Rival', [unit('Yuumi')]));
+
+    expect(lobby.map(opponent => opponent.name)).toEqual(['Other', 'Rival']);
+    expect(lobby[1]!.units[0]!.name).toBe('Yuumi');
+  });
+
+  test('getContestedUnits should count copies of core units across opponents', () => {
+    const opponents = [
+      board('Rival', [unit('Ahri', 2), unit('Teemo', 2)]),
+      board('Other', [unit('Ahri'), unit('Ahri')]),
+      board('Third', [unit('Garen')]),
+    ];
+
+    // Teemo is not a core unit, so holding it does not contest the comp
+    expect(getContestedUnits(comp, opponents)).toEqual([{ name: 'Ahri', copies: 5, opponents: ['Rival', 'Other'] }]);
+  });
+
+  test('getLobbyTraits should list the opponents playing each active trait', () => {
+    const opponents = [
+      board('Rival', [], [trait('Spirit'), trait('Duelist', false)]),
+      board('Other', [], [trait('Spirit'), trait('Bruiser')]),
+    ];
+
+    expect(getLobbyTraits(opponents)).toEqual([
+      { name: 'Spirit', opponents: ['Rival', 'Other'] },
+      { name: 'Bruiser', opponents: ['Other'] },
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+import { getBuiltItems, recordMatchProgress, resetMatchRecorder } from '../src/renderer/services/match-history';
+import { GameEvent, GameState, TeamComp } from '../src/shared/types';
+
+const { buildMatchQuery } = require('../src/main/match-history');
+
+// Mock the preload bridge
+jest.mock('../src/renderer/services/ipc', () => ({
+  invoke: jest.fn(),
+}));
+
+// The known comps the played comp is identified among
+jest.mock('../src/renderer/services/data-api', () => ({
+  fetchTeamComps: jest.fn(),
+}));
+
+const unit = (name: string) => ({ id: `TFT9_${name}`, name, cost: 1, tier: 1, items: [], traits: [] });
+
+const knownComp = (id: string, name: string, units: string[]): TeamComp => ({
+  id,
+  name,
+  tier: 'A',
+  units: units.map((unitName, index) => ({ id: `TFT9_${unitName}`, name: unitName, priority: index + 1, items: [] })),
+  traits: [],
+  augments: [],
+  items: [],
+  placement: 4,
+  winRate: 0.1,
+  playRate: 0.05,
+  difficulty: 3,
+});
+
+const makeGameState = (overrides: Partial<GameState> = {}): GameState => ({
+  stage: '3-1',
+  playerLevel: 6,
+  playerHealth: 70,
+  gold: 30,
+  streak: 0,
+  units: [],
+  bench: [],
+  items: [],
+  augments: [],
+  offeredAugments: [],
+  traits: [],
+  ...overrides,
+});
+
+const roundStarted = (stage: string, previousStage: string, timestamp: number): GameEvent => ({
+  id: timestamp,
+  stage,
+  timestamp,
+  type: 'round_started',
+  previousStage,
+});
+
+describe('Match History', () => {
+  const { invoke } = require('../src/renderer/services/ipc');
+  const { fetchTeamComps } = require('../src/renderer/services/data-api');
+
+  beforeEach(() => {
+    resetMatchRecorder();
+    invoke.mockReset();
+    invoke.mockImplementation(async (channel: string) =>
+      channel === 'start-match' ? { success: true, data: 7 } : { success: true }
+    );
+    fetchTeamComps.mockResolvedValue({
+      success: true,
+      data: [
+        knownComp('duelists', 'Duelists', ['Fiora', 'Yasuo', 'Kalista']),
+        knownComp('comp1', 'Spirit Sorcerers', ['Ahri', 'Yuumi', 'Teemo']),
+      ],
+    });
+  });
+
+  test('buildMatchQuery should combine the given filters', () => {
+    expect(buildMatchQuery()).toEqual({
+      sql: 'SELECT * FROM matches ORDER BY started_at DESC LIMIT ? OFFSET ?',
+      params: [50, 0],
+    });
+
+    const { sql, params } = buildMatchQuery({ from: 100, comp: 'Spirit Sorcerers', augment: 'Spirit Heart', maxPlacement: 4, limit: 10 });
+
+    expect(sql).toBe(
+      'SELECT * FROM matches WHERE started_at >= ? AND (comp_id = ? OR comp_name = ?) AND ' +
+        'EXISTS (SELECT 1 FROM json_each(matches.augments) WHERE json_each.value = ?) AND placement <= ? ' +
+        'ORDER BY started_at DESC LIMIT ? OFFSET ?'
+    );
+    expect(params).toEqual([100, 'Spirit Sorcerers', 'Spirit Sorcerers', 'Spirit Heart', 4, 10, 0]);
+  });
+
+  test('getBuiltItems should list completed items only', () => {
+    const gameState = makeGameState({
+      items: [
+        { id: 'TFT_Item_BFSword', name: 'B.F. Sword', type: 'basic' },
+        { id: 'TFT_Item_InfinityEdge', name: 'Infinity Edge', type: 'combined' },
+      ],
+      units: [
+        {
+          id: 'TFT9_Ahri',
+          name: 'Ahri',
+          cost: 4,
+          tier: 2,
+          items: [{ id: 'TFT_Item_Deathcap', name: "Rabadon's Deathcap", type: 'combined' }],
+          traits: [],
+        },
+      ],
+    });
+
+    expect(getBuiltItems(gameState)).toEqual(['TFT_Item_InfinityEdge', 'TFT_Item_Deathcap']);
+  });
+
+  test('recordMatchProgress should snapshot rounds and record the result', async () => {
+    const round1 = makeGameState({ stage: '3-1' });
+    // The comp played is the one closest to the final board
+    const final = makeGameState({
+      stage: '3-2',
+      playerHealth: 12,
+      placement: 2,
+      units: [unit('Ahri'), unit('Yuumi'), unit('Yasuo')],
+      augments: [{ id: 'spirit_heart', name: 'Spirit Heart', description: '', tier: 'silver' }],
+    });
+
+    await recordMatchProgress([roundStarted('3-1', '', 1000)], null, round1);
+    await recordMatchProgress([roundStarted('3-2', '3-1', 2000)], round1, final);
+    await recordMatchProgress(
+      [{ id: 3, stage: '3-2', timestamp: 3000, type: 'game_ended', finalStage: '3-2' }],
+      final,
+      final
+    );
+
+    expect(invoke.mock.calls).toEqual([
+      ['start-match', 1000],
+      ['record-round-snapshot', { matchId: 7, stage: '3-1', gameState: round1, capturedAt: 2000 }],
+      ['record-round-snapshot', { matchId: 7, stage: '3-2', gameState: final, capturedAt: 3000 }],
+      [
+        'finish-match',
+        {
+          matchId: 7,
+          result: {
+            endedAt: 3000,
+            placement: 2,
+            finalStage: '3-2',
+            compId: 'comp1',
+            compName: 'Spirit Sorcerers',
+            augments: ['Spirit Heart'],
+            items: [],
+          },
+        },
+      ],
+    ]);
+  });
+
+  test('recordMatchProgress should close a match left without an ending', async () => {
+    const late = makeGameState({ stage: '5-3' });
+
+    await recordMatchProgress([roundStarted('5-3', '', 1000)], null, late);
+    await recordMatchProgress([roundStarted('1-1', '5-3', 2000)], late, makeGameState({ stage: '1-1' }));
+
+    expect(invoke.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+      'start-match',
+      'record-round-snapshot',
+      'finish-match',
+      'start-match',
+    ]);
+    expect(invoke.mock.calls[2][1].result.placement).toBeUndefined();
+  });
+
+  test('recordMatchProgress should leave the comp unknown when no known comp matches the board', async () => {
+    const final = makeGameState({ stage: '4-1', units: [unit('Garen')] });
+
+    await recordMatchProgress([roundStarted('4-1', '', 1000)], null, final);
+    await recordMatchProgress([{ id: 2, stage: '4-1', timestamp: 2000, type: 'game_ended', finalStage: '4-1' }], final, final);
+
+    fetchTeamComps.mockResolvedValueOnce({ success: false, error: 'Offline' });
+    await recordMatchProgress([roundStarted('2-1', '', 3000)], null, final);
+    await recordMatchProgress([{ id: 4, stage: '4-1', timestamp: 4000, type: 'game_ended', finalStage: '4-1' }], final, final);
+
+    const results = invoke.mock.calls.filter((call: unknown[]) => call[0] === 'finish-match').map((call: any[]) => call[1].result);
+    expect(results).toHaveLength(2);
+    results.forEach((result: { compId?: string }) => expect(result.compId).toBeUndefined());
+  });
+});
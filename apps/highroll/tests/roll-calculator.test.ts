@@ -0,0 +1,87 @@
+import {
+  calculateRollOdds,
+  countOwnedCopies,
+  expectedGoldToHit,
+  getRollChancesByLevel,
+  getSlotHitChance,
+  probabilityToHit,
+} from '../src/renderer/services/roll-calculator';
+import { getChampionsPerCost, getPoolSizes } from '../src/shared/set-data';
+import { GameState } from '../src/shared/types';
+
+describe('Roll Calculator', () => {
+  const POOL_SIZES = getPoolSizes();
+  const CHAMPIONS_PER_COST = getChampionsPerCost();
+  const threeCost = { cost: 3, level: 7, copiesOwned: 0, copiesOut: 0 };
+
+  test('getRollChancesByLevel should clamp the level to the odds table', () => {
+    expect(getRollChancesByLevel(0)).toEqual(getRollChancesByLevel(1));
+    expect(getRollChancesByLevel(11)).toEqual(getRollChancesByLevel(9));
+    expect(getRollChancesByLevel(7)[3]).toBe(30);
+  });
+
+  test('getSlotHitChance should use the remaining copies of the cost tier', () => {
+    const tierPool = POOL_SIZES[3]! * CHAMPIONS_PER_COST[3]!;
+
+    expect(getSlotHitChance(threeCost)).toBeCloseTo((0.3 * POOL_SIZES[3]!) / tierPool);
+    expect(getSlotHitChance({ ...threeCost, copiesOwned: 2, copiesOut: 5 }, 1)).toBeCloseTo(
+      (0.3 * (POOL_SIZES[3]! - 8)) / (tierPool - 8)
+    );
+    expect(getSlotHitChance({ ...threeCost, copiesOut: POOL_SIZES[3]! })).toBe(0);
+    expect(getSlotHitChance({ ...threeCost, cost: 5, level: 4 })).toBe(0);
+  });
+
+  test('probabilityToHit should match the closed form when one copy is missing', () => {
+    // One-cost with two copies owned: each roll costs 2 and the copy costs 1
+    const target = { cost: 1, level: 4, copiesOwned: 2, copiesOut: 0 };
+    const p = getSlotHitChance(target);
+    const rolls = 10;
+
+    expect(probabilityToHit(target, 2, rolls * 2 + 1)).toBeCloseTo(1 - (1 - p) ** (5 * rolls));
+    expect(expectedGoldToHit(target, 2)).toBeCloseTo(2 / (1 - (1 - p) ** 5) + 1);
+  });
+
+  test('probabilityToHit should grow with gold and shrink with copies out', () => {
+    const low = probabilityToHit(threeCost, 2, 20);
+    const high = probabilityToHit(threeCost, 2, 60);
+    const contested = probabilityToHit({ ...threeCost, copiesOut: 8 }, 2, 60);
+
+    expect(low).toBeGreaterThan(0);
+    expect(high).toBeGreaterThan(low);
+    expect(high).toBeLessThanOrEqual(1);
+    expect(contested).toBeLessThan(high);
+    expect(probabilityToHit(threeCost, 2, 0)).toBe(0);
+  });
+
+  test('calculateRollOdds should handle reached and impossible targets', () => {
+    expect(calculateRollOdds({ ...threeCost, copiesOwned: 3 }, 2, 0)).toEqual({
+      copiesNeeded: 0,
+      probability: 1,
+      expectedGold: 0,
+    });
+
+    const impossible = calculateRollOdds({ ...threeCost, copiesOut: POOL_SIZES[3]! - 4 }, 3, 100);
+    expect(impossible.copiesNeeded).toBe(9);
+    expect(impossible.probability).toBe(0);
+    expect(impossible.expectedGold).toBe(Infinity);
+  });
+
+  test('expectedGoldToHit should cost more for 3 stars than for 2', () => {
+    const twoStar = expectedGoldToHit(threeCost, 2);
+    const threeStar = expectedGoldToHit(threeCost, 3);
+
+    expect(twoStar).toBeGreaterThan(3 * 3);
+    expect(threeStar).toBeGreaterThan(twoStar);
+  });
+
+  test('countOwnedCopies should count starred units as their copies', () => {
+    const unit = (name: string, tier: number) => ({ id: name, name, cost: 3, tier, items: [], traits: [] });
+    const gameState = {
+      units: [unit('Ahri', 2), unit('Yuumi', 1)],
+      bench: [unit('Ahri', 1)],
+    } as unknown as GameState;
+
+    expect(countOwnedCopies(gameState, 'Ahri')).toBe(4);
+    expect(countOwnedCopies(gameState, 'Garen')).toBe(0);
+  });
+});
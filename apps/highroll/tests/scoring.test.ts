@@ -0,0 +1,109 @@
+import { SCORERS, explainScore, sumBreakdown } from '../src/renderer/services/scoring';
+import type { Scorer } from '../src/renderer/services/scoring';
+import { SCORING_WEIGHTS } from '../src/shared/constants';
+import { GameState, TeamComp } from '../src/shared/types';
+
+describe('Scoring', () => {
+  const gameState: GameState = {
+    stage: '3-2',
+    playerLevel: 5,
+    playerHealth: 70,
+    gold: 30,
+    streak: 0,
+    units: [
+      {
+        id: 'TFT9_Ahri',
+        name: 'Ahri',
+        cost: 4,
+        tier: 2,
+        items: [
+          { id: 'TFT_Item_Deathcap', name: "Rabadon's Deathcap", type: 'combined' },
+          { id: 'TFT_Item_ChainVest', name: 'Chain Vest', type: 'basic' },
+        ],
+        traits: ['Spirit', 'Sorcerer'],
+      },
+    ],
+    bench: [{ id: 'TFT9_Teemo', name: 'Teemo', cost: 2, tier: 1, items: [], traits: ['Spirit', 'Sorcerer'] }],
+    items: [],
+    augments: [],
+    offeredAugments: [],
+    traits: [
+      { id: 'Spirit', name: 'Spirit', count: 2, active: true, style: 'bronze' },
+      { id: 'Sorcerer', name: 'Sorcerer', count: 2, active: true, style: 'bronze' },
+    ],
+  };
+
+  const comp: TeamComp = {
+    id: 'spirit',
+    name: 'Spirit Sorcerers',
+    tier: 'S',
+    units: [
+      {
+        id: 'TFT9_Ahri',
+        name: 'Ahri',
+        priority: 1,
+        items: [{ id: 'TFT_Item_Deathcap', name: "Rabadon's Deathcap", priority: 1 }],
+      },
+      { id: 'TFT9_Yuumi', name: 'Yuumi', priority: 2, items: [] },
+      { id: 'TFT9_Lillia', name: 'Lillia', priority: 3, items: [] },
+      { id: 'TFT9_Teemo', name: 'Teemo', priority: 4, items: [] },
+    ],
+    traits: [
+      { id: 'Spirit', name: 'Spirit', count: 4, style: 'gold' },
+      { id: 'Sorcerer', name: 'Sorcerer', count: 4, style: 'gold' },
+    ],
+    augments: [],
+    items: [],
+    placement: 4,
+    winRate: 0.15,
+    playRate: 0.08,
+    difficulty: 2,
+  };
+
+  const opponents = [
+    {
+      name: 'Rival',
+      stage: '3-2',
+      scoutedAt: 0,
+      units: [{ id: 'TFT9_Yuumi', name: 'Yuumi', cost: 3, tier: 1, items: [], traits: [] }],
+      traits: [],
+    },
+  ];
+
+  test('explainScore should report each factor unweighted and weighted', () => {
+    const breakdown = explainScore({ gameState, opponents }, comp, SCORING_WEIGHTS);
+    const values = Object.fromEntries(breakdown.map(factor => [factor.factor, factor.value]));
+
+    expect(breakdown.map(factor => factor.factor)).toEqual(SCORERS.map(scorer => scorer.factor));
+    expect(values).toEqual({
+      units: 1,
+      stars: 1,
+      traits: 4,
+      items: 1,
+      feasibility: (0.2 + 0.45) / 2, // Yuumi (3 cost) and Lillia (1 cost) at level 5
+      contested: -1,
+    });
+    breakdown.forEach(factor => {
+      expect(factor.weight).toBe(SCORING_WEIGHTS[factor.factor]);
+      expect(factor.score).toBeCloseTo(factor.value * factor.weight);
+    });
+  });
+
+  test('feasibility should be full when no comp unit is missing', () => {
+    const complete = { ...comp, units: comp.units.filter(unit => unit.name === 'Ahri' || unit.name === 'Teemo') };
+    const breakdown = explainScore({ gameState, opponents: [] }, complete, SCORING_WEIGHTS);
+
+    expect(breakdown.find(factor => factor.factor === 'feasibility')!.value).toBe(1);
+    expect(breakdown.find(factor => factor.factor === 'contested')!.value).toBe(0);
+  });
+
+  test('sumBreakdown should add the weighted factors of custom scorers', () => {
+    const scorers: Scorer[] = [
+      { factor: 'units', name: 'Units', score: () => 2 },
+      { factor: 'contested', name: 'Contested', score: () => -1 },
+    ];
+    const breakdown = explainScore({ gameState, opponents }, comp, { ...SCORING_WEIGHTS, units: 4, contested: 3 }, scorers);
+
+    expect(sumBreakdown(breakdown)).toBe(5);
+  });
+});
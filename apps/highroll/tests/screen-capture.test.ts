@@ -0,0 +1,110 @@
+import { captureFrame, closeCaptureStream, setDebugCapture, type CaptureStream } from '../src/renderer/services/screen-capture';
+import { VISION_PIPELINE } from '../src/shared/constants';
+import type { CaptureSource } from '../src/shared/ipc';
+
+// Mock the preload bridge
+jest.mock('../src/renderer/services/ipc', () => ({
+  invoke: jest.fn(),
+}));
+
+const gameWindow: CaptureSource = { id: 'window:1', name: 'League of Legends (TM) Client', gameWindow: true, width: 1920, height: 1080 };
+const primaryScreen: CaptureSource = { id: 'screen:1:0', name: 'Entire Screen', gameWindow: false, width: 1920, height: 1080 };
+
+// A stream whose frames are 1x1 pixels
+const fakeStream = (source: CaptureSource) => {
+  let live = true;
+  const stream: CaptureStream = {
+    source,
+    grab: jest.fn(() => ({ width: 1, height: 1, channels: 4, data: new Uint8ClampedArray([1, 2, 3, 255]) })),
+    encodePng: jest.fn().mockResolvedValue(new Uint8Array([137, 80])),
+    isLive: () => live,
+    close: jest.fn(() => {
+      live = false;
+    }),
+  };
+  return { stream, end: () => (live = false) };
+};
+
+describe('Screen capture', () => {
+  const { invoke } = require('../src/renderer/services/ipc');
+  let sources: CaptureSource[];
+  let opened: ReturnType<typeof fakeStream>[];
+  const open = jest.fn(async (source: CaptureSource) => {
+    const created = fakeStream(source);
+    opened.push(created);
+    return created.stream;
+  });
+
+  beforeEach(() => {
+    sources = [gameWindow];
+    opened = [];
+    open.mockClear();
+    invoke.mockReset();
+    invoke.mockImplementation(async (channel: string, payload: unknown) => {
+      if (channel === 'find-capture-source') return { success: true, data: sources.shift() ?? gameWindow };
+      if (channel === 'set-debug-capture') return payload;
+      return undefined;
+    });
+  });
+
+  afterEach(async () => {
+    closeCaptureStream();
+    await setDebugCapture({ enabled: false, maxFrames: 20 });
+    jest.restoreAllMocks();
+  });
+
+  test('keeps one stream open across captures', async () => {
+    await captureFrame(open);
+    const frame = await captureFrame(open);
+
+    expect(frame).toEqual({ width: 1, height: 1, channels: 4, data: new Uint8ClampedArray([1, 2, 3, 255]) });
+    expect(open).toHaveBeenCalledTimes(1);
+    expect(open).toHaveBeenCalledWith(gameWindow);
+    expect(invoke.mock.calls.filter((call: unknown[]) => call[0] === 'find-capture-source')).toHaveLength(1);
+  });
+
+  test('reopens the stream once the window has closed', async () => {
+    await captureFrame(open);
+    opened[0]!.end();
+    await captureFrame(open);
+
+    expect(open).toHaveBeenCalledTimes(2);
+    expect(opened[0]!.stream.close).toHaveBeenCalled();
+  });
+
+  test('looks for the game window again while capturing the screen', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    sources = [primaryScreen, primaryScreen, gameWindow];
+
+    await captureFrame(open);
+    now.mockReturnValue(1000 + VISION_PIPELINE.SOURCE_RECHECK_INTERVAL);
+    await captureFrame(open);
+    expect(open).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1000 + 2 * VISION_PIPELINE.SOURCE_RECHECK_INTERVAL);
+    await captureFrame(open);
+    expect(open).toHaveBeenCalledTimes(2);
+    expect(open).toHaveBeenLastCalledWith(gameWindow);
+  });
+
+  test('returns null when there is nothing to capture', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    invoke.mockResolvedValueOnce({ success: false, error: 'Could not find the TFT window or the primary display' });
+
+    expect(await captureFrame(open)).toBeNull();
+    expect(open).not.toHaveBeenCalled();
+    expect(await captureFrame(open)).not.toBeNull();
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+
+  test('sends frames to the main process while debug capture is on', async () => {
+    await captureFrame(open);
+    expect(invoke).not.toHaveBeenCalledWith('save-debug-frame', expect.anything());
+
+    await setDebugCapture({ enabled: true, maxFrames: 5 });
+    await captureFrame(open);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(invoke).toHaveBeenCalledWith('save-debug-frame', { png: new Uint8Array([137, 80]), capturedAt: expect.any(Number) });
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  comparePatches,
+  getChampion,
+  getChampions,
+  getItem,
+  getItemFromComponents,
+  getSetData,
+  getSetVersions,
+  getTrait,
+  registerSetData,
+  selectSetData,
+  validateSetData,
+} from '../src/shared/set-data';
+import type { SetData } from '../src/shared/types';
+
+describe('Set Data', () => {
+  const bundled = getSetData();
+
+  // A later patch of the bundled set with Ahri's cost changed
+  const nextPatch = (patch: string): SetData => ({
+    ...bundled,
+    patch,
+    champions: bundled.champions.map(champion => (champion.name === 'Ahri' ? { ...champion, cost: 5 } : champion)),
+  });
+
+  afterEach(() => {
+    selectSetData(bundled.set, bundled.patch);
+  });
+
+  test('loads the bundled set', () => {
+    expect(bundled.set).toBe(9);
+    expect(getChampions().length).toBeGreaterThan(0);
+    expect(getChampion('TFT9_Ahri')).toEqual(getChampion('Ahri'));
+    expect(getTrait('Fated')!.breakpoints[0]).toMatchObject({ minUnits: 3, style: 'bronze' });
+    expect(getItem('Giant Slayer')!.components).toEqual(['TFT_Item_BFSword', 'TFT_Item_RecurveBow']);
+    expect(getItemFromComponents('TFT_Item_RecurveBow', 'TFT_Item_BFSword')!.name).toBe('Giant Slayer');
+  });
+
+  test('replaces the bundled set with any generated or scraped patch of it', () => {
+    expect(bundled.patch).toBe('0');
+    registerSetData(nextPatch('13.22'));
+
+    expect(getSetData().patch).toBe('13.22');
+    expect(getChampion('Ahri')!.cost).toBe(5);
+  });
+
+  test('orders patches numerically', () => {
+    expect(comparePatches('13.9', '13.10')).toBeLessThan(0);
+    expect(comparePatches('14.1', '13.24')).toBeGreaterThan(0);
+    expect(comparePatches('13.23', '13.23.0')).toBe(0);
+  });
+
+  test('switches to newer patches as they are registered', () => {
+    registerSetData(nextPatch('13.24'));
+
+    expect(getSetData().patch).toBe('13.24');
+    expect(getChampion('Ahri')!.cost).toBe(5);
+
+    // An older patch is kept but does not replace the newer one
+    registerSetData(nextPatch('13.22'));
+    expect(getSetData().patch).toBe('13.24');
+    expect(getSetVersions().slice(0, 3)).toEqual([
+      { set: 9, patch: '13.24' },
+      { set: 9, patch: '13.22' },
+      { set: 9, patch: '0' },
+    ]);
+  });
+
+  test('selects a registered version', () => {
+    registerSetData(nextPatch('13.24'));
+
+    selectSetData(9, '0');
+    expect(getChampion('Ahri')!.cost).toBe(4);
+    expect(selectSetData(9).patch).toBe('13.24');
+    expect(() => selectSetData(10)).toThrow('No set data for set 10');
+  });
+
+  test('rejects incomplete set data', () => {
+    expect(() => validateSetData(null)).toThrow('Set data must be an object');
+    expect(() => validateSetData({ ...bundled, patch: 'latest' })).toThrow('Set 9 has no valid patch');
+    expect(() => validateSetData({ ...bundled, items: undefined })).toThrow('Set 9 is missing items');
+    expect(() => validateSetData({ ...bundled, champions: [{ id: 'TFT9_Ahri', name: 'Ahri', traits: [] }] })).toThrow(
+      'Champion Ahri has no cost or traits'
+    );
+    expect(() => validateSetData({ ...bundled, shopOdds: undefined })).toThrow('Set 9 is missing shopOdds');
+
+    expect(() => registerSetData({ ...nextPatch('13.25'), traits: undefined })).toThrow();
+    expect(getSetData().patch).toBe('0');
+  });
+});
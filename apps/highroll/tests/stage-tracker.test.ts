@@ -0,0 +1,253 @@
+import {
+  detectPhase,
+  initialTrackerState,
+  isCarouselRound,
+  isPvpRound,
+  parsePlacement,
+  parseRoundPhase,
+  parseStage,
+  trackGameState,
+} from '../src/renderer/services/stage-tracker';
+import { store } from '../src/renderer/store';
+import stageReducer, { ingestGameState, resetStage, trackCapture } from '../src/renderer/store/stageSlice';
+import { STAGE_TRACKING } from '../src/shared/constants';
+import { GameState, Unit } from '../src/shared/types';
+
+// Mock the preload bridge, used by the match history recorder
+jest.mock('../src/renderer/services/ipc', () => ({
+  invoke: jest.fn(),
+}));
+
+const makeUnit = (name: string, tier = 1, items: Unit['items'] = []): Unit => ({
+  id: `TFT9_${name}`,
+  name,
+  cost: 1,
+  tier,
+  items,
+  traits: [],
+});
+
+const makeGameState = (overrides: Partial<GameState> = {}): GameState => ({
+  stage: '3-1',
+  playerLevel: 6,
+  playerHealth: 70,
+  gold: 30,
+  streak: 0,
+  units: [],
+  bench: [],
+  items: [],
+  augments: [],
+  offeredAugments: [],
+  traits: [],
+  ...overrides,
+});
+
+describe('Stage Tracker', () => {
+  test('parseStage should parse the HUD stage string', () => {
+    expect(parseStage('3-2')).toEqual({ stage: 3, round: 2 });
+    expect(parseStage('')).toBeNull();
+    expect(parseStage('planning')).toBeNull();
+  });
+
+  test('isCarouselRound should recognize the opening and per-stage carousels', () => {
+    expect(isCarouselRound('1-1')).toBe(true);
+    expect(isCarouselRound('3-4')).toBe(true);
+    expect(isCarouselRound('1-4')).toBe(false);
+    expect(isCarouselRound('3-2')).toBe(false);
+  });
+
+  test('isPvpRound should leave out stage 1, carousels and monster rounds', () => {
+    expect(isPvpRound('2-1')).toBe(true);
+    expect(isPvpRound('4-6')).toBe(true);
+    expect(isPvpRound('1-3')).toBe(false);
+    expect(isPvpRound('3-4')).toBe(false);
+    expect(isPvpRound('3-7')).toBe(false);
+    expect(isPvpRound('')).toBe(false);
+  });
+
+  test('parseRoundPhase and parsePlacement should read the labels despite OCR misreads', () => {
+    expect(parseRoundPhase('Plannlng')).toBe('planning');
+    expect(parseRoundPhase('COMBAT ')).toBe('combat');
+    expect(parseRoundPhase('')).toBeUndefined();
+    expect(parsePlacement('1st')).toBe(1);
+    expect(parsePlacement('4 th Place')).toBe(4);
+    expect(parsePlacement('9th')).toBeUndefined();
+    expect(parsePlacement('31st')).toBeUndefined();
+    expect(parsePlacement('')).toBeUndefined();
+  });
+
+  test('detectPhase should read the phase from the screen, keeping the current one when unreadable', () => {
+    expect(detectPhase(makeGameState({ roundPhase: 'combat' }), 'planning')).toBe('combat');
+    expect(detectPhase(makeGameState({ roundPhase: 'planning' }), 'combat')).toBe('planning');
+    expect(detectPhase(makeGameState(), 'combat')).toBe('combat');
+    expect(detectPhase(makeGameState({ stage: '2-4', roundPhase: 'combat' }), 'planning')).toBe('carousel');
+    expect(
+      detectPhase(makeGameState({ offeredAugments: [{ id: 'a', name: 'A', description: '', tier: 'Gold' }] }), 'planning')
+    ).toBe('augment_selection');
+    expect(detectPhase(makeGameState({ placement: 1, playerHealth: 40 }), 'combat')).toBe('game_end');
+    expect(detectPhase(makeGameState({ playerHealth: 0 }), 'combat')).toBe('combat');
+  });
+
+  test('trackGameState should start each round in planning until the label says combat', () => {
+    const first = trackGameState(initialTrackerState, null, makeGameState(), 1000);
+    const combat = trackGameState(first.tracker, makeGameState(), makeGameState({ roundPhase: 'combat' }), 60000);
+    const unreadable = trackGameState(combat.tracker, makeGameState(), makeGameState(), 61000);
+    const nextRound = trackGameState(unreadable.tracker, makeGameState(), makeGameState({ stage: '3-2' }), 62000);
+
+    expect(first.tracker.phase).toBe('planning');
+    expect(combat.events).toEqual([expect.objectContaining({ type: 'phase_changed', from: 'planning', to: 'combat' })]);
+    expect(unreadable.tracker.phase).toBe('combat');
+    expect(nextRound.tracker.phase).toBe('planning');
+  });
+
+  test('trackGameState should start a round and enter planning on the first capture', () => {
+    const { tracker, events } = trackGameState(initialTrackerState, null, makeGameState(), 1000);
+
+    expect(tracker).toEqual({ stage: '3-1', phase: 'planning', roundStartedAt: 1000, roundLostHealth: false, streak: 0, nextEventId: 3 });
+    expect(events).toEqual([
+      { id: 1, stage: '3-1', timestamp: 1000, type: 'round_started', previousStage: '' },
+      { id: 2, stage: '3-1', timestamp: 1000, type: 'phase_changed', from: null, to: 'planning' },
+    ]);
+  });
+
+  test('trackGameState should keep the last stage when the stage is unreadable', () => {
+    const first = trackGameState(initialTrackerState, null, makeGameState(), 1000);
+    const { tracker, events } = trackGameState(first.tracker, makeGameState(), makeGameState({ stage: '' }), 2000);
+
+    expect(tracker.stage).toBe('3-1');
+    expect(tracker.roundStartedAt).toBe(1000);
+    expect(events).toEqual([]);
+  });
+
+  test('trackGameState should emit level, HP and unit events', () => {
+    const previous = makeGameState({
+      units: [makeUnit('Ahri'), makeUnit('Fiora')],
+      bench: [makeUnit('Fiora')],
+    });
+    const next = makeGameState({
+      stage: '3-2',
+      playerLevel: 7,
+      playerHealth: 62,
+      // Fiora moved to the board and starred up, Ahri was sold, Yasuo was bought
+      units: [makeUnit('Fiora', 2), makeUnit('Yasuo')],
+    });
+
+    const tracker = { ...initialTrackerState, stage: '3-1', phase: 'combat' as const, roundStartedAt: 1000 };
+    const { events } = trackGameState(tracker, previous, next, 40000);
+    const types = events.map(event => event.type);
+
+    expect(types).toEqual(['round_started', 'phase_changed', 'level_up', 'hp_lost', 'unit_sold', 'unit_bought', 'unit_bought']);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'hp_lost', amount: 8, remaining: 62, stage: '3-2' }));
+    expect(events).toContainEqual(expect.objectContaining({ type: 'unit_sold', champion: 'Ahri', copies: 1 }));
+    expect(events).toContainEqual(expect.objectContaining({ type: 'unit_bought', champion: 'Fiora', copies: 1 }));
+    expect(events).toContainEqual(expect.objectContaining({ type: 'unit_bought', champion: 'Yasuo', copies: 1 }));
+  });
+
+  test('trackGameState should detect items combined from their components', () => {
+    const rod = { id: 'TFT_Item_NeedlesslyLargeRod', name: 'Needlessly Large Rod', type: 'basic' };
+    const previous = makeGameState({ items: [rod, rod], units: [makeUnit('Ahri')] });
+    const next = makeGameState({
+      units: [makeUnit('Ahri', 1, [{ id: 'TFT_Item_Deathcap', name: "Rabadon's Deathcap", type: 'combined' }])],
+    });
+
+    const first = trackGameState(initialTrackerState, null, previous, 1000);
+    const { events } = trackGameState(first.tracker, previous, next, 2000);
+
+    expect(events).toEqual([
+      {
+        id: 3,
+        stage: '3-1',
+        timestamp: 2000,
+        type: 'item_combined',
+        item: 'TFT_Item_Deathcap',
+        components: ['TFT_Item_NeedlesslyLargeRod', 'TFT_Item_NeedlesslyLargeRod'],
+      },
+    ]);
+  });
+
+  test('trackGameState should report the end of the game once, including wins', () => {
+    const first = trackGameState(initialTrackerState, null, makeGameState({ playerHealth: 20 }), 1000);
+    const ended = trackGameState(
+      first.tracker,
+      makeGameState({ playerHealth: 20 }),
+      makeGameState({ playerHealth: 12, placement: 1 }),
+      2000
+    );
+    // The end screen closes before the next game starts
+    const after = trackGameState(ended.tracker, makeGameState({ playerHealth: 12 }), makeGameState({ playerHealth: 12 }), 3000);
+
+    expect(ended.events.map(event => event.type)).toEqual(['phase_changed', 'game_ended', 'hp_lost']);
+    expect(after.events).toEqual([]);
+  });
+
+  test('trackGameState should count PvP rounds won and lost in a row', () => {
+    // Health after each round, read on the first capture of the next one
+    const rounds: Array<[string, number]> = [
+      ['2-1', 100],
+      ['2-2', 100], // 2-1 won
+      ['2-3', 100], // 2-2 won
+      ['2-4', 92], // 2-3 lost
+      ['2-5', 92], // Carousel
+      ['2-6', 85], // 2-5 lost
+      ['2-7', 80], // 2-6 lost
+      ['3-1', 80], // Monsters
+    ];
+
+    let tracker = initialTrackerState;
+    let previous: GameState | null = null;
+    const streaks: number[] = [];
+    rounds.forEach(([stage, playerHealth], index) => {
+      const next = makeGameState({ stage, playerHealth });
+      tracker = trackGameState(tracker, previous, next, 1000 * (index + 1)).tracker;
+      previous = next;
+      streaks.push(tracker.streak);
+    });
+
+    expect(streaks).toEqual([0, 1, 2, -1, -1, -2, -3, -3]);
+
+    // Health lost later in the round counts too, and a new game starts over
+    tracker = trackGameState(tracker, previous, makeGameState({ stage: '3-1', playerHealth: 70 }), 9000).tracker;
+    tracker = trackGameState(tracker, makeGameState({ stage: '3-1', playerHealth: 70 }), makeGameState({ stage: '3-2', playerHealth: 70 }), 10000).tracker;
+    expect(tracker.streak).toBe(-4);
+    expect(trackGameState(tracker, null, makeGameState({ stage: '1-1', playerHealth: 100 }), 11000).tracker.streak).toBe(0);
+  });
+
+  test('trackGameState should not count unread health as lost', () => {
+    const previous = makeGameState({ playerHealth: 70 });
+    const { events } = trackGameState(initialTrackerState, previous, makeGameState({ playerHealth: null }), 1000);
+
+    expect(events.map(event => event.type)).not.toContain('hp_lost');
+  });
+
+  test('ingestGameState should keep the last health read and fill in the streak', () => {
+    const capture = (stage: string, playerHealth: number | null) => {
+      const { streak, ...frame } = makeGameState({ stage, playerHealth });
+      store.dispatch(ingestGameState(frame));
+      return store.getState().game.gameState!;
+    };
+    store.dispatch(resetStage());
+
+    expect(capture('2-1', null).playerHealth).toBeNull();
+    expect(capture('2-1', 64).playerHealth).toBe(64);
+    expect(capture('2-2', null)).toMatchObject({ playerHealth: 64, streak: 1 });
+  });
+
+  test('stage slice should record events and cap the history', () => {
+    let state = stageReducer(undefined, trackCapture({ previous: null, next: makeGameState(), timestamp: 1000 }));
+    expect(state.events).toHaveLength(2);
+
+    for (let level = 1; level <= STAGE_TRACKING.MAX_EVENTS; level++) {
+      state = stageReducer(
+        state,
+        trackCapture({
+          previous: makeGameState({ playerLevel: level }),
+          next: makeGameState({ playerLevel: level + 1 }),
+          timestamp: 1000 + level,
+        })
+      );
+    }
+
+    expect(state.events).toHaveLength(STAGE_TRACKING.MAX_EVENTS);
+    expect(state.events[state.events.length - 1]).toMatchObject({ type: 'level_up', to: STAGE_TRACKING.MAX_EVENTS + 1 });
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  createVisionRequestHandler,
+  createWorkerMatcher,
+  type IconAtlases,
+  type VisionWorkerRequest,
+} from '../src/renderer/services/template-matcher';
+import type { ImageFrame } from '../src/renderer/services/image-processing';
+
+// Stands in for a Web Worker running src/renderer/vision.worker.ts, answering
+// asynchronously like the real one
+class FakeVisionWorker {
+  private handleRequest = createVisionRequestHandler();
+  private listeners = new Map<string, (event: any) => void>();
+  terminate = jest.fn();
+
+  addEventListener(type: string, listener: (event: any) => void) {
+    this.listeners.set(type, listener);
+  }
+
+  postMessage(request: VisionWorkerRequest) {
+    // Messages are structured clones, not the sender's objects
+    const response = this.handleRequest(structuredClone(request));
+    if (response) {
+      setTimeout(() => this.listeners.get('message')?.({ data: response }));
+    }
+  }
+
+  fail(message: string) {
+    this.listeners.get('error')?.({ message });
+  }
+}
+
+const frame: ImageFrame = { width: 1920, height: 1080, channels: 4, data: new Uint8ClampedArray(1920 * 1080 * 4) };
+const atlases: IconAtlases = { championAtlas: new Map(), itemAtlas: new Map(), augmentAtlas: new Map() };
+
+describe('Template Matcher', () => {
+  test('matches frames in the worker with the atlases it was sent', async () => {
+    const worker = new FakeVisionWorker();
+    const matcher = createWorkerMatcher(worker as unknown as Worker, atlases);
+
+    await expect(matcher.matchBoard(frame)).resolves.toEqual({ board: [], bench: [], items: [], augmentIds: [] });
+    await expect(matcher.matchCarousel(frame)).resolves.toEqual([]);
+  });
+
+  test('reports requests sent before the atlases', () => {
+    const handleRequest = createVisionRequestHandler();
+
+    expect(handleRequest({ type: 'board', id: 1, frame })).toEqual({ id: 1, error: 'Icon atlases not loaded' });
+    expect(handleRequest({ type: 'atlases', atlases })).toBeNull();
+    expect(handleRequest({ type: 'carousel', id: 2, frame })).toEqual({ id: 2, result: [] });
+  });
+
+  test('rejects pending requests when the worker fails or is terminated', async () => {
+    const worker = new FakeVisionWorker();
+    const matcher = createWorkerMatcher(worker as unknown as Worker, atlases);
+
+    const failed = matcher.matchBoard(frame);
+    worker.fail('Out of memory');
+    await expect(failed).rejects.toThrow('Out of memory');
+
+    const terminated = matcher.matchCarousel(frame);
+    matcher.terminate();
+    await expect(terminated).rejects.toThrow('Vision worker terminated');
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+import { calculateTraits, unitsToNextBreakpoint } from '../src/renderer/services/trait-engine';
+import { TRAIT_THRESHOLDS } from '../src/shared/constants';
+import { Unit } from '../src/shared/types';
+
+const unit = (id: string, name: string, traits: string[], items: Unit['items'] = []): Unit => ({
+  id,
+  name,
+  cost: 1,
+  tier: 1,
+  items,
+  traits,
+});
+
+describe('Trait Engine', () => {
+  test('counts unique champions per trait and applies breakpoints', () => {
+    const traits = calculateTraits([
+      unit('TFT9_Ahri', 'Ahri', ['Spirit', 'Sorcerer']),
+      unit('TFT9_Yuumi', 'Yuumi', ['Spirit', 'Sorcerer']),
+      unit('TFT9_Teemo', 'Teemo', ['Spirit', 'Sorcerer']),
+      unit('TFT9_Xayah', 'Xayah', ['Sniper', 'Spirit']),
+      unit('TFT9_Fiora', 'Fiora', ['Duelist', 'Warden']),
+    ]);
+
+    expect(traits.find(t => t.name === 'Spirit')).toMatchObject({ count: 4, active: true, style: TRAIT_THRESHOLDS.SILVER });
+    expect(traits.find(t => t.name === 'Sorcerer')).toMatchObject({ count: 3, active: true, style: TRAIT_THRESHOLDS.BRONZE });
+    expect(traits.find(t => t.name === 'Duelist')).toMatchObject({ count: 1, active: false, style: 'none' });
+  });
+
+  test('counts duplicate copies of a champion once', () => {
+    const traits = calculateTraits([
+      unit('TFT9_Ahri', 'Ahri', ['Spirit', 'Sorcerer']),
+      unit('TFT9_Ahri', 'Ahri', ['Spirit', 'Sorcerer']),
+    ]);
+
+    expect(traits.find(t => t.name === 'Spirit')).toMatchObject({ count: 1, active: false });
+  });
+
+  test('adds traits granted by emblems', () => {
+    const emblem = { id: 'TFT9_Item_DuelistEmblem', name: 'Duelist Emblem', type: 'special' };
+    const traits = calculateTraits([
+      unit('TFT9_Fiora', 'Fiora', ['Duelist', 'Warden']),
+      unit('TFT9_Ahri', 'Ahri', ['Spirit', 'Sorcerer'], [emblem]),
+      // An emblem for a trait the unit already has adds nothing
+      unit('TFT9_Jax', 'Jax', ['Duelist', 'Bruiser'], [emblem]),
+    ]);
+
+    expect(traits.find(t => t.name === 'Duelist')).toMatchObject({ count: 3, active: true, style: TRAIT_THRESHOLDS.BRONZE });
+  });
+
+  test('resolves traits from set data for planned boards', () => {
+    const traits = calculateTraits([
+      { name: 'Yasuo', items: [] },
+      { name: 'Lee Sin', items: [] },
+      { name: 'Annie', items: [] },
+      { name: 'Tristana', items: [] },
+      { name: 'Aphelios', items: [] },
+    ]);
+
+    expect(traits[0]).toMatchObject({ name: 'Fated', count: 5, active: true, style: TRAIT_THRESHOLDS.SILVER });
+    expect(traits[0]!.effects?.map(effect => effect.minUnits)).toEqual([3, 5, 7, 10]);
+  });
+
+  test('sorts active traits before inactive ones', () => {
+    const traits = calculateTraits([
+      unit('TFT9_Fiora', 'Fiora', ['Duelist', 'Warden']),
+      unit('TFT9_Garen', 'Garen', ['Warden', 'Bruiser']),
+    ]);
+
+    expect(traits.map(t => t.name)).toEqual(['Warden', 'Bruiser', 'Duelist']);
+  });
+
+  test('unitsToNextBreakpoint reports the gap to the next breakpoint', () => {
+    const [spirit] = calculateTraits([
+      unit('TFT9_Ahri', 'Ahri', ['Spirit']),
+      unit('TFT9_Yuumi', 'Yuumi', ['Spirit']),
+      unit('TFT9_Teemo', 'Teemo', ['Spirit']),
+    ]);
+
+    expect(unitsToNextBreakpoint(spirit!)).toBe(1);
+    expect(unitsToNextBreakpoint({ ...spirit!, count: 6 })).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { planTransition } from '../src/renderer/services/transition-planner';
+import { GameState, Item, TeamComp, Unit } from '../src/shared/types';
+
+const unit = (name: string, cost: number, tier = 1, items: Item[] = []): Unit => ({
+  id: `TFT9_${name}`,
+  name,
+  cost,
+  tier,
+  items,
+  traits: [],
+});
+
+const rod: Item = { id: 'TFT_Item_NeedlesslyLargeRod', name: 'Needlessly Large Rod', type: 'basic' };
+
+describe('Transition Planner', () => {
+  const comp: TeamComp = {
+    id: 'spirit',
+    name: 'Spirit Sorcerers',
+    tier: 'S',
+    units: [
+      {
+        id: 'TFT9_Ahri',
+        name: 'Ahri',
+        priority: 1,
+        items: [{ id: 'TFT_Item_Deathcap', name: "Rabadon's Deathcap", priority: 1 }],
+      },
+      { id: 'TFT9_Yuumi', name: 'Yuumi', priority: 2, items: [] },
+      { id: 'TFT9_Teemo', name: 'Teemo', priority: 3, items: [] },
+    ],
+    traits: [],
+    augments: [],
+    items: [],
+    placement: 4,
+    winRate: 0.15,
+    playRate: 0.08,
+    difficulty: 2,
+  };
+
+  const gameState: GameState = {
+    stage: '3-2',
+    playerLevel: 1,
+    playerHealth: 70,
+    gold: 30,
+    streak: 0,
+    units: [unit('Ahri', 4, 2), unit('Garen', 1), unit('Jax', 2)],
+    bench: [unit('Ahri', 4), unit('Fiora', 1)],
+    items: [rod, rod],
+    augments: [],
+    offeredAugments: [],
+    traits: [],
+  };
+
+  it('should keep the best copy of owned comp units and sell bench units outside the comp', () => {
+    const { steps } = planTransition(gameState, comp);
+
+    const kept = steps.filter(step => step.type === 'keep');
+    expect(kept).toHaveLength(1);
+    expect(kept[0]!.description).toBe('Keep Ahri (2★)');
+
+    expect(steps).toContainEqual(expect.objectContaining({ type: 'sell', champion: 'Fiora' }));
+  });
+
+  it('should slam items from bench components on their holders', () => {
+    const { steps } = planTransition(gameState, comp);
+
+    expect(steps).toContainEqual({
+      type: 'item',
+      description: "Slam Rabadon's Deathcap (Needlessly Large Rod + Needlessly Large Rod) on Ahri",
+      champion: 'Ahri',
+      item: 'TFT_Item_Deathcap',
+    });
+  });
+
+  it('should replace the cheapest board units with missing comp units, core units first', () => {
+    const { steps, unitsMissing } = planTransition(gameState, comp);
+    const buys = steps.filter(step => step.type === 'buy');
+
+    expect(unitsMissing).toBe(2);
+    expect(buys.map(step => step.champion)).toEqual(['Yuumi', 'Teemo']);
+    expect(buys[0]!.description).toBe('Buy Yuumi (3g), replacing Garen');
+    expect(buys[1]!.description).toBe('Buy Teemo (2g), replacing Jax');
+
+    // The level step sits between the core units and the rest of the board
+    const levelIndex = steps.findIndex(step => step.type === 'level');
+    expect(steps.findIndex(step => step.champion === 'Yuumi')).toBeLessThan(levelIndex);
+    expect(steps.findIndex(step => step.champion === 'Teemo')).toBeGreaterThan(levelIndex);
+  });
+
+  it('should pivot at the level needed to field the core units', () => {
+    const lowLevel = planTransition(gameState, comp);
+    expect(lowLevel.pivotLevel).toBe(2);
+    expect(lowLevel.steps).toContainEqual(expect.objectContaining({ type: 'level', level: 2 }));
+
+    const highLevel = planTransition({ ...gameState, playerLevel: 7 }, comp);
+    expect(highLevel.pivotLevel).toBe(7);
+    expect(highLevel.steps.find(step => step.type === 'level')!.description).toBe(
+      'Pivot into Spirit Sorcerers now at level 7'
+    );
+  });
+
+  it('should not plan items a holder already has', () => {
+    const deathcap: Item = { id: 'TFT_Item_Deathcap', name: "Rabadon's Deathcap", type: 'combined' };
+    const equipped = { ...gameState, units: [unit('Ahri', 4, 2, [deathcap])] };
+
+    expect(planTransition(equipped, comp).steps.some(step => step.type === 'item')).toBe(false);
+  });
+});
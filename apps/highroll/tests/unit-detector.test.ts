@@ -0,0 +1,70 @@
+import {
+  detectUnitsInFrame,
+  getBenchSlots,
+  getBoardCells,
+  getPortraitRect,
+  getStarFrameRect,
+  type CellLocation,
+} from '../src/renderer/services/unit-detector';
+import type { ImageFrame } from '../src/renderer/services/image-processing';
+import { STAR_FRAME_COLORS, UNIT_DETECTION } from '../src/shared/constants';
+import { blankFrame, fill, makeAtlas, makeIcon, paste } from './helpers/frames';
+
+// Place a champion on a cell the way the game renders it: portrait plus star frame
+const placeUnit = (frame: ImageFrame, cell: CellLocation, portrait: ImageFrame, stars: number) => {
+  paste(frame, portrait, getPortraitRect(frame, cell));
+  fill(frame, getStarFrameRect(frame, cell), STAR_FRAME_COLORS[stars]!);
+};
+
+describe('Unit Detection', () => {
+  const portraits = {
+    TFT9_Ahri: makeIcon(1),
+    TFT9_Yuumi: makeIcon(2),
+    TFT9_Fiora: makeIcon(3),
+  };
+
+  const atlas = makeAtlas(portraits);
+
+  test.each([
+    [1920, 1080],
+    [1280, 720],
+  ])('detects board and bench units at %ix%i', (width, height) => {
+    const frame = blankFrame(width, height);
+    const cells = getBoardCells(frame);
+    const bench = getBenchSlots(frame);
+
+    placeUnit(frame, cells.find(c => c.row === 3 && c.col === 4)!, portraits.TFT9_Ahri, 2);
+    placeUnit(frame, cells.find(c => c.row === 0 && c.col === 0)!, portraits.TFT9_Yuumi, 1);
+    placeUnit(frame, bench[5]!, portraits.TFT9_Fiora, 3);
+
+    const { board, bench: benchUnits } = detectUnitsInFrame(frame, atlas);
+
+    expect(board).toHaveLength(2);
+    expect(board).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: 'TFT9_Ahri', cost: 4, tier: 2, position: { row: 3, col: 4 }, traits: ['Spirit', 'Sorcerer'] }),
+      expect.objectContaining({ id: 'TFT9_Yuumi', cost: 3, tier: 1, position: { row: 0, col: 0 } }),
+    ]));
+    expect(benchUnits).toEqual([
+      expect.objectContaining({ id: 'TFT9_Fiora', name: 'Fiora', cost: 1, tier: 3, traits: ['Duelist', 'Warden'] }),
+    ]);
+  });
+
+  test('ignores empty hexes and portraits missing from the atlas', () => {
+    const frame = blankFrame(1920, 1080);
+    placeUnit(frame, getBoardCells(frame)[10]!, makeIcon(99), 1);
+
+    expect(detectUnitsInFrame(frame, atlas)).toEqual({ board: [], bench: [] });
+  });
+
+  test('returns no units without an atlas', () => {
+    expect(detectUnitsInFrame(blankFrame(640, 360), new Map())).toEqual({ board: [], bench: [] });
+  });
+
+  test('board cells follow the hex layout', () => {
+    const cells = getBoardCells({ width: 1920, height: 1080 });
+
+    expect(cells).toHaveLength(UNIT_DETECTION.BOARD_ROWS * UNIT_DETECTION.BOARD_COLS);
+    // Odd rows are offset by half a hex
+    expect(cells.find(c => c.row === 1 && c.col === 0)!.x).toBeGreaterThan(cells.find(c => c.row === 0 && c.col === 0)!.x);
+  });
+});
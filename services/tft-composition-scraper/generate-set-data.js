@@ -0,0 +1,86 @@
+/**
+ * Set Data Generator
+ *
+ * Writes the set data bundled with the overlay, apps/highroll/src/shared/sets/set-<N>.json,
+ * from Community Dragon:
+ *
+ *   node generate-set-data.js [--patch 13.22] [--set 9] [--tables <set-file.json>] [--out <dir>]
+ *
+ * Without --patch the latest patch is used, and without --set its latest set.
+ * Shop odds, pool sizes and XP are not published by Community Dragon; they are
+ * carried over from --tables, the set's current bundled file by default.
+ */
+
+const fs = require('fs').promises;
+const path = require('path');
+const { scrapeSetData } = require('./set-data');
+
+const DEFAULT_OUT_DIR = path.join(__dirname, '..', '..', 'apps', 'highroll', 'src', 'shared', 'sets');
+
+// Tables the overlay keeps itself, as they are not in Community Dragon's data
+const CARRIED_TABLES = ['poolSizes', 'championsPerCost', 'shopOdds', 'xpToLevel'];
+
+const USAGE = 'Usage: node generate-set-data.js [--patch <patch>] [--set <number>] [--tables <set-file.json>] [--out <dir>]';
+
+function parseArgs(argv) {
+  const options = { out: DEFAULT_OUT_DIR };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    const value = () => {
+      const next = argv[++index];
+      if (next === undefined) throw new Error(`Missing value for ${arg}`);
+      return next;
+    };
+
+    if (arg === '--patch') options.patch = value();
+    else if (arg === '--set') options.set = parseInt(value(), 10);
+    else if (arg === '--tables') options.tables = value();
+    else if (arg === '--out') options.out = value();
+    else throw new Error(`Unknown option ${arg}`);
+  }
+
+  if (options.patch !== undefined && !/^\d+\.\d+$/.test(options.patch)) throw new Error('--patch must look like 13.22');
+  if (options.set !== undefined && !(options.set > 0)) throw new Error('--set must be a set number');
+  return options;
+}
+
+async function readTables(file) {
+  let previous;
+  try {
+    previous = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read shop odds, pool sizes and XP from ${file}: ${error.message}`);
+  }
+
+  const missing = CARRIED_TABLES.filter(table => !previous[table]);
+  if (missing.length > 0) throw new Error(`${file} has no ${missing.join(', ')}`);
+  return Object.fromEntries(CARRIED_TABLES.map(table => [table, previous[table]]));
+}
+
+async function main() {
+  let options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const data = await scrapeSetData({ patch: options.patch, set: options.set });
+  const file = path.join(options.out, `set-${data.set}.json`);
+  const tables = await readTables(options.tables || file);
+
+  await fs.writeFile(file, `${JSON.stringify({ ...data, ...tables }, null, 2)}\n`);
+  console.log(
+    `Wrote set ${data.set} patch ${data.patch} to ${file}: ${data.champions.length} champions, ` +
+      `${data.traits.length} traits, ${data.items.length} items, ${data.augments.length} augments`
+  );
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Generating set data failed:', error.message);
+    process.exit(1);
+  });
+}
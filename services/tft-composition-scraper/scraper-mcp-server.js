@@ -10,6 +10,7 @@ const fs = require('fs').promises;
 const path = require('path');
 const { chromium } = require('playwright');
 require('dotenv').config();
+const { scrapeSetData } = require('./set-data');
 
 const app = express();
 app.use(cors());
@@ -338,6 +339,35 @@ app.get('/api/scrape-compositions', async (_, res) => {
   }
 });
 
+// Endpoint to refresh the set data
+app.get('/api/scrape-set-data', async (_, res) => {
+  try {
+    const dataDir = path.join(__dirname, 'data');
+    await fs.mkdir(dataDir, { recursive: true });
+
+    const data = await scrapeSetData();
+    await fs.writeFile(path.join(dataDir, 'set-data.json'), JSON.stringify(data, null, 2));
+
+    res.json({ success: true, set: data.set, patch: data.patch, champions: data.champions.length });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Endpoint serving the set data saved by the last refresh
+app.get('/api/set-data', async (_, res) => {
+  try {
+    const data = await fs.readFile(path.join(__dirname, 'data', 'set-data.json'), 'utf8');
+    res.type('json').send(data);
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      res.status(404).json({ success: false, error: 'No set data scraped yet' });
+    } else {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+});
+
 // Start the server
 app.listen(PORT, () => {
   console.log(`TFT Composition Scraper MCP server running on port ${PORT}`);
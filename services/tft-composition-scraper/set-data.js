@@ -0,0 +1,115 @@
+/**
+ * Set data from Community Dragon
+ *
+ * Converts the static game data Community Dragon publishes for each patch to
+ * the overlay's set data format. Used by the server's set data endpoints and
+ * by generate-set-data.js, which writes the set data bundled with the overlay.
+ */
+
+// Static game data, published by Community Dragon for every patch
+const CDRAGON_URL = 'https://raw.communitydragon.org';
+
+// Community Dragon trait styles, by their numeric code
+const TRAIT_STYLES = { 1: 'bronze', 2: 'silver', 3: 'silver', 4: 'chromatic', 5: 'gold', 6: 'chromatic' };
+
+// Strip markup and unresolved @variables@ from a Community Dragon description
+function cleanDescription(text) {
+  return (text || '')
+    .replace(/<br\s*\/?>/g, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/@[^@]+@/g, '?')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Augment tier from the roman numeral ending its name
+function augmentTier(name) {
+  if (/ III$/.test(name)) return 'prismatic';
+  if (/ II$/.test(name)) return 'gold';
+  return 'silver';
+}
+
+// Convert Community Dragon's data to the overlay's set data format, for the
+// given set or the latest one. Shop odds, pool sizes and XP are not published
+// there; the overlay keeps its own.
+function toSetData(cdragon, patch, setNumber) {
+  const current = cdragon.setData
+    .filter(set => set.champions && set.champions.length > 0)
+    .filter(set => setNumber === undefined || set.number === setNumber)
+    .sort((a, b) => b.number - a.number)[0];
+  if (!current) throw new Error(setNumber === undefined ? 'No set data found' : `No set data found for set ${setNumber}`);
+
+  const prefix = `TFT${current.number}_`;
+  const champions = current.champions
+    .filter(champion => champion.apiName.startsWith(prefix) && champion.cost >= 1 && champion.cost <= 5 && champion.traits.length > 0)
+    .map(champion => ({ id: champion.apiName, name: champion.name, cost: champion.cost, traits: champion.traits }));
+
+  const traits = current.traits.map(trait => {
+    const rows = (trait.desc || '').match(/<row>(.*?)<\/row>/g) || [];
+    return {
+      id: trait.name,
+      name: trait.name,
+      breakpoints: trait.effects.map((effect, index) => ({
+        minUnits: effect.minUnits,
+        style: TRAIT_STYLES[effect.style] || 'bronze',
+        description: cleanDescription(rows[index] || trait.desc),
+      })),
+    };
+  });
+
+  // Components are the items other items are built from
+  const recipes = cdragon.items.filter(item => item.composition && item.composition.length === 2);
+  const componentIds = new Set(recipes.flatMap(item => item.composition));
+  const items = [
+    ...cdragon.items
+      .filter(item => componentIds.has(item.apiName))
+      .map(item => ({ id: item.apiName, name: item.name, type: 'basic' })),
+    ...recipes
+      .filter(item => item.composition.every(id => componentIds.has(id)))
+      .map(item => {
+        const trait = item.apiName.includes('Emblem') ? (item.associatedTraits || [])[0] : undefined;
+        return trait
+          ? { id: item.apiName, name: item.name, type: 'special', components: item.composition, trait }
+          : { id: item.apiName, name: item.name, type: 'combined', components: item.composition };
+      }),
+    ...cdragon.items
+      .filter(item => item.apiName.includes('_Item_Ornn'))
+      .map(item => ({ id: item.apiName, name: item.name, type: 'ornn' })),
+  ];
+
+  const augments = cdragon.items
+    .filter(item => item.apiName.startsWith(prefix) && item.apiName.includes('_Augment_'))
+    .map(item => ({
+      id: item.apiName,
+      name: item.name,
+      description: cleanDescription(item.desc),
+      tier: augmentTier(item.name),
+      synergies: item.associatedTraits || [],
+    }));
+
+  return { set: current.number, patch, champions, traits, items, augments };
+}
+
+// Download a set's data, labelled with the game patch it is from. Takes the
+// latest patch unless one is given, e.g. { patch: '13.22', set: 9 } for a
+// past set.
+async function scrapeSetData({ patch: requestedPatch, set } = {}) {
+  const version = requestedPatch || 'latest';
+  const [dataResponse, metadataResponse] = await Promise.all([
+    fetch(`${CDRAGON_URL}/${version}/cdragon/tft/en_us.json`),
+    fetch(`${CDRAGON_URL}/${version}/content-metadata.json`),
+  ]);
+  if (!dataResponse.ok || !metadataResponse.ok) {
+    throw new Error(`Community Dragon request failed with status ${dataResponse.ok ? metadataResponse.status : dataResponse.status}`);
+  }
+
+  // Versions look like 14.5.565.7906; the patch is the first two parts
+  const metadata = await metadataResponse.json();
+  const patch = String(metadata.version).split('.').slice(0, 2).join('.');
+  return toSetData(await dataResponse.json(), patch, set);
+}
+
+module.exports = {
+  toSetData,
+  scrapeSetData,
+};